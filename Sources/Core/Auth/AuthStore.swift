@@ -28,6 +28,8 @@ final class AuthStore: ObservableObject {
     @Published private(set) var state: State
     @Published private(set) var sessionValidationState: SessionValidationState
     @Published var isWorking = false
+    /// Set while the signed-in account is scheduled for deletion; the server refuses everything but a restore.
+    @Published private(set) var pendingDeletion: PendingAccountDeletion?
 
     private let client: SupabaseAuthRESTClient?
     private let sessionStorage: AuthSessionStorage
@@ -121,6 +123,9 @@ final class AuthStore: ObservableObject {
     var cloudMutationPermission: CloudMutationPermission {
         guard isConfigured else { return .authRequired }
         switch state {
+        case .signedIn where pendingDeletion != nil:
+            // Held until the user restores the account or signs out.
+            return .authPending
         case .signedIn:
             switch sessionValidationState {
             case .validated:
@@ -252,6 +257,7 @@ final class AuthStore: ObservableObject {
         do {
             _ = try await client.fetchCurrentUser(accessToken: token)
             logAuth("Session validated with server")
+            await refreshPendingDeletion(accessToken: token)
             switch state {
             case .loading:
                 if let stored = sessionStorage.load(),
@@ -353,6 +359,7 @@ final class AuthStore: ObservableObject {
 
         do {
             let session = try await client.signIn(email: email, password: password)
+            await refreshPendingDeletion(accessToken: session.accessToken)
             applySignedIn(session)
             logAuth("Sign-in succeeded", details: sessionDebugDetails(session))
         } catch {
@@ -422,6 +429,25 @@ final class AuthStore: ObservableObject {
         }
     }
 
+    func restoreAccount() async {
+        guard let client else { return }
+        guard let token = await validAccessToken(), !token.isEmpty else {
+            state = .error("You need an active session to restore your account.")
+            return
+        }
+
+        isWorking = true
+        defer { isWorking = false }
+
+        do {
+            try await client.restoreAccount(accessToken: token)
+            pendingDeletion = nil
+            logAuth("Account deletion cancelled")
+        } catch {
+            state = .error(error.localizedDescription)
+        }
+    }
+
     func sendPasswordReset(email rawEmail: String) async {
         guard let client else { return }
         let email = rawEmail.trimmingCharacters(in: .whitespacesAndNewlines)
@@ -474,11 +500,25 @@ final class AuthStore: ObservableObject {
         sessionStorage.clear()
         tokenStore.set(nil)
         sessionValidationState = .invalid
+        pendingDeletion = nil
         if hadSession || hadToken {
             logAuth("Cleared local session/token cache")
         }
     }
 
+    private func refreshPendingDeletion(accessToken: String) async {
+        guard let client else { return }
+        do {
+            pendingDeletion = try await client.fetchPendingDeletion(accessToken: accessToken)
+            if let pendingDeletion {
+                logAuth("Account is pending deletion", details: ["purgeAfter": pendingDeletion.purgeAfter])
+            }
+        } catch {
+            // Keep the last known state; the server still refuses requests for a pending deletion.
+            logAuth("Pending deletion check failed", details: ["reason": error.localizedDescription])
+        }
+    }
+
     private func restoreSessionIfPossible() async {
         if let token = await validAccessToken(), !token.isEmpty {
             return
@@ -940,6 +980,32 @@ struct SupabaseAuthRESTClient {
         try validateHTTP(response: response, data: data)
     }
 
+    func restoreAccount(accessToken: String) async throws {
+        let url = try functionsURL(path: "restore-account")
+        var request = makeJSONRequest(url: url)
+        request.httpMethod = "POST"
+        request.setValue("Bearer \(accessToken)", forHTTPHeaderField: "Authorization")
+        request.httpBody = Data("{}".utf8)
+
+        let (data, response) = try await session.data(for: request)
+        try validateHTTP(response: response, data: data)
+    }
+
+    func fetchPendingDeletion(accessToken: String) async throws -> PendingAccountDeletion? {
+        let url = try restURL(path: "account_deletions", queryItems: [
+            URLQueryItem(name: "select", value: "purge_after"),
+            URLQueryItem(name: "status", value: "in.(pending,purging)"),
+            URLQueryItem(name: "limit", value: "1")
+        ])
+        var request = makeJSONRequest(url: url)
+        request.httpMethod = "GET"
+        request.setValue("Bearer \(accessToken)", forHTTPHeaderField: "Authorization")
+
+        let (data, response) = try await session.data(for: request)
+        try validateHTTP(response: response, data: data)
+        return try JSONDecoder().decode([PendingAccountDeletion].self, from: data).first
+    }
+
     func fetchCurrentUser(accessToken: String) async throws -> AuthUserPayload {
         let url = try authURL(path: "user")
         var request = makeJSONRequest(url: url)
@@ -979,6 +1045,19 @@ struct SupabaseAuthRESTClient {
         return url
     }
 
+    private func restURL(path: String, queryItems: [URLQueryItem]) throws -> URL {
+        guard var components = URLComponents(url: config.url, resolvingAgainstBaseURL: false) else {
+            throw AuthError.invalidResponse("Invalid Supabase URL.")
+        }
+        let basePath = components.path.trimmingCharacters(in: CharacterSet(charactersIn: "/"))
+        components.path = "/" + [basePath, "rest", "v1", path].filter { !$0.isEmpty }.joined(separator: "/")
+        components.queryItems = queryItems
+        guard let url = components.url else {
+            throw AuthError.invalidResponse("Invalid REST URL.")
+        }
+        return url
+    }
+
     private func makeJSONRequest(url: URL) -> URLRequest {
         var request = URLRequest(url: url)
         request.setValue("application/json", forHTTPHeaderField: "Content-Type")
@@ -1081,6 +1160,22 @@ private struct AuthSessionResponse: Decodable {
     }
 }
 
+struct PendingAccountDeletion: Decodable, Equatable {
+    let purgeAfter: String
+
+    var purgeDate: Date? {
+        let formatter = ISO8601DateFormatter()
+        formatter.formatOptions = [.withInternetDateTime, .withFractionalSeconds]
+        if let date = formatter.date(from: purgeAfter) { return date }
+        formatter.formatOptions = [.withInternetDateTime]
+        return formatter.date(from: purgeAfter)
+    }
+
+    enum CodingKeys: String, CodingKey {
+        case purgeAfter = "purge_after"
+    }
+}
+
 struct AuthUserPayload: Decodable {
     let id: String?
     let email: String?
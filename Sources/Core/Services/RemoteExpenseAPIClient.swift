@@ -59,12 +59,14 @@ struct SupabaseFunctionExpenseAPIClient: ExpenseAPIClientProtocol {
             guard let apiResponse else {
                 throw ExpenseAPIError.server("Unexpected server response.")
             }
-            guard apiResponse.status == "saved" || apiResponse.status == "needs_review" else {
+            // "already_synced" is a replay of a capture the user has since edited; the stored row is returned as-is.
+            let isSaved = apiResponse.status == "saved" || apiResponse.status == "already_synced"
+            guard isSaved || apiResponse.status == "needs_review" else {
                 let body = String(data: data, encoding: .utf8) ?? ""
                 throw ExpenseAPIError.server(apiResponse.error ?? apiResponse.message ?? (body.isEmpty ? "Unexpected server error" : body))
             }
             let parsed = apiResponse.parse
-            let parseConfidence = parsed?.confidence ?? (apiResponse.status == "saved" ? 0.95 : 0.5)
+            let parseConfidence = parsed?.confidence ?? (isSaved ? 0.95 : 0.5)
             let parseRawText = (parsed?.rawText?.trimmingCharacters(in: .whitespacesAndNewlines).isEmpty == false
                 ? parsed?.rawText
                 : request.rawText)
@@ -103,7 +105,7 @@ struct SupabaseFunctionExpenseAPIClient: ExpenseAPIClientProtocol {
                 parseConfidence: parseConfidence
             )
 
-            let status: QueueStatus = apiResponse.status == "saved" ? .saved : .needsReview
+            let status: QueueStatus = isSaved ? .saved : .needsReview
             return ParseExpenseResponseDTO(
                 status: status,
                 draft: draft,
@@ -715,7 +717,6 @@ struct SupabaseFunctionExpenseAPIClient: ExpenseAPIClientProtocol {
         let parsingLanguage = snapshot.parsingLanguage?
             .trimmingCharacters(in: .whitespacesAndNewlines)
             .lowercased()
-        let dailyVoiceLimit = snapshot.dailyVoiceLimit
 
         var upsertReq = makeJSONRequest(
             url: try makeRestURL(path: "profiles", queryItems: [URLQueryItem(name: "on_conflict", value: "id")]),
@@ -726,8 +727,7 @@ struct SupabaseFunctionExpenseAPIClient: ExpenseAPIClientProtocol {
         upsertReq.httpBody = try JSONEncoder().encode([RESTProfileUpsert(
             id: userID,
             defaultCurrency: currency,
-            parsingLanguage: parsingLanguage,
-            dailyVoiceLimit: dailyVoiceLimit
+            parsingLanguage: parsingLanguage
         )])
         let (data, response) = try await session.data(for: upsertReq)
         try validateREST(response: response, data: data)
@@ -1125,17 +1125,16 @@ private struct RESTProfile: Decodable {
     }
 }
 
+// plan_id and daily_voice_limit are set by the service; the profiles guard rejects client writes to them.
 private struct RESTProfileUpsert: Encodable {
     let id: String
     let defaultCurrency: String
     let parsingLanguage: String?
-    let dailyVoiceLimit: Int?
 
     enum CodingKeys: String, CodingKey {
         case id
         case defaultCurrency = "default_currency"
         case parsingLanguage = "parsing_language"
-        case dailyVoiceLimit = "daily_voice_limit"
     }
 }
 
@@ -104,7 +104,7 @@ struct SettingsView: View {
                 Button("Cancel", role: .cancel) {}
             },
             message: {
-                Text("This permanently deletes your account and synced data. This action cannot be undone.")
+                Text("Your account and synced data are scheduled for permanent deletion. Sign in again before the deletion completes to restore your account.")
             }
         )
     }
@@ -26,6 +26,21 @@ struct ContentView: View {
                 }
             }
         }
+        .alert(
+            "Restore your account?",
+            isPresented: pendingDeletionIsPresented,
+            actions: {
+                Button("Restore Account") {
+                    Task { await authStore.restoreAccount() }
+                }
+                Button("Sign Out", role: .cancel) {
+                    Task { await authStore.signOut() }
+                }
+            },
+            message: {
+                Text(pendingDeletionMessage)
+            }
+        )
         .fullScreenCover(isPresented: tutorialIsPresented) {
             OnboardingShowcaseView()
                 .environmentObject(store)
@@ -70,6 +85,21 @@ struct ContentView: View {
         return false
     }
 
+    private var pendingDeletionIsPresented: Binding<Bool> {
+        Binding(
+            get: { isSignedIn && authStore.pendingDeletion != nil },
+            // Both buttons resolve the deletion state themselves.
+            set: { _ in }
+        )
+    }
+
+    private var pendingDeletionMessage: String {
+        guard let date = authStore.pendingDeletion?.purgeDate else {
+            return "Your account is scheduled for deletion. Restore it to keep your data, or sign out."
+        }
+        return "Your account is scheduled for deletion on \(date.formatted(date: .abbreviated, time: .omitted)). Restore it to keep your data, or sign out."
+    }
+
     private var tutorialIsPresented: Binding<Bool> {
         Binding(
             get: {
@@ -409,6 +409,60 @@ final class SpeakanceCriticalFlowsTests: XCTestCase {
         }
     }
 
+    func testSignInWithPendingDeletionHoldsCloudSyncUntilRestored() async {
+        StubURLProtocol.reset()
+        defer { StubURLProtocol.reset() }
+
+        let payload = Data(#"{"iss":"https://example.supabase.co/auth/v1","role":"authenticated","aud":"authenticated"}"#.utf8)
+            .base64EncodedString()
+            .replacingOccurrences(of: "=", with: "")
+        let accessToken = "e30.\(payload).sig"
+        var restoreCalls = 0
+        StubURLProtocol.requestHandler = { request in
+            let path = request.url?.path ?? ""
+            let body: String
+            switch path {
+            case "/auth/v1/token":
+                body = #"{"access_token":"\#(accessToken)","refresh_token":"refresh","token_type":"bearer","expires_in":3600,"user":{"id":"user-1","email":"ana@example.com"}}"#
+            case "/rest/v1/account_deletions":
+                XCTAssertEqual(request.value(forHTTPHeaderField: "Authorization"), "Bearer \(accessToken)")
+                body = #"[{"purge_after":"2026-04-09T12:00:00.123+00:00"}]"#
+            case "/functions/v1/restore-account":
+                restoreCalls += 1
+                body = #"{"status":"restored"}"#
+            default:
+                XCTFail("Unexpected request: \(path)")
+                body = "{}"
+            }
+            let response = HTTPURLResponse(url: request.url!, statusCode: 200, httpVersion: nil, headerFields: nil)!
+            return (response, Data(body.utf8))
+        }
+
+        let sessionConfig = URLSessionConfiguration.ephemeral
+        sessionConfig.protocolClasses = [StubURLProtocol.self]
+        let authStore = AuthStore(
+            client: SupabaseAuthRESTClient(
+                config: SupabaseAppConfig(url: testProjectURL, anonKey: "anon"),
+                session: URLSession(configuration: sessionConfig)
+            ),
+            sessionStorage: InMemoryAuthSessionStorage(),
+            tokenStore: SharedAccessTokenStore()
+        )
+
+        await authStore.signIn(email: "ana@example.com", password: "secret")
+
+        XCTAssertEqual(authStore.currentUserID, "user-1")
+        XCTAssertEqual(authStore.pendingDeletion?.purgeAfter, "2026-04-09T12:00:00.123+00:00")
+        XCTAssertNotNil(authStore.pendingDeletion?.purgeDate)
+        XCTAssertEqual(authStore.cloudMutationPermission, .authPending)
+
+        await authStore.restoreAccount()
+
+        XCTAssertEqual(restoreCalls, 1)
+        XCTAssertNil(authStore.pendingDeletion)
+        XCTAssertEqual(authStore.cloudMutationPermission, .allowed)
+    }
+
     func testRefreshCloudStatePreservesLocalEditsWhenRemoteUpdateFails() async {
         let queueStore = InMemoryQueueStore()
         let expenseStore = InMemoryExpenseLedgerStore()
@@ -712,6 +766,14 @@ final class SpeakanceCriticalFlowsTests: XCTestCase {
     }
 }
 
+private final class InMemoryAuthSessionStorage: AuthSessionStorage {
+    private var session: UserSession?
+
+    func load() -> UserSession? { session }
+    func save(_ session: UserSession) { self.session = session }
+    func clear() { session = nil }
+}
+
 private final class FailingQueueStore: QueueStoreProtocol {
     var onPersistenceError: ((String) -> Void)?
 
@@ -0,0 +1,52 @@
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ACCOUNT_EXPORTS_BUCKET, CAPTURE_BUCKETS, listStorageObjects } from "./storage.ts";
+
+const DEFAULT_GRACE_DAYS = 30;
+const REMOVE_CHUNK_SIZE = 1000;
+
+// ACCOUNT_DELETION_GRACE_DAYS; 0 erases the account as soon as it is requested.
+export function accountDeletionGraceDays(): number {
+  const raw = Deno.env.get("ACCOUNT_DELETION_GRACE_DAYS")?.trim();
+  const days = raw ? Number(raw) : NaN;
+  return Number.isInteger(days) && days >= 0 ? days : DEFAULT_GRACE_DAYS;
+}
+
+export const PENDING_DELETION_ERROR = "Account is scheduled for deletion; restore it to continue";
+
+// A user keeps their session while the deletion is pending so they can call restore-account. Everything else
+// refuses them with PENDING_DELETION_ERROR (403): new captures or imports would only be erased by the purge.
+// export-account still answers, so the data can be taken out before it goes.
+export async function hasPendingDeletion(supabase: ReturnType<typeof createClient>, userID: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("account_deletions")
+    .select("id")
+    .eq("user_id", userID)
+    .in("status", ["pending", "purging"])
+    .limit(1);
+  if (error) {
+    // Requests go through rather than locking every user out on a read failure.
+    console.error("[account-deletion] pending deletion check failed", { userID, message: error.message });
+    return false;
+  }
+  return (data?.length ?? 0) > 0;
+}
+
+// Removes every storage object under `${userID}/`, then the auth user. Storage goes first: objects are not
+// cascaded, and once the user is gone nothing would point at them. Every app table references auth.users with
+// `on delete cascade`, so deleting the user removes the rows. Returns the number of storage objects removed.
+export async function purgeAccount(supabase: ReturnType<typeof createClient>, userID: string): Promise<number> {
+  let removed = 0;
+  for (const bucket of [...CAPTURE_BUCKETS, ACCOUNT_EXPORTS_BUCKET]) {
+    const paths = (await listStorageObjects(supabase, bucket, userID)).map((object) => object.path);
+    for (let offset = 0; offset < paths.length; offset += REMOVE_CHUNK_SIZE) {
+      const { error } = await supabase.storage.from(bucket).remove(paths.slice(offset, offset + REMOVE_CHUNK_SIZE));
+      if (error) throw new Error(`${bucket}: ${error.message}`);
+    }
+    removed += paths.length;
+  }
+
+  const { error } = await supabase.auth.admin.deleteUser(userID);
+  // Already deleted (e.g. from the dashboard) counts as done.
+  if (error && error.status !== 404) throw new Error(error.message);
+  return removed;
+}
@@ -0,0 +1,43 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { accountDeletionGraceDays, hasPendingDeletion } from "./account-deletion.ts";
+
+// Answers `from("account_deletions").select().eq().in().limit()` with the given rows or error.
+function deletionsClient(result: { data: unknown[] | null; error: { message: string } | null }) {
+  const filters: unknown[][] = [];
+  const query = {
+    select: () => query,
+    eq: (...args: unknown[]) => (filters.push(["eq", ...args]), query),
+    in: (...args: unknown[]) => (filters.push(["in", ...args]), query),
+    limit: () => Promise.resolve(result),
+  };
+  const client = { from: () => query } as unknown as ReturnType<typeof createClient>;
+  return { client, filters };
+}
+
+Deno.test("the grace window defaults to 30 days and accepts 0", () => {
+  const previous = Deno.env.get("ACCOUNT_DELETION_GRACE_DAYS");
+  try {
+    for (const [raw, days] of [[undefined, 30], ["7", 7], ["0", 0], ["-1", 30], ["2.5", 30], ["soon", 30]] as const) {
+      if (raw === undefined) Deno.env.delete("ACCOUNT_DELETION_GRACE_DAYS");
+      else Deno.env.set("ACCOUNT_DELETION_GRACE_DAYS", raw);
+      assertEquals(accountDeletionGraceDays(), days, String(raw));
+    }
+  } finally {
+    if (previous === undefined) Deno.env.delete("ACCOUNT_DELETION_GRACE_DAYS");
+    else Deno.env.set("ACCOUNT_DELETION_GRACE_DAYS", previous);
+  }
+});
+
+Deno.test("a pending or purging deletion blocks the user", async () => {
+  const pending = deletionsClient({ data: [{ id: "d1" }], error: null });
+  assertEquals(await hasPendingDeletion(pending.client, "user-1"), true);
+  assertEquals(pending.filters, [["eq", "user_id", "user-1"], ["in", "status", ["pending", "purging"]]]);
+
+  assertEquals(await hasPendingDeletion(deletionsClient({ data: [], error: null }).client, "user-1"), false);
+});
+
+Deno.test("a failed check lets the request through", async () => {
+  const failing = deletionsClient({ data: null, error: { message: "relation does not exist" } });
+  assertEquals(await hasPendingDeletion(failing.client, "user-1"), false);
+});
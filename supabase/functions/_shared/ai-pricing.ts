@@ -0,0 +1,65 @@
+export const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+export type AIUsage = {
+  inputTokens: number | null;
+  outputTokens: number | null;
+  audioSeconds: number | null;
+};
+
+type ModelPrice = {
+  // USD per million tokens.
+  inputPerMillion?: number;
+  outputPerMillion?: number;
+  // USD per minute of audio, for models billed by duration.
+  audioPerMinute?: number;
+};
+
+// List prices in USD. Keys are base model names; dated snapshots ("gpt-4o-mini-2024-07-18") match their base.
+export const MODEL_PRICES_USD: Record<string, ModelPrice> = {
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "gpt-4.1-nano": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  "gpt-4.1-mini": { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  "gpt-4.1": { inputPerMillion: 2, outputPerMillion: 8 },
+  "whisper-1": { audioPerMinute: 0.006 },
+  "gpt-4o-transcribe": { audioPerMinute: 0.006 },
+  "gpt-4o-mini-transcribe": { audioPerMinute: 0.003 },
+};
+
+// Providers that run locally and never bill.
+const FREE_PROVIDERS = new Set(["deterministic", "stub"]);
+
+export function emptyUsage(): AIUsage {
+  return { inputTokens: null, outputTokens: null, audioSeconds: null };
+}
+
+// Returns null when the model has no known price, so unknown spend is never reported as free.
+export function estimateCostUSD(provider: string, model: string, usage: AIUsage): number | null {
+  if (FREE_PROVIDERS.has(provider)) return 0;
+  const price = lookupModelPrice(model);
+  if (!price) return null;
+
+  let cost = 0;
+  let priced = false;
+  if (price.audioPerMinute !== undefined && usage.audioSeconds !== null) {
+    cost += (usage.audioSeconds / 60) * price.audioPerMinute;
+    priced = true;
+  }
+  if (price.inputPerMillion !== undefined && usage.inputTokens !== null) {
+    cost += (usage.inputTokens / 1_000_000) * price.inputPerMillion;
+    priced = true;
+  }
+  if (price.outputPerMillion !== undefined && usage.outputTokens !== null) {
+    cost += (usage.outputTokens / 1_000_000) * price.outputPerMillion;
+    priced = true;
+  }
+  // numeric(10,6) in ai_usage_events.
+  return priced ? Math.round(cost * 1_000_000) / 1_000_000 : null;
+}
+
+function lookupModelPrice(model: string): ModelPrice | null {
+  const normalized = model.trim().toLowerCase();
+  return MODEL_PRICES_USD[normalized]
+    ?? MODEL_PRICES_USD[normalized.replace(/-\d{4}-\d{2}-\d{2}$/, "")]
+    ?? null;
+}
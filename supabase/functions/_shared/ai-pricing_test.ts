@@ -0,0 +1,27 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { emptyUsage, estimateCostUSD } from "./ai-pricing.ts";
+
+Deno.test("token models are priced per million input and output tokens", () => {
+  assertEquals(
+    estimateCostUSD("openai", "gpt-4o-mini", { inputTokens: 1_000, outputTokens: 200, audioSeconds: null }),
+    0.00027,
+  );
+  // Dated snapshots use their base model's price.
+  assertEquals(
+    estimateCostUSD("openai", "gpt-4o-mini-2024-07-18", { inputTokens: 1_000, outputTokens: 200, audioSeconds: null }),
+    0.00027,
+  );
+});
+
+Deno.test("audio models are priced per minute", () => {
+  assertEquals(estimateCostUSD("openai", "whisper-1", { ...emptyUsage(), audioSeconds: 30 }), 0.003);
+  assertEquals(estimateCostUSD("openai", "Whisper-1", { ...emptyUsage(), audioSeconds: 12.5 }), 0.00125);
+});
+
+Deno.test("local providers are free, unknown spend stays unknown", () => {
+  assertEquals(estimateCostUSD("stub", "stub-v1", emptyUsage()), 0);
+  assertEquals(estimateCostUSD("deterministic", "rules-v1", emptyUsage()), 0);
+  assertEquals(estimateCostUSD("ollama", "llama3.1", { inputTokens: 500, outputTokens: 50, audioSeconds: null }), null);
+  // A known model with no usage reported is not free either.
+  assertEquals(estimateCostUSD("openai", "gpt-4o-mini", emptyUsage()), null);
+});
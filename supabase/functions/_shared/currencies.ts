@@ -0,0 +1,208 @@
+export type CurrencyEntry = {
+  code: string;
+  symbols: string[];
+  // Spoken/written names in English and Spanish, lowercase. Longer phrases win over shorter ones.
+  names: string[];
+};
+
+export type CurrencyPreferences = {
+  tripCurrency?: string | null;
+  hintCurrency?: string | null;
+  profileCurrency?: string | null;
+};
+
+export type CurrencyMention = {
+  code: string;
+  token: string;
+  index: number;
+  // True when the token ("$", "pesos", "dollars") could mean several currencies and was resolved from preferences.
+  ambiguous: boolean;
+};
+
+export const CURRENCY_LEXICON: CurrencyEntry[] = [
+  { code: "USD", symbols: ["US$", "USD$", "U$S"], names: ["us dollars", "us dollar", "american dollars", "dólares americanos", "dolares americanos", "dólares estadounidenses", "dolares estadounidenses", "greenbacks"] },
+  { code: "MXN", symbols: ["MX$", "MXN$", "Mex$"], names: ["mexican pesos", "mexican peso", "pesos mexicanos", "peso mexicano", "varos", "baros"] },
+  { code: "EUR", symbols: ["€"], names: ["euros", "euro"] },
+  { code: "GBP", symbols: ["£"], names: ["pounds sterling", "british pounds", "libras esterlinas", "pounds", "pound", "libras", "libra", "quid"] },
+  { code: "JPY", symbols: ["¥", "円"], names: ["japanese yen", "yenes", "yen"] },
+  { code: "CNY", symbols: ["CN¥", "元"], names: ["yuanes", "yuan", "renminbi", "rmb"] },
+  { code: "CAD", symbols: ["CA$", "C$", "CAD$"], names: ["canadian dollars", "canadian dollar", "dólares canadienses", "dolares canadienses"] },
+  { code: "AUD", symbols: ["AU$", "A$", "AUD$"], names: ["australian dollars", "australian dollar", "dólares australianos", "dolares australianos"] },
+  { code: "NZD", symbols: ["NZ$"], names: ["new zealand dollars", "dólares neozelandeses", "dolares neozelandeses"] },
+  { code: "CHF", symbols: [], names: ["swiss francs", "swiss franc", "francos suizos", "franco suizo", "francs", "francos"] },
+  { code: "BRL", symbols: ["R$"], names: ["brazilian reais", "brazilian real", "reales brasileños", "reales", "reais"] },
+  { code: "ARS", symbols: ["AR$"], names: ["argentine pesos", "argentinian pesos", "pesos argentinos", "peso argentino"] },
+  { code: "CLP", symbols: ["CLP$"], names: ["chilean pesos", "pesos chilenos", "peso chileno"] },
+  { code: "COP", symbols: ["COL$"], names: ["colombian pesos", "pesos colombianos", "peso colombiano"] },
+  { code: "PEN", symbols: ["S/.", "S/"], names: ["peruvian soles", "soles peruanos", "nuevos soles", "soles"] },
+  { code: "UYU", symbols: ["$U"], names: ["uruguayan pesos", "pesos uruguayos", "peso uruguayo"] },
+  { code: "PYG", symbols: ["₲"], names: ["guaraníes", "guaranies", "guaraní", "guarani"] },
+  { code: "BOB", symbols: ["Bs."], names: ["bolivianos"] },
+  { code: "VES", symbols: [], names: ["bolívares", "bolivares", "bolívar", "bolivar"] },
+  { code: "CRC", symbols: ["₡"], names: ["colones", "colón costarricense", "colon costarricense"] },
+  { code: "GTQ", symbols: [], names: ["quetzales", "quetzal"] },
+  { code: "HNL", symbols: [], names: ["lempiras", "lempira"] },
+  { code: "NIO", symbols: [], names: ["córdobas", "cordobas"] },
+  { code: "PAB", symbols: ["B/."], names: ["balboas", "balboa"] },
+  { code: "DOP", symbols: ["RD$"], names: ["dominican pesos", "pesos dominicanos", "peso dominicano"] },
+  { code: "CUP", symbols: [], names: ["cuban pesos", "pesos cubanos", "peso cubano"] },
+  { code: "INR", symbols: ["₹"], names: ["indian rupees", "rupees", "rupee", "rupias", "rupia"] },
+  { code: "KRW", symbols: ["₩"], names: ["korean won", "wones"] },
+  { code: "HKD", symbols: ["HK$"], names: ["hong kong dollars", "dólares de hong kong", "dolares de hong kong"] },
+  { code: "SGD", symbols: ["S$"], names: ["singapore dollars", "dólares de singapur", "dolares de singapur"] },
+  { code: "TWD", symbols: ["NT$"], names: ["taiwan dollars", "new taiwan dollars"] },
+  { code: "THB", symbols: ["฿"], names: ["baht", "bahts"] },
+  { code: "PHP", symbols: ["₱"], names: ["philippine pesos", "pesos filipinos"] },
+  { code: "IDR", symbols: ["Rp"], names: ["rupiah", "rupiahs"] },
+  { code: "MYR", symbols: ["RM"], names: ["ringgit", "ringgits"] },
+  { code: "VND", symbols: ["₫"], names: ["dong", "dongs"] },
+  { code: "SEK", symbols: [], names: ["swedish kronor", "swedish krona", "coronas suecas"] },
+  { code: "NOK", symbols: [], names: ["norwegian kroner", "norwegian krone", "coronas noruegas"] },
+  { code: "DKK", symbols: [], names: ["danish kroner", "danish krone", "coronas danesas"] },
+  { code: "ISK", symbols: [], names: ["icelandic kronur", "coronas islandesas"] },
+  { code: "PLN", symbols: ["zł"], names: ["zloty", "zlotys", "zlotych", "esloti", "eslotis"] },
+  { code: "CZK", symbols: ["Kč"], names: ["czech koruna", "czech crowns", "coronas checas"] },
+  { code: "HUF", symbols: ["Ft"], names: ["forints", "forint", "florines"] },
+  { code: "RON", symbols: [], names: ["romanian lei", "lei"] },
+  { code: "TRY", symbols: ["₺"], names: ["turkish lira", "turkish liras", "liras turcas", "lira turca"] },
+  { code: "RUB", symbols: ["₽"], names: ["rubles", "ruble", "roubles", "rublos", "rublo"] },
+  { code: "UAH", symbols: ["₴"], names: ["hryvnia", "hryvnias", "grivnas"] },
+  { code: "ILS", symbols: ["₪"], names: ["shekels", "shekel", "séqueles", "sequeles"] },
+  { code: "AED", symbols: [], names: ["dirhams", "dirham"] },
+  { code: "SAR", symbols: [], names: ["riyals", "riyal", "riales saudíes", "riales sauditas"] },
+  { code: "EGP", symbols: ["E£"], names: ["egyptian pounds", "libras egipcias"] },
+  { code: "MAD", symbols: [], names: ["moroccan dirhams", "dirhams marroquíes"] },
+  { code: "ZAR", symbols: [], names: ["rand", "rands"] },
+  { code: "NGN", symbols: ["₦"], names: ["naira", "nairas"] },
+  { code: "KES", symbols: [], names: ["kenyan shillings", "chelines kenianos"] },
+];
+
+// Codes that are also common English words; they only count as currencies when written in uppercase.
+const WORD_LIKE_CODES = new Set(["TRY", "PEN", "CUP", "BOB", "MAD", "SAR", "RON", "VES"]);
+
+// Terms shared by several currencies. The first preference that belongs to the group wins, else the fallback.
+const AMBIGUOUS_TERMS: Array<{ terms: string[]; codes: string[]; fallback: string; isSymbol: boolean }> = [
+  {
+    terms: ["$"],
+    codes: ["USD", "MXN", "CAD", "AUD", "NZD", "ARS", "CLP", "COP", "UYU", "DOP", "CUP", "HKD", "SGD", "TWD"],
+    fallback: "USD",
+    isSymbol: true,
+  },
+  {
+    terms: ["dollars", "dollar", "dólares", "dolares", "dólar", "dolar", "bucks", "buck", "dlls", "dls"],
+    codes: ["USD", "CAD", "AUD", "NZD", "HKD", "SGD", "TWD"],
+    fallback: "USD",
+    isSymbol: false,
+  },
+  {
+    terms: ["pesos", "peso"],
+    codes: ["MXN", "ARS", "CLP", "COP", "UYU", "DOP", "CUP", "PHP"],
+    fallback: "MXN",
+    isSymbol: false,
+  },
+  {
+    terms: ["kronor", "kroner", "krona", "krone", "kr"],
+    codes: ["SEK", "NOK", "DKK", "ISK"],
+    fallback: "SEK",
+    isSymbol: false,
+  },
+];
+
+export const CURRENCY_CODES: ReadonlySet<string> = new Set(CURRENCY_LEXICON.map((entry) => entry.code));
+
+type LexiconTerm = {
+  term: string;
+  kind: "code" | "symbol" | "name";
+  code: string | null;
+  ambiguousGroup: (typeof AMBIGUOUS_TERMS)[number] | null;
+};
+
+const LEXICON_TERMS: LexiconTerm[] = [
+  ...CURRENCY_LEXICON.flatMap((entry): LexiconTerm[] => [
+    { term: entry.code, kind: "code", code: entry.code, ambiguousGroup: null },
+    ...entry.symbols.map((symbol): LexiconTerm => ({ term: symbol, kind: "symbol", code: entry.code, ambiguousGroup: null })),
+    ...entry.names.map((name): LexiconTerm => ({ term: name, kind: "name", code: entry.code, ambiguousGroup: null })),
+  ]),
+  ...AMBIGUOUS_TERMS.flatMap((group) =>
+    group.terms.map((term): LexiconTerm => ({
+      term,
+      kind: group.isSymbol ? "symbol" : "name",
+      code: null,
+      ambiguousGroup: group,
+    }))
+  ),
+].sort((a, b) => b.term.length - a.term.length);
+
+const TERM_BY_KEY = new Map<string, LexiconTerm>(
+  LEXICON_TERMS.map((entry) => [entry.kind === "symbol" ? entry.term : entry.term.toLowerCase(), entry]),
+);
+
+function termPattern(entry: LexiconTerm): string {
+  const escaped = entry.term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/ /g, "\\s+");
+  // Letter edges ("R$", "Rp", "$U", names, codes) need word boundaries; "$" and "€" can touch the digits.
+  const leading = /^\p{L}/u.test(entry.term) ? "(?<![\\p{L}])" : "";
+  const trailing = /\p{L}$/u.test(entry.term) ? "(?![\\p{L}])" : "";
+  return `${leading}${escaped}${trailing}`;
+}
+
+function lookupTerm(token: string): LexiconTerm | null {
+  const entry = TERM_BY_KEY.get(token) ?? TERM_BY_KEY.get(token.toLowerCase().replace(/\s+/g, " "));
+  if (!entry) return null;
+  // Symbols are case-sensitive ("Ft" is forint, "ft" is feet); word-like codes only count in uppercase.
+  if (entry.kind === "symbol" && token !== entry.term) return null;
+  if (entry.kind === "code" && token !== token.toUpperCase() && WORD_LIKE_CODES.has(entry.term)) return null;
+  return entry;
+}
+
+const CURRENCY_TERM_REGEX = new RegExp(LEXICON_TERMS.map(termPattern).join("|"), "giu");
+
+export function isKnownCurrencyCode(value: string | null | undefined): boolean {
+  return CURRENCY_CODES.has((value ?? "").trim().toUpperCase());
+}
+
+export function normalizeCurrencyCode(value: string | null | undefined): string | null {
+  const normalized = (value ?? "").trim().toUpperCase();
+  return CURRENCY_CODES.has(normalized) ? normalized : null;
+}
+
+export function findCurrencyMentions(text: string, prefs: CurrencyPreferences = {}): CurrencyMention[] {
+  const mentions: CurrencyMention[] = [];
+  for (const match of text.matchAll(CURRENCY_TERM_REGEX)) {
+    const token = match[0];
+    const index = match.index ?? 0;
+    const entry = lookupTerm(token);
+    if (!entry) continue;
+    if (entry.code) {
+      mentions.push({ code: entry.code, token, index, ambiguous: false });
+    } else if (entry.ambiguousGroup) {
+      mentions.push({ code: resolveAmbiguousCurrency(entry.ambiguousGroup, prefs), token, index, ambiguous: true });
+    }
+  }
+  return mentions;
+}
+
+export function containsCurrencyTerm(text: string): boolean {
+  return findCurrencyMentions(text).length > 0;
+}
+
+export function stripCurrencyTerms(text: string, replacement = " "): string {
+  return text.replace(CURRENCY_TERM_REGEX, (token) => lookupTerm(token) ? replacement : token);
+}
+
+// What a bare "$" means for this user: the trip currency abroad, otherwise their own currency.
+export function dollarSignCurrency(prefs: CurrencyPreferences): string {
+  return resolveAmbiguousCurrency(AMBIGUOUS_TERMS[0], prefs);
+}
+
+// What bare "pesos" means for this user.
+export function pesoCurrency(prefs: CurrencyPreferences): string {
+  return resolveAmbiguousCurrency(AMBIGUOUS_TERMS[2], prefs);
+}
+
+function resolveAmbiguousCurrency(group: (typeof AMBIGUOUS_TERMS)[number], prefs: CurrencyPreferences): string {
+  for (const candidate of [prefs.tripCurrency, prefs.hintCurrency, prefs.profileCurrency]) {
+    const code = normalizeCurrencyCode(candidate);
+    if (code && group.codes.includes(code)) return code;
+  }
+  return group.fallback;
+}
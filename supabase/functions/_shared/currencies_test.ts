@@ -0,0 +1,55 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import {
+  containsCurrencyTerm,
+  dollarSignCurrency,
+  findCurrencyMentions,
+  isKnownCurrencyCode,
+  normalizeCurrencyCode,
+  pesoCurrency,
+  stripCurrencyTerms,
+} from "./currencies.ts";
+
+function codes(text: string, prefs = {}) {
+  return findCurrencyMentions(text, prefs).map((mention) => [mention.token, mention.code]);
+}
+
+Deno.test("codes, symbols and EN/ES names resolve to ISO 4217", () => {
+  assertEquals(codes("20 EUR"), [["EUR", "EUR"]]);
+  assertEquals(codes("€20"), [["€", "EUR"]]);
+  assertEquals(codes("MX$200"), [["MX$", "MXN"]]);
+  assertEquals(codes("300 pesos mexicanos"), [["pesos mexicanos", "MXN"]]);
+  assertEquals(codes("50 US dollars"), [["US dollars", "USD"]]);
+  assertEquals(codes("1000 naira"), [["naira", "NGN"]]);
+});
+
+Deno.test("$, dollars and pesos follow the trip, then the hint, then the profile", () => {
+  assertEquals(codes("$200"), [["$", "USD"]]);
+  assertEquals(codes("$200", { profileCurrency: "MXN" }), [["$", "MXN"]]);
+  assertEquals(codes("$200", { tripCurrency: "CAD", profileCurrency: "MXN" }), [["$", "CAD"]]);
+  // A trip in euros says nothing about "$", so the profile still decides.
+  assertEquals(codes("$200", { tripCurrency: "EUR", profileCurrency: "MXN" }), [["$", "MXN"]]);
+  assertEquals(codes("200 pesos", { hintCurrency: "COP" }), [["pesos", "COP"]]);
+  assertEquals(codes("20 bucks", { profileCurrency: "MXN" }), [["bucks", "USD"]]);
+  assertEquals(dollarSignCurrency({ profileCurrency: "ARS" }), "ARS");
+  assertEquals(pesoCurrency({}), "MXN");
+  assertEquals(findCurrencyMentions("$200", { profileCurrency: "MXN" })[0].ambiguous, true);
+});
+
+Deno.test("word-like codes count only in uppercase, symbols only in their own case", () => {
+  assertEquals(codes("bought a pen for 3"), []);
+  assertEquals(codes("30 PEN"), [["PEN", "PEN"]]);
+  assertEquals(codes("it was 20 ft long"), []);
+});
+
+Deno.test("names need word boundaries", () => {
+  assertEquals(containsCurrencyTerm("europe trip"), false);
+  assertEquals(containsCurrencyTerm("tacos 200 varos"), true);
+  assertEquals(stripCurrencyTerms("tacos 200 pesos en efectivo").replace(/\s+/g, " "), "tacos 200 en efectivo");
+});
+
+Deno.test("normalizeCurrencyCode accepts only known codes", () => {
+  assertEquals(normalizeCurrencyCode(" mxn "), "MXN");
+  assertEquals(normalizeCurrencyCode("ZZZ"), null);
+  assertEquals(normalizeCurrencyCode(null), null);
+  assertEquals(isKnownCurrencyCode("jpy"), true);
+});
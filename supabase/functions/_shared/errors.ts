@@ -0,0 +1,305 @@
+import type { ApiErrorCode } from "./types.ts";
+
+export type MessageLanguage = "en" | "es";
+
+type MessageParams = Record<string, string | number>;
+
+type CatalogEntry = {
+  code: ApiErrorCode;
+  // `{name}` placeholders are filled from the error's params; `{detail}` is the underlying (English) cause.
+  en: string;
+  es: string;
+};
+
+// Every client-facing error message. Keys are internal and may be split or renamed; codes are the contract.
+const MESSAGES = {
+  missing_env: {
+    code: "config_missing",
+    en: "Missing Supabase env vars",
+    es: "El servidor no está configurado correctamente.",
+  },
+  method_not_allowed: {
+    code: "method_not_allowed",
+    en: "Method not allowed",
+    es: "Método no permitido.",
+  },
+  unauthorized: {
+    code: "auth_missing",
+    en: "Unauthorized",
+    es: "Inicia sesión para continuar.",
+  },
+  auth_rejected: {
+    code: "auth_invalid",
+    en: "{detail}",
+    es: "Tu sesión expiró o no es válida. Vuelve a iniciar sesión.",
+  },
+  invalid_json: {
+    code: "validation_failed",
+    en: "Request body must be JSON",
+    es: "El cuerpo de la solicitud debe ser JSON.",
+  },
+  field_required: {
+    code: "validation_failed",
+    en: "{field} is required",
+    es: "{field} es obligatorio.",
+  },
+  field_required_when: {
+    code: "validation_failed",
+    en: "{field} is required when {other} is {value}",
+    es: "{field} es obligatorio cuando {other} es {value}.",
+  },
+  fields_any_of: {
+    code: "validation_failed",
+    en: "One of {fields} is required",
+    es: "Falta uno de estos campos: {fields}.",
+  },
+  field_wrong_type: {
+    code: "validation_failed",
+    en: "{field} must be a {type}",
+    es: "{field} debe ser de tipo {type}.",
+  },
+  field_not_integer: {
+    code: "validation_failed",
+    en: "{field} must be an integer",
+    es: "{field} debe ser un número entero.",
+  },
+  field_not_positive: {
+    code: "validation_failed",
+    en: "{field} must be a positive number",
+    es: "{field} debe ser un número positivo.",
+  },
+  field_not_currency: {
+    code: "validation_failed",
+    en: "{field} must be an ISO 4217 code",
+    es: "{field} debe ser un código ISO 4217.",
+  },
+  field_out_of_range: {
+    code: "validation_failed",
+    en: "{field} must be from {min} to {max}",
+    es: "{field} debe estar entre {min} y {max}.",
+  },
+  field_below_min: {
+    code: "validation_failed",
+    en: "{field} must be at least {min}",
+    es: "{field} debe ser como mínimo {min}.",
+  },
+  field_above_max: {
+    code: "validation_failed",
+    en: "{field} must be at most {max}",
+    es: "{field} debe ser como máximo {max}.",
+  },
+  field_not_uuid: {
+    code: "validation_failed",
+    en: "{field} must be a UUID",
+    es: "{field} debe ser un UUID.",
+  },
+  field_not_datetime: {
+    code: "validation_failed",
+    en: "{field} must be an ISO-8601 date-time with a UTC offset",
+    es: "{field} debe ser una fecha y hora ISO-8601 con zona horaria.",
+  },
+  field_not_date: {
+    code: "validation_failed",
+    en: "{field} must be a date (YYYY-MM-DD)",
+    es: "{field} debe ser una fecha (AAAA-MM-DD).",
+  },
+  field_not_month: {
+    code: "validation_failed",
+    en: "{field} must be a month (YYYY-MM)",
+    es: "{field} debe ser un mes (AAAA-MM).",
+  },
+  field_not_allowed: {
+    code: "validation_failed",
+    en: "{field} must be one of {allowed}",
+    es: "{field} debe ser uno de estos valores: {allowed}.",
+  },
+  field_pair_incomplete: {
+    code: "validation_failed",
+    en: "{field} and {other} must be sent together",
+    es: "{field} y {other} deben enviarse juntos.",
+  },
+  storage_bucket_mismatch: {
+    code: "validation_failed",
+    en: "storage_bucket must be {expected}",
+    es: "storage_bucket debe ser {expected}.",
+  },
+  batch_empty: {
+    code: "validation_failed",
+    en: "items must not be empty",
+    es: "items no puede estar vacío.",
+  },
+  batch_too_large: {
+    code: "validation_failed",
+    en: "items exceeds {max} per batch",
+    es: "items admite como máximo {max} capturas por lote.",
+  },
+  batch_item_invalid: {
+    code: "validation_failed",
+    en: "Invalid batch item",
+    es: "Elemento del lote no válido.",
+  },
+  batch_duplicate_id: {
+    code: "validation_failed",
+    en: "Duplicate client_expense_id in batch",
+    es: "client_expense_id repetido en el lote.",
+  },
+  voice_limit_reached: {
+    code: "quota_exceeded",
+    en: "Daily voice limit reached",
+    es: "Alcanzaste el límite diario de notas de voz.",
+  },
+  voice_rate_limited: {
+    code: "rate_limited",
+    en: "Too many voice captures in a minute. Wait a moment and retry.",
+    es: "Demasiadas notas de voz en un minuto. Espera un momento e inténtalo de nuevo.",
+  },
+  photo_limit_reached: {
+    code: "quota_exceeded",
+    en: "Daily receipt photo limit reached",
+    es: "Alcanzaste el límite diario de fotos de recibos.",
+  },
+  photo_rate_limited: {
+    code: "rate_limited",
+    en: "Too many receipt photos in a minute. Wait a moment and retry.",
+    es: "Demasiadas fotos de recibos en un minuto. Espera un momento e inténtalo de nuevo.",
+  },
+  voice_bucket_invalid: {
+    code: "storage_path_invalid",
+    en: "Invalid voice storage bucket.",
+    es: "El bucket de la nota de voz no es válido.",
+  },
+  voice_path_invalid: {
+    code: "storage_path_invalid",
+    en: "Invalid voice storage object path.",
+    es: "La ruta de la nota de voz no es válida.",
+  },
+  receipt_bucket_invalid: {
+    code: "storage_path_invalid",
+    en: "Invalid receipt storage bucket.",
+    es: "El bucket de la foto del recibo no es válido.",
+  },
+  receipt_path_invalid: {
+    code: "storage_path_invalid",
+    en: "Invalid receipt storage object path.",
+    es: "La ruta de la foto del recibo no es válida.",
+  },
+  voice_upload_unreadable: {
+    code: "storage_unreadable",
+    en: "Voice upload could not be read from storage. Please retry.",
+    es: "No pudimos leer la nota de voz subida. Inténtalo de nuevo.",
+  },
+  receipt_upload_unreadable: {
+    code: "storage_unreadable",
+    en: "Receipt photo could not be read from storage. Please retry.",
+    es: "No pudimos leer la foto del recibo subida. Inténtalo de nuevo.",
+  },
+  transcription_unavailable: {
+    code: "transcription_unavailable",
+    en: "{detail}",
+    es: "La transcripción de voz no está disponible en este momento. Usa texto o inténtalo más tarde.",
+  },
+  transcription_http_failed: {
+    code: "transcription_failed",
+    en: "Voice transcription failed ({status}).",
+    es: "La transcripción de voz falló ({status}). Inténtalo de nuevo.",
+  },
+  transcription_crashed: {
+    code: "transcription_failed",
+    en: "Voice transcription crashed while processing audio. Please retry.",
+    es: "La transcripción de voz falló al procesar el audio. Inténtalo de nuevo.",
+  },
+  transcription_empty: {
+    code: "transcription_empty",
+    en: "Voice transcription returned empty text. Try speaking a bit louder/closer.",
+    es: "No se entendió la nota de voz. Intenta hablar más fuerte o más cerca.",
+  },
+  voice_placeholder: {
+    code: "transcription_failed",
+    en: "Voice transcription failed. Try holding longer and speaking clearly, or switch to Text.",
+    es: "La transcripción de voz falló. Mantén pulsado más tiempo y habla con claridad, o cambia a Texto.",
+  },
+  receipt_unavailable: {
+    code: "receipt_unavailable",
+    en: "{detail}",
+    es: "La lectura de recibos no está disponible en este momento. Inténtalo más tarde.",
+  },
+  receipt_http_failed: {
+    code: "receipt_failed",
+    en: "Receipt reading failed ({status}).",
+    es: "La lectura del recibo falló ({status}). Inténtalo de nuevo.",
+  },
+  receipt_crashed: {
+    code: "receipt_failed",
+    en: "Receipt reading crashed while processing the photo. Please retry.",
+    es: "La lectura del recibo falló al procesar la foto. Inténtalo de nuevo.",
+  },
+  receipt_total_unreadable: {
+    code: "receipt_unreadable",
+    en: "Receipt total could not be read. Try a clearer, flatter photo.",
+    es: "No se pudo leer el total del recibo. Prueba con una foto más nítida y plana.",
+  },
+  receipt_unresolved: {
+    code: "receipt_unreadable",
+    en: "Receipt could not be read. Try a clearer photo.",
+    es: "No se pudo leer el recibo. Prueba con una foto más nítida.",
+  },
+  text_unresolved: {
+    code: "text_unresolved",
+    en: "Could not resolve transcript text from request",
+    es: "La solicitud no incluye texto para interpretar.",
+  },
+  save_failed: {
+    code: "save_failed",
+    en: "{detail}",
+    es: "No se pudo guardar el gasto. Inténtalo de nuevo.",
+  },
+  deletion_failed: {
+    code: "deletion_failed",
+    en: "{detail}",
+    es: "No se pudo eliminar la cuenta. Inténtalo de nuevo.",
+  },
+  account_pending_deletion: {
+    code: "account_pending_deletion",
+    en: "Account is scheduled for deletion; restore it to continue",
+    es: "Tu cuenta está programada para eliminarse. Restáurala para continuar.",
+  },
+  deletion_not_pending: {
+    code: "deletion_not_pending",
+    en: "No pending deletion to restore",
+    es: "No hay ninguna eliminación pendiente que restaurar.",
+  },
+  internal_error: {
+    code: "internal_error",
+    en: "{detail}",
+    es: "Ocurrió un error inesperado. Inténtalo de nuevo.",
+  },
+} satisfies Record<string, CatalogEntry>;
+
+export type ErrorMessageKey = keyof typeof MESSAGES;
+
+// An error as it travels through a function, before the response language is known.
+export type ErrorDescriptor = {
+  key: ErrorMessageKey;
+  params?: MessageParams;
+  field?: string;
+};
+
+export type LocalizedError = {
+  error: string;
+  error_code: ApiErrorCode;
+  field?: string;
+};
+
+export function normalizeMessageLanguage(value: unknown): MessageLanguage {
+  return value === "es" ? "es" : "en";
+}
+
+export function localizeError(descriptor: ErrorDescriptor, language: MessageLanguage): LocalizedError {
+  const entry: CatalogEntry = MESSAGES[descriptor.key];
+  const params: MessageParams = { field: descriptor.field ?? "", ...descriptor.params };
+  const error = entry[language].replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    return value === undefined ? placeholder : String(value);
+  });
+  return descriptor.field ? { error, error_code: entry.code, field: descriptor.field } : { error, error_code: entry.code };
+}
@@ -0,0 +1,32 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { localizeError, normalizeMessageLanguage } from "./errors.ts";
+
+Deno.test("messages are filled from params and the field, in the requested language", () => {
+  assertEquals(localizeError({ key: "field_required", field: "client_expense_id" }, "en"), {
+    error: "client_expense_id is required",
+    error_code: "validation_failed",
+    field: "client_expense_id",
+  });
+  assertEquals(localizeError({ key: "batch_too_large", field: "items", params: { max: 50 } }, "es"), {
+    error: "items admite como máximo 50 capturas por lote.",
+    error_code: "validation_failed",
+    field: "items",
+  });
+});
+
+Deno.test("English keeps the underlying detail; Spanish replaces it with a generic message", () => {
+  const descriptor = { key: "save_failed", params: { detail: "duplicate key value" } } as const;
+  assertEquals(localizeError(descriptor, "en"), { error: "duplicate key value", error_code: "save_failed" });
+  assertEquals(localizeError(descriptor, "es"), {
+    error: "No se pudo guardar el gasto. Inténtalo de nuevo.",
+    error_code: "save_failed",
+  });
+});
+
+Deno.test("unknown placeholders are left as written", () => {
+  assertEquals(localizeError({ key: "storage_bucket_mismatch", field: "storage_bucket" }, "en").error, "storage_bucket must be {expected}");
+});
+
+Deno.test("only es selects Spanish", () => {
+  assertEquals(["es", "en", "ES", "fr", undefined, 1].map(normalizeMessageLanguage), ["es", "en", "en", "en", "en", "en"]);
+});
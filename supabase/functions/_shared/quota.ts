@@ -0,0 +1,77 @@
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type QuotaKind = "voice" | "text" | "photo";
+
+export type PlanRow = {
+  id: string;
+  daily_voice_limit: number;
+  per_minute_voice_limit: number;
+  daily_text_limit: number;
+  per_minute_text_limit: number;
+  daily_photo_limit: number;
+  per_minute_photo_limit: number;
+};
+
+export type PlanLimits = {
+  planID: string;
+  daily: Record<QuotaKind, number>;
+  perMinute: Record<QuotaKind, number>;
+};
+
+const PLAN_COLUMNS =
+  "id, daily_voice_limit, per_minute_voice_limit, daily_text_limit, per_minute_text_limit, daily_photo_limit, per_minute_photo_limit";
+
+// Used when the profile's plan row is missing; matches the seeded free plan.
+export const FALLBACK_PLAN: PlanRow = {
+  id: "free",
+  daily_voice_limit: 50,
+  per_minute_voice_limit: 5,
+  daily_text_limit: 200,
+  per_minute_text_limit: 20,
+  daily_photo_limit: 10,
+  per_minute_photo_limit: 2,
+};
+
+// `dailyVoiceOverride` is profiles.daily_voice_limit, which wins over the plan when set.
+export async function loadPlanLimits(
+  supabase: ReturnType<typeof createClient>,
+  planID: string | null | undefined,
+  dailyVoiceOverride: number | null | undefined,
+): Promise<PlanLimits> {
+  const { data } = await supabase
+    .from("plans")
+    .select(PLAN_COLUMNS)
+    .eq("id", planID ?? FALLBACK_PLAN.id)
+    .maybeSingle();
+  const plan = (data as PlanRow | null) ?? FALLBACK_PLAN;
+  return {
+    planID: plan.id,
+    daily: {
+      voice: dailyVoiceOverride ?? plan.daily_voice_limit,
+      text: plan.daily_text_limit,
+      photo: plan.daily_photo_limit,
+    },
+    perMinute: {
+      voice: plan.per_minute_voice_limit,
+      text: plan.per_minute_text_limit,
+      photo: plan.per_minute_photo_limit,
+    },
+  };
+}
+
+export function resolveTimeZone(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  try {
+    // Throws for invalid or unsupported zone names.
+    new Intl.DateTimeFormat("en-US", { timeZone: trimmed }).format(new Date());
+    return trimmed;
+  } catch {
+    return null;
+  }
+}
+
+// Quota days run midnight to midnight in the profile's timezone, or UTC when it has none.
+export function quotaTimeZone(profileTimezone: string | null | undefined): string {
+  return resolveTimeZone(profileTimezone) ?? "UTC";
+}
@@ -0,0 +1,15 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { quotaTimeZone, resolveTimeZone } from "./quota.ts";
+
+Deno.test("profile timezones are trimmed and unknown zones are dropped", () => {
+  assertEquals(resolveTimeZone(" America/Mexico_City "), "America/Mexico_City");
+  assertEquals(resolveTimeZone("Mars/Olympus_Mons"), null);
+  assertEquals(resolveTimeZone(""), null);
+  assertEquals(resolveTimeZone(null), null);
+});
+
+Deno.test("the quota day falls back to UTC without a usable profile timezone", () => {
+  assertEquals(quotaTimeZone("Europe/Madrid"), "Europe/Madrid");
+  assertEquals(quotaTimeZone("not a zone"), "UTC");
+  assertEquals(quotaTimeZone(undefined), "UTC");
+});
@@ -0,0 +1,50 @@
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Buckets holding a user's captures, always under `${userID}/`.
+export const CAPTURE_BUCKETS = ["voice-captures", "receipt-photos"];
+export const ACCOUNT_EXPORTS_BUCKET = "account-exports";
+
+const LIST_PAGE_SIZE = 1000;
+
+export type StoredObject = {
+  bucket: string;
+  path: string;
+  size: number | null;
+  content_type: string | null;
+};
+
+// Every object under `prefix/`, walking nested folders (the app files voice captures by date:
+// `${userID}/2026/03/02/<client_expense_id>.m4a`). storage.list() returns one level; folders have a null id.
+export async function listStorageObjects(
+  supabase: ReturnType<typeof createClient>,
+  bucket: string,
+  prefix: string,
+): Promise<StoredObject[]> {
+  const objects: StoredObject[] = [];
+  const folders = [prefix.replace(/\/+$/, "")];
+  while (folders.length > 0) {
+    const folder = folders.pop()!;
+    for (let offset = 0;; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await supabase.storage
+        .from(bucket)
+        .list(folder, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: "name", order: "asc" } });
+      if (error) throw new Error(`${bucket}/${folder}: ${error.message}`);
+      for (const entry of data ?? []) {
+        const path = `${folder}/${entry.name}`;
+        if (entry.id === null) {
+          folders.push(path);
+        } else {
+          const metadata = (entry.metadata ?? {}) as { size?: number; mimetype?: string };
+          objects.push({
+            bucket,
+            path,
+            size: typeof metadata.size === "number" ? metadata.size : null,
+            content_type: metadata.mimetype ?? null,
+          });
+        }
+      }
+      if ((data?.length ?? 0) < LIST_PAGE_SIZE) break;
+    }
+  }
+  return objects;
+}
@@ -1,4 +1,29 @@
-export type ExpenseSource = "voice" | "text";
+export type ExpenseSource = "voice" | "text" | "photo";
+
+// Stable, machine-readable reason for an error response. `error` carries the human-readable message, localized
+// from the request's language_hint; clients should branch on this instead of matching that text.
+export type ApiErrorCode =
+  | "config_missing"
+  | "method_not_allowed"
+  | "auth_missing"
+  | "auth_invalid"
+  | "validation_failed"
+  | "quota_exceeded"
+  | "rate_limited"
+  | "storage_path_invalid"
+  | "storage_unreadable"
+  | "transcription_unavailable"
+  | "transcription_failed"
+  | "transcription_empty"
+  | "receipt_unavailable"
+  | "receipt_failed"
+  | "receipt_unreadable"
+  | "text_unresolved"
+  | "save_failed"
+  | "deletion_failed"
+  | "deletion_not_pending"
+  | "account_pending_deletion"
+  | "internal_error";
 
 export type ParseExpenseRequest = {
   client_expense_id: string;
@@ -17,6 +42,85 @@ export type ParseExpenseRequest = {
   trip_name?: string;
   payment_method_id?: string;
   payment_method_name?: string;
+  // What the card billed when it settles in another currency; send both or neither.
+  charged_amount?: number;
+  charged_currency?: string;
+  // Returns parse.explain with a per-field provenance trace.
+  explain?: boolean;
+};
+
+export const MAX_VOICE_SECONDS = 15;
+
+// Declarative request schemas, checked by validateRequestSchema in _shared/validation.ts. Absent means
+// undefined, null or a blank string; every other value must have the declared type.
+export type FieldSchema = {
+  // string[]: a list of strings, each checked against format and enum.
+  type: "string" | "string[]" | "integer" | "number" | "boolean";
+  required?: boolean;
+  // Required only while another field holds one of these values.
+  requiredWhen?: { field: string; in: readonly string[] };
+  // uuid: 8-4-4-4-12 hex; date-time: ISO-8601 with a UTC offset; date: YYYY-MM-DD; month: YYYY-MM;
+  // currency: an ISO 4217 code in the shared lexicon.
+  format?: "uuid" | "date-time" | "date" | "month" | "currency";
+  enum?: readonly string[];
+  // Inclusive bounds for integer and number fields.
+  min?: number;
+  max?: number;
+  // Numbers must be greater than zero.
+  positive?: boolean;
+};
+
+export type RequestSchema<T> = {
+  // Every field of the request, so a new field cannot be added without deciding how to check it.
+  fields: { [K in keyof T]-?: FieldSchema };
+  // Pairs that must be sent together or not at all.
+  together?: ReadonlyArray<readonly [keyof T & string, keyof T & string]>;
+  // At least one field of each group must be present while the condition holds.
+  anyOf?: ReadonlyArray<{ fields: ReadonlyArray<keyof T & string>; when?: { field: keyof T & string; in: readonly string[] } }>;
+};
+
+export type FieldError = {
+  field: string;
+  error_code: ApiErrorCode;
+  error: string;
+};
+
+export const PARSE_EXPENSE_REQUEST_SCHEMA: RequestSchema<ParseExpenseRequest> = {
+  fields: {
+    client_expense_id: { type: "string", required: true, format: "uuid" },
+    source: { type: "string", required: true, enum: ["voice", "text", "photo"] },
+    captured_at_device: { type: "string", required: true, format: "date-time" },
+    timezone: { type: "string" },
+    audio_duration_seconds: {
+      type: "integer",
+      requiredWhen: { field: "source", in: ["voice"] },
+      min: 1,
+      max: MAX_VOICE_SECONDS,
+    },
+    storage_bucket: { type: "string" },
+    storage_object_path: { type: "string", requiredWhen: { field: "source", in: ["photo"] } },
+    raw_text: { type: "string" },
+    currency_hint: { type: "string", format: "currency" },
+    language_hint: { type: "string", enum: ["en", "es"] },
+    allow_auto_save: { type: "boolean" },
+    category_id: { type: "string", format: "uuid" },
+    trip_id: { type: "string", format: "uuid" },
+    trip_name: { type: "string" },
+    payment_method_id: { type: "string", format: "uuid" },
+    payment_method_name: { type: "string" },
+    charged_amount: { type: "number", positive: true },
+    charged_currency: { type: "string", format: "currency" },
+    explain: { type: "boolean" },
+  },
+  together: [["charged_amount", "charged_currency"]],
+  anyOf: [{ fields: ["raw_text", "storage_object_path"], when: { field: "source", in: ["voice"] } }],
+};
+
+// One priced line read from a receipt photo. Amount and quantity are null when the line was unreadable.
+export type ReceiptLineItem = {
+  description: string;
+  quantity: number | null;
+  amount: number | null;
 };
 
 export type ParsedExpense = {
@@ -28,33 +132,475 @@ export type ParsedExpense = {
   expense_date: string; // YYYY-MM-DD
 };
 
-export type ParseExpenseResponse = {
-  status: "saved" | "needs_review" | "rejected_limit" | "error";
-  expense?: {
-    id: string;
-    client_expense_id: string;
-    amount: number;
-    currency: string;
-    category: string;
-    category_id?: string | null;
-    description: string | null;
-    merchant: string | null;
-    expense_date: string;
-    source: ExpenseSource;
-    parse_status: "auto" | "edited" | "failed" | "needs_review";
-    trip_id?: string | null;
-    trip_name?: string | null;
-    payment_method_id?: string | null;
-    payment_method_name?: string | null;
+// How expense_date was chosen: a spoken phrase, the model, or the capture date.
+export type ExpenseDateRule = "capture_date" | "relative_day" | "days_ago" | "weekday" | "absolute_date" | "model";
+
+// Where a saved field's value came from: the rules engine, the AI provider, an explicit request field,
+// the post-validation cleanup that rewrote the parser's output, or the user's merchant registry.
+export type ParseFieldSource = "deterministic" | "ai" | "request" | "post_validation" | "merchant_memory";
+
+export type ParseFieldTrace = {
+  value: string | number | null;
+  source: ParseFieldSource;
+  detail?: string;
+};
+
+export type ParseFieldDisagreement = {
+  field: "amount" | "currency" | "category" | "expense_date" | "merchant";
+  ai: string | number | null;
+  deterministic: string | number | null;
+  kept: "ai" | "deterministic";
+  // Strong disagreements always send the expense to review.
+  severity: "minor" | "strong";
+};
+
+export type ParseExplanation = {
+  source_text: string;
+  provider: string;
+  model: string;
+  fields: {
+    amount: ParseFieldTrace;
+    currency: ParseFieldTrace;
+    category: ParseFieldTrace;
+    description: ParseFieldTrace;
+    merchant: ParseFieldTrace;
+    expense_date: ParseFieldTrace;
+    payment_method: ParseFieldTrace;
   };
+  // Rules-engine amount candidates, best first.
+  amount_candidates: Array<{ token: string; value: number; score: number }>;
+  category_match: {
+    phrase: string;
+    category: string;
+    kind: "hint" | "alias" | "category_name";
+  } | null;
+  disagreements: ParseFieldDisagreement[];
+  post_validation: Array<{
+    field: "description" | "merchant";
+    before: string | null;
+    after: string | null;
+  }>;
+};
+
+export type ParseExpenseSavedExpense = {
+  id: string;
+  client_expense_id: string;
+  amount: number;
+  currency: string;
+  category: string;
+  category_id?: string | null;
+  description: string | null;
+  merchant: string | null;
+  expense_date: string;
+  // "statement" rows are created by reconcile-statement, never by a capture.
+  source: ExpenseSource | "statement";
+  parse_status: "auto" | "edited" | "failed" | "needs_review";
+  trip_id?: string | null;
+  trip_name?: string | null;
+  payment_method_id?: string | null;
+  payment_method_name?: string | null;
+  // Only for photo captures.
+  line_items?: ReceiptLineItem[] | null;
+  charged_amount?: number | null;
+  charged_currency?: string | null;
+  // Filled by the database on save: the amount in the profile default_currency and in the trip base_currency.
+  // Null amounts mean no exchange rate was known for expense_date.
+  home_amount?: number | null;
+  home_currency?: string | null;
+  trip_amount?: number | null;
+  trip_currency?: string | null;
+};
+
+// Today's voice_parse / text_parse / photo_parse counts against the user's plan, in the quota timezone.
+export type ParseUsageSummary = {
+  plan: string;
+  daily_voice_used: number;
+  daily_voice_limit: number;
+  daily_text_used: number;
+  daily_text_limit: number;
+  daily_photo_used: number;
+  daily_photo_limit: number;
+};
+
+export type ParseExpenseResponse = {
+  status: "saved" | "needs_review" | "already_synced" | "rejected_limit" | "error";
+  expense?: ParseExpenseSavedExpense;
+  // Every expense extracted from the capture, in utterance order. `expense` is always the first entry.
+  expenses?: ParseExpenseSavedExpense[];
   parse?: {
     confidence: number;
     raw_text: string;
     needs_review: boolean;
+    date_resolution?: {
+      phrase: string | null;
+      rule: ExpenseDateRule;
+      rejected_future_date: boolean;
+    };
+    // Present for voice captures that were transcribed server-side.
+    transcription?: {
+      provider: string;
+      model: string;
+      language: string | null;
+      confidence: number | null;
+    };
+    // Expenses attached to an active trip the request did not name; clearing trip_id on the expense undoes it.
+    inferred_trips?: Array<{
+      client_expense_id: string;
+      trip_id: string;
+      trip_name: string;
+      // No currency was stated, so the trip's base_currency was used.
+      currency_from_trip: boolean;
+    }>;
+    // Present for photo captures read by the vision provider.
+    receipt?: {
+      provider: string;
+      model: string;
+    };
+    // One entry per expense, in the same order as `expenses`; only when the request set `explain`.
+    explain?: ParseExplanation[];
+    // Set when the plan's text limit was reached, so only the rules engine parsed this capture.
+    text_limit?: "daily" | "minute";
   };
-  usage?: {
-    daily_voice_used: number;
-    daily_voice_limit: number;
+  // With `already_synced`: the rows the user edited since sync, which this capture left untouched.
+  skipped_client_expense_ids?: string[];
+  usage?: ParseUsageSummary;
+  error?: string;
+  error_code?: ApiErrorCode;
+  // Request field that failed validation, when the error is about one field.
+  field?: string;
+  // Every failed field when the request failed schema validation; `error` and `field` repeat the first one.
+  errors?: FieldError[];
+};
+
+// Same endpoint as a single capture; used by the offline queue to drain many captures in one call.
+export type ParseExpenseBatchRequest = {
+  items: ParseExpenseRequest[];
+  // Language for batch-level errors; each item's own language_hint covers its result.
+  language_hint?: "en" | "es";
+};
+
+export type ParseExpenseBatchItemResult = ParseExpenseResponse & {
+  // The status code this item would have returned as a single request.
+  http_status: number;
+};
+
+export type ParseExpenseBatchResponse = {
+  status: "completed" | "error";
+  // Keyed by client_expense_id; items without a usable id are keyed as "items[<index>]".
+  results?: Record<string, ParseExpenseBatchItemResult>;
+  usage?: ParseUsageSummary;
+  error?: string;
+  error_code?: ApiErrorCode;
+  field?: string;
+};
+
+export type ExpenseCorrectionRequest = {
+  expense_id: string;
+  // Edited values; omitted fields keep what the parser saved. `null` clears the optional ones.
+  amount?: number;
+  currency?: string;
+  category_id?: string;
+  description?: string | null;
+  merchant?: string | null;
+  expense_date?: string; // YYYY-MM-DD
+  payment_method_id?: string | null;
+  // Send both or neither; `null` for both clears the charge.
+  charged_amount?: number | null;
+  charged_currency?: string | null;
+};
+
+export const EXPENSE_CORRECTION_REQUEST_SCHEMA: RequestSchema<ExpenseCorrectionRequest> = {
+  fields: {
+    expense_id: { type: "string", required: true },
+    amount: { type: "number", positive: true },
+    currency: { type: "string", format: "currency" },
+    category_id: { type: "string" },
+    description: { type: "string" },
+    merchant: { type: "string" },
+    expense_date: { type: "string", format: "date" },
+    payment_method_id: { type: "string" },
+    charged_amount: { type: "number", positive: true },
+    charged_currency: { type: "string", format: "currency" },
+  },
+  together: [["charged_amount", "charged_currency"]],
+};
+
+export type ExpenseCorrectionResponse = {
+  status: "saved" | "error";
+  expense?: ParseExpenseSavedExpense;
+  // Phrases written to category_hints / payment_method_aliases so the next parse gets it right.
+  learned?: {
+    category_hints: string[];
+    payment_method_aliases: string[];
   };
   error?: string;
+  errors?: FieldError[];
+};
+
+// One rate: units of quote_currency per one base_currency on rate_date.
+export type FxRateInput = {
+  rate_date: string; // YYYY-MM-DD
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+};
+
+export type FxRateImportResponse = {
+  status: "saved" | "error";
+  imported?: number;
+  // Rows that were not imported, by 1-based row (CSV line or JSON entry).
+  skipped?: Array<{ row: number; reason: string }>;
+  // Expenses whose converted amounts were recomputed with the new rates.
+  recomputed_expenses?: number;
+  error?: string;
+};
+
+// Same filters as the Insights tab. Omitted filters cover every trip / payment method / month.
+export type ExpenseInsightsRequest = {
+  trip_id?: string | null;
+  payment_method_id?: string | null;
+  // Defaults to the profile default_currency; only expenses in this currency are counted.
+  currency?: string;
+  month?: string | null; // YYYY-MM
+  // Year of the monthly trend; defaults to the current year in the profile timezone.
+  trend_year?: number;
+};
+
+export const EXPENSE_INSIGHTS_REQUEST_SCHEMA: RequestSchema<ExpenseInsightsRequest> = {
+  fields: {
+    trip_id: { type: "string", format: "uuid" },
+    payment_method_id: { type: "string", format: "uuid" },
+    currency: { type: "string", format: "currency" },
+    month: { type: "string", format: "month" },
+    trend_year: { type: "integer", min: 2000, max: 2100 },
+  },
+};
+
+export type ExpenseInsightsCategoryTotal = {
+  category: string;
+  amount: number;
+  entries: number;
+  share: number | null; // Of the KPI total, 0-1.
+};
+
+export type ExpenseInsightsResponse = {
+  status: "ok" | "error";
+  filters?: {
+    trip_id: string | null;
+    payment_method_id: string | null;
+    currency: string;
+    month: string | null;
+    trend_year: number;
+  };
+  kpis?: {
+    total: number;
+    entries: number;
+    // Total per calendar day of the month, or of the first-to-last expense span when no month is selected.
+    daily_average: number;
+    top_category: string | null;
+  };
+  // Largest first; ties by category name.
+  category_mix?: ExpenseInsightsCategoryTotal[];
+  monthly_trend?: {
+    year: number;
+    // Legend order: categories by yearly total, largest first.
+    categories: string[];
+    months: Array<{
+      month: number; // 1-12
+      total: number;
+      categories: Array<{ category: string; amount: number }>;
+    }>;
+  };
+  payment_methods?: Array<{
+    payment_method_id: string | null;
+    payment_method_name: string | null;
+    amount: number;
+    entries: number;
+  }>;
+  // For the filter pickers: currencies seen under the trip / payment method filters (default currency first),
+  // and months with expenses in the selected currency, newest first.
+  available_currencies?: string[];
+  available_months?: string[];
+  error?: string;
+  // Every failed field when the request failed schema validation; `error` repeats the first one.
+  errors?: FieldError[];
+};
+
+export type ExpenseExportFormat = "csv" | "ofx" | "qif" | "xlsx";
+
+// Omitted filters export everything. Dates are inclusive expense_date bounds.
+export type ExpenseExportRequest = {
+  format: ExpenseExportFormat;
+  from?: string | null; // YYYY-MM-DD
+  to?: string | null; // YYYY-MM-DD
+  trip_id?: string | null;
+  payment_method_id?: string | null;
+  category_id?: string | null;
+};
+
+export const EXPENSE_EXPORT_REQUEST_SCHEMA: RequestSchema<ExpenseExportRequest> = {
+  fields: {
+    format: { type: "string", required: true, enum: ["csv", "ofx", "qif", "xlsx"] },
+    from: { type: "string", format: "date" },
+    to: { type: "string", format: "date" },
+    trip_id: { type: "string", format: "uuid" },
+    payment_method_id: { type: "string", format: "uuid" },
+    category_id: { type: "string", format: "uuid" },
+  },
+};
+
+// Successful exports return the file itself; only failures are JSON.
+export type ExpenseExportErrorResponse = {
+  status: "error";
+  error: string;
+  // Every failed field when the request failed schema validation; `error` repeats the first one.
+  errors?: FieldError[];
+};
+
+export type StatementFormat = "csv" | "ofx";
+
+export type StatementReconcileRequest =
+  | {
+    action: "import";
+    payment_method_id: string;
+    // The statement file contents.
+    statement: string;
+    // Detected from the contents when omitted.
+    format?: StatementFormat;
+    filename?: string | null;
+    // Used when the file has no currency; defaults to the profile default_currency.
+    currency?: string;
+    // How many days a charge may post after (or before) the expense date. Defaults to 3.
+    date_window_days?: number;
+  }
+  | {
+    action: "create_missing";
+    statement_import_id: string;
+    // Defaults to every line still missing from Speakance.
+    line_ids?: string[];
+  };
+
+// The fields of both actions; the schema's requiredWhen rules pick the ones each action needs.
+type StatementReconcileFields =
+  & Omit<Extract<StatementReconcileRequest, { action: "import" }>, "action">
+  & Omit<Extract<StatementReconcileRequest, { action: "create_missing" }>, "action">
+  & { action: StatementReconcileRequest["action"] };
+
+export const STATEMENT_RECONCILE_REQUEST_SCHEMA: RequestSchema<StatementReconcileFields> = {
+  fields: {
+    action: { type: "string", required: true, enum: ["import", "create_missing"] },
+    payment_method_id: { type: "string", requiredWhen: { field: "action", in: ["import"] }, format: "uuid" },
+    statement: { type: "string", requiredWhen: { field: "action", in: ["import"] } },
+    format: { type: "string", enum: ["csv", "ofx"] },
+    filename: { type: "string" },
+    currency: { type: "string", format: "currency" },
+    date_window_days: { type: "integer", min: 0, max: 10 },
+    statement_import_id: { type: "string", requiredWhen: { field: "action", in: ["create_missing"] }, format: "uuid" },
+    line_ids: { type: "string[]", format: "uuid" },
+  },
+};
+
+export type StatementLine = {
+  id: string;
+  line_number: number;
+  posted_date: string; // YYYY-MM-DD
+  amount: number;
+  currency: string;
+  description: string;
+  external_id: string | null;
+  status: "matched" | "missing" | "created";
+  expense_id: string | null;
+  match_score: number | null;
+};
+
+export type StatementReconcileResponse = {
+  status: "reconciled" | "created" | "error";
+  statement_import_id?: string;
+  period?: { start: string; end: string };
+  // Statement lines paired with an existing expense.
+  matched?: StatementLine[];
+  // Statement lines with no expense in Speakance.
+  missing?: StatementLine[];
+  // Expenses on the payment method, inside the statement period, with no statement line.
+  extra?: ParseExpenseSavedExpense[];
+  // File rows that are not charges (payments, refunds) or could not be read, by 1-based row.
+  skipped?: Array<{ row: number; reason: string }>;
+  // create_missing: the new expenses, in line order.
+  created?: ParseExpenseSavedExpense[];
+  error?: string;
+  // Every failed field when the request failed schema validation; `error` repeats the first one.
+  errors?: FieldError[];
+};
+
+export type AccountExportResponse = {
+  status: "exported" | "error";
+  // Signed download URL for the zip; it stops working at expires_at.
+  url?: string;
+  expires_at?: string;
+  archive_version?: number;
+  // Rows per table, storage objects included in the archive and storage objects linked from it.
+  counts?: Record<string, number>;
+  error?: string;
+};
+
+export type AccountDeletionResponse = {
+  // pending_deletion: erased after purge_after unless restore-account is called first.
+  // deleted: erased immediately (no grace window configured).
+  status: "pending_deletion" | "deleted" | "restored" | "error";
+  purge_after?: string;
+  error?: string;
+  error_code?: ApiErrorCode;
+};
+
+// Body accepted by delete-account and restore-account; only picks the language of error messages.
+export type AccountDeletionRequest = {
+  language_hint?: "en" | "es";
+};
+
+export type UsageStatusRequest = {
+  // Days of history to return, ending today (1-31, default 7).
+  days?: number;
+  language_hint?: "en" | "es";
+};
+
+export const USAGE_STATUS_REQUEST_SCHEMA: RequestSchema<UsageStatusRequest> = {
+  fields: {
+    days: { type: "integer", min: 1, max: 31 },
+    language_hint: { type: "string", enum: ["en", "es"] },
+  },
+};
+
+export type UsageQuotaStatus = {
+  used_today: number;
+  daily_limit: number;
+  remaining_today: number;
+  used_this_minute: number;
+  per_minute_limit: number;
+};
+
+export type UsageStatusResponse = {
+  status: "ok" | "error";
+  plan?: string;
+  // The quota timezone: the profile's timezone, or UTC.
+  time_zone?: string;
+  // Next local midnight in time_zone, when the daily counts start over.
+  resets_at?: string;
+  minute_resets_at?: string;
+  voice?: UsageQuotaStatus;
+  text?: UsageQuotaStatus;
+  photo?: UsageQuotaStatus;
+  // Oldest first, ending with today; `date` is YYYY-MM-DD in time_zone.
+  history?: Array<{ date: string; voice: number; text: number; photo: number }>;
+  error?: string;
+  error_code?: ApiErrorCode;
+  field?: string;
+  errors?: FieldError[];
+};
+
+export type AccountPurgeResponse = {
+  status: "ok" | "error";
+  // Deletions completed / still pending after an error in this run.
+  purged?: number;
+  failed?: number;
+  error?: string;
 };
@@ -0,0 +1,131 @@
+import type { FieldError, FieldSchema, RequestSchema } from "./types.ts";
+import { type ErrorDescriptor, localizeError, type MessageLanguage } from "./errors.ts";
+import { normalizeCurrencyCode } from "./currencies.ts";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Device clocks report local time, so the offset is what makes the instant unambiguous.
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Checks every field against the schema and returns all failures, in schema order; empty when the body is valid.
+export function validateRequestSchema<T>(schema: RequestSchema<T>, body: unknown): ErrorDescriptor[] {
+  if (!body || typeof body !== "object" || Array.isArray(body)) return [{ key: "invalid_json" }];
+  const record = body as Record<string, unknown>;
+  const errors: ErrorDescriptor[] = [];
+
+  for (const [field, rule] of Object.entries(schema.fields) as Array<[string, FieldSchema]>) {
+    const value = record[field];
+    if (isAbsent(value)) {
+      if (rule.required) {
+        errors.push({ key: "field_required", field });
+      } else if (rule.requiredWhen && rule.requiredWhen.in.includes(String(record[rule.requiredWhen.field]))) {
+        errors.push({
+          key: "field_required_when",
+          field,
+          params: { other: rule.requiredWhen.field, value: String(record[rule.requiredWhen.field]) },
+        });
+      }
+      continue;
+    }
+    const error = checkValue(field, value, rule);
+    if (error) errors.push(error);
+  }
+
+  for (const [field, other] of schema.together ?? []) {
+    // Reported on the half that is missing.
+    if (isAbsent(record[field]) && !isAbsent(record[other])) {
+      errors.push({ key: "field_pair_incomplete", field, params: { other } });
+    } else if (isAbsent(record[other]) && !isAbsent(record[field])) {
+      errors.push({ key: "field_pair_incomplete", field: other, params: { other: field } });
+    }
+  }
+
+  for (const group of schema.anyOf ?? []) {
+    if (group.when && !group.when.in.includes(String(record[group.when.field]))) continue;
+    if (group.fields.every((field) => isAbsent(record[field]))) {
+      errors.push({ key: "fields_any_of", field: group.fields[0], params: { fields: group.fields.join(", ") } });
+    }
+  }
+
+  return errors;
+}
+
+export function localizeFieldErrors(errors: ErrorDescriptor[], language: MessageLanguage): FieldError[] {
+  return errors.map((descriptor) => {
+    const { error, error_code, field } = localizeError(descriptor, language);
+    return { field: field ?? "", error_code, error };
+  });
+}
+
+function isAbsent(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && !value.trim());
+}
+
+function checkValue(field: string, value: unknown, rule: FieldSchema): ErrorDescriptor | null {
+  switch (rule.type) {
+    case "boolean":
+      return typeof value === "boolean" ? null : { key: "field_wrong_type", field, params: { type: "boolean" } };
+    case "integer":
+      if (typeof value !== "number" || !Number.isInteger(value)) return { key: "field_not_integer", field };
+      return checkRange(field, value, rule);
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return { key: "field_wrong_type", field, params: { type: "number" } };
+      }
+      if (rule.positive && value <= 0) return { key: "field_not_positive", field };
+      return checkRange(field, value, rule);
+    case "string":
+      if (typeof value !== "string") return { key: "field_wrong_type", field, params: { type: "string" } };
+      return checkString(field, value, rule);
+    case "string[]":
+      if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+        return { key: "field_wrong_type", field, params: { type: "list of strings" } };
+      }
+      // The first bad item is reported by position, e.g. line_ids[2].
+      for (const [index, item] of value.entries()) {
+        const error = checkString(`${field}[${index}]`, item, rule);
+        if (error) return error;
+      }
+      return null;
+  }
+}
+
+function checkString(field: string, value: string, rule: FieldSchema): ErrorDescriptor | null {
+  if (rule.enum && !rule.enum.includes(value)) {
+    return { key: "field_not_allowed", field, params: { allowed: rule.enum.join(", ") } };
+  }
+  switch (rule.format) {
+    case "uuid":
+      return UUID_PATTERN.test(value) ? null : { key: "field_not_uuid", field };
+    case "date-time":
+      return DATE_TIME_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+        ? null
+        : { key: "field_not_datetime", field };
+    case "date":
+      return isCalendarDate(value) ? null : { key: "field_not_date", field };
+    case "month":
+      return MONTH_PATTERN.test(value) ? null : { key: "field_not_month", field };
+    case "currency":
+      return normalizeCurrencyCode(value) ? null : { key: "field_not_currency", field };
+    default:
+      return null;
+  }
+}
+
+// Date.parse rolls days like 2026-02-30 over into the next month instead of rejecting them.
+function isCalendarDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function checkRange(field: string, value: number, rule: FieldSchema): ErrorDescriptor | null {
+  const { min, max } = rule;
+  const outOfRange = (min !== undefined && value < min) || (max !== undefined && value > max);
+  if (!outOfRange) return null;
+  if (min !== undefined && max !== undefined) return { key: "field_out_of_range", field, params: { min, max } };
+  return min !== undefined
+    ? { key: "field_below_min", field, params: { min } }
+    : { key: "field_above_max", field, params: { max: max ?? 0 } };
+}
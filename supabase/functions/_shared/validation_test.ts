@@ -0,0 +1,152 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import {
+  EXPENSE_CORRECTION_REQUEST_SCHEMA,
+  EXPENSE_EXPORT_REQUEST_SCHEMA,
+  PARSE_EXPENSE_REQUEST_SCHEMA,
+  STATEMENT_RECONCILE_REQUEST_SCHEMA,
+} from "./types.ts";
+import { localizeFieldErrors, validateRequestSchema } from "./validation.ts";
+
+const CAPTURE = {
+  client_expense_id: "3f0c1a2b-4d5e-4f60-8a7b-9c0d1e2f3a4b",
+  source: "text",
+  captured_at_device: "2026-03-02T09:15:00-06:00",
+  raw_text: "coffee 5.50",
+};
+
+Deno.test("a valid capture has no errors", () => {
+  assertEquals(validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, CAPTURE), []);
+});
+
+Deno.test("a body that is not an object is invalid_json", () => {
+  for (const body of [null, "text", 42, [CAPTURE]]) {
+    assertEquals(validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, body), [{ key: "invalid_json" }]);
+  }
+});
+
+Deno.test("every failing field is reported, in schema order", () => {
+  const errors = validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, {
+    ...CAPTURE,
+    client_expense_id: "not-a-uuid",
+    source: "fax",
+    captured_at_device: "2026-03-02 09:15",
+    currency_hint: "ZZZ",
+  });
+  assertEquals(errors.map((error) => [error.key, error.field]), [
+    ["field_not_uuid", "client_expense_id"],
+    ["field_not_allowed", "source"],
+    ["field_not_datetime", "captured_at_device"],
+    ["field_not_currency", "currency_hint"],
+  ]);
+});
+
+Deno.test("blank strings and nulls count as missing", () => {
+  const body = { ...CAPTURE, client_expense_id: "  ", source: null };
+  assertEquals(validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, body), [
+    { key: "field_required", field: "client_expense_id" },
+    { key: "field_required", field: "source" },
+  ]);
+});
+
+Deno.test("requiredWhen applies only while the other field holds a listed value", () => {
+  assertEquals(validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, { ...CAPTURE, source: "voice" }), [
+    { key: "field_required_when", field: "audio_duration_seconds", params: { other: "source", value: "voice" } },
+  ]);
+  assertEquals(validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, { ...CAPTURE, source: "photo" }), [
+    { key: "field_required_when", field: "storage_object_path", params: { other: "source", value: "photo" } },
+  ]);
+});
+
+Deno.test("integer bounds are inclusive", () => {
+  const voice = { ...CAPTURE, source: "voice" };
+  const check = (seconds: unknown) =>
+    validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, { ...voice, audio_duration_seconds: seconds });
+  assertEquals(check(1), []);
+  assertEquals(check(15), []);
+  assertEquals(check(16), [
+    { key: "field_out_of_range", field: "audio_duration_seconds", params: { min: 1, max: 15 } },
+  ]);
+  assertEquals(check(2.5), [{ key: "field_not_integer", field: "audio_duration_seconds" }]);
+});
+
+Deno.test("together reports the missing half of a pair", () => {
+  assertEquals(validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, { ...CAPTURE, charged_amount: 5.5 }), [
+    { key: "field_pair_incomplete", field: "charged_currency", params: { other: "charged_amount" } },
+  ]);
+  assertEquals(validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, { ...CAPTURE, charged_currency: "USD" }), [
+    { key: "field_pair_incomplete", field: "charged_amount", params: { other: "charged_currency" } },
+  ]);
+  assertEquals(
+    validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, { ...CAPTURE, charged_amount: 5.5, charged_currency: "USD" }),
+    [],
+  );
+});
+
+Deno.test("a correction clears the charge with both halves null, not one", () => {
+  const id = { expense_id: "e1" };
+  assertEquals(
+    validateRequestSchema(EXPENSE_CORRECTION_REQUEST_SCHEMA, { ...id, charged_amount: null, charged_currency: null }),
+    [],
+  );
+  assertEquals(validateRequestSchema(EXPENSE_CORRECTION_REQUEST_SCHEMA, { ...id, charged_amount: 4, charged_currency: null }), [
+    { key: "field_pair_incomplete", field: "charged_currency", params: { other: "charged_amount" } },
+  ]);
+  assertEquals(validateRequestSchema(EXPENSE_CORRECTION_REQUEST_SCHEMA, { amount: -3, expense_date: "2026-02-30" }), [
+    { key: "field_required", field: "expense_id" },
+    { key: "field_not_positive", field: "amount" },
+    { key: "field_not_date", field: "expense_date" },
+  ]);
+});
+
+Deno.test("anyOf needs one field of the group while its condition holds", () => {
+  const { raw_text: _, ...withoutText } = CAPTURE;
+  assertEquals(
+    validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, { ...withoutText, source: "voice", audio_duration_seconds: 4 }),
+    [{ key: "fields_any_of", field: "raw_text", params: { fields: "raw_text, storage_object_path" } }],
+  );
+  assertEquals(
+    validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, {
+      ...withoutText,
+      source: "voice",
+      audio_duration_seconds: 4,
+      storage_object_path: "user/clip.m4a",
+    }),
+    [],
+  );
+  // Only voice captures; a text capture without raw_text is rejected later as text_unresolved.
+  assertEquals(validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, withoutText), []);
+});
+
+Deno.test("dates must exist on the calendar", () => {
+  const range = { format: "csv", from: "2026-02-30", to: "2026-3-31" };
+  assertEquals(validateRequestSchema(EXPENSE_EXPORT_REQUEST_SCHEMA, range), [
+    { key: "field_not_date", field: "from" },
+    { key: "field_not_date", field: "to" },
+  ]);
+  assertEquals(validateRequestSchema(EXPENSE_EXPORT_REQUEST_SCHEMA, { format: "csv", from: "2028-02-29" }), []);
+});
+
+Deno.test("list items are checked one by one and reported by position", () => {
+  const createMissing = { action: "create_missing", statement_import_id: CAPTURE.client_expense_id };
+  assertEquals(
+    validateRequestSchema(STATEMENT_RECONCILE_REQUEST_SCHEMA, {
+      ...createMissing,
+      line_ids: [CAPTURE.client_expense_id, "line-2"],
+    }),
+    [{ key: "field_not_uuid", field: "line_ids[1]" }],
+  );
+  assertEquals(validateRequestSchema(STATEMENT_RECONCILE_REQUEST_SCHEMA, { ...createMissing, line_ids: "all" }), [
+    { key: "field_wrong_type", field: "line_ids", params: { type: "list of strings" } },
+  ]);
+});
+
+Deno.test("field errors are localized with a stable code", () => {
+  const errors = validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, { ...CAPTURE, source: "voice" });
+  assertEquals(localizeFieldErrors(errors, "es"), [
+    {
+      field: "audio_duration_seconds",
+      error_code: "validation_failed",
+      error: "audio_duration_seconds es obligatorio cuando source es voice.",
+    },
+  ]);
+});
@@ -0,0 +1,46 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { zipStored } from "./zip.ts";
+
+// Reads the central directory back: [name, flags, crc, size, local header offset] per entry.
+function centralEntries(zip: Uint8Array): Array<[string, number, number, number, number]> {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  assertEquals(view.getUint32(end, true), 0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries: Array<[string, number, number, number, number]> = [];
+  for (let index = 0; index < count; index += 1) {
+    assertEquals(view.getUint32(position, true), 0x02014b50);
+    const nameLength = view.getUint16(position + 28, true);
+    entries.push([
+      new TextDecoder().decode(zip.slice(position + 46, position + 46 + nameLength)),
+      view.getUint16(position + 8, true),
+      view.getUint32(position + 16, true),
+      view.getUint32(position + 24, true),
+      view.getUint32(position + 42, true),
+    ]);
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+Deno.test("entries are stored with UTF-8 names, CRC-32 and their local header offsets", () => {
+  const encoder = new TextEncoder();
+  const zip = zipStored([
+    { name: "account.json", data: encoder.encode("{}") },
+    { name: "storage/receipt-photos/u/café.jpg", data: encoder.encode("123456789") },
+  ]);
+  assertEquals(centralEntries(zip), [
+    ["account.json", 0x0800, 0xa3a6bf43, 2, 0],
+    ["storage/receipt-photos/u/café.jpg", 0x0800, 0xcbf43926, 9, 30 + 12 + 2],
+  ]);
+  const view = new DataView(zip.buffer);
+  assertEquals(view.getUint32(44, true), 0x04034b50);
+  assertEquals(new TextDecoder().decode(zip.slice(30 + 12, 30 + 12 + 2)), "{}");
+});
+
+Deno.test("an empty archive is just the end of central directory record", () => {
+  const zip = zipStored([]);
+  assertEquals(zip.length, 22);
+  assertEquals(centralEntries(zip), []);
+});
@@ -1,45 +1,121 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { AccountDeletionRequest, AccountDeletionResponse } from "../_shared/types.ts";
+import { type ErrorDescriptor, localizeError, type MessageLanguage, normalizeMessageLanguage } from "../_shared/errors.ts";
+import { accountDeletionGraceDays, purgeAccount } from "../_shared/account-deletion.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
   }
 
+  // The body is optional and only carries language_hint.
+  const body = await req.json().catch(() => null) as AccountDeletionRequest | null;
+  const language = normalizeMessageLanguage(body?.language_hint);
+
   if (req.method !== "POST") {
-    return json({ error: "Method not allowed" }, 405);
+    return json(errorResponse({ key: "method_not_allowed" }, language), 405);
   }
 
   const supabaseUrl = Deno.env.get("SUPABASE_URL");
   const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
   if (!supabaseUrl || !supabaseServiceRoleKey) {
-    return json({ error: "Missing Supabase env vars" }, 500);
+    return json(errorResponse({ key: "missing_env" }, language), 500);
   }
 
   const authHeader = req.headers.get("Authorization") ?? "";
   const bearerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
   if (!bearerToken) {
-    return json({ error: "Unauthorized" }, 401);
+    return json(errorResponse({ key: "unauthorized" }, language), 401);
   }
 
   const adminClient = createClient(supabaseUrl, supabaseServiceRoleKey);
   const { data: authData, error: authError } = await adminClient.auth.getUser(bearerToken);
   if (authError || !authData.user) {
-    return json({ error: authError?.message || "Unauthorized" }, 401);
+    return json(
+      errorResponse({ key: "auth_rejected", params: { detail: authError?.message || "Unauthorized" } }, language),
+      401,
+    );
   }
+  const userID = authData.user.id;
 
-  const { error: deleteError } = await adminClient.auth.admin.deleteUser(authData.user.id);
-  if (deleteError) {
-    return json({ error: deleteError.message }, 500);
+  // A repeated request keeps the original schedule.
+  const { data: pendingData } = await adminClient
+    .from("account_deletions")
+    .select("id, purge_after")
+    .eq("user_id", userID)
+    .in("status", ["pending", "purging"])
+    .maybeSingle();
+  const pending = pendingData as { id: string; purge_after: string } | null;
+  if (pending) {
+    return json({ status: "pending_deletion", purge_after: pending.purge_after } satisfies AccountDeletionResponse, 200);
   }
 
-  return json({ status: "deleted" }, 200);
+  const graceDays = accountDeletionGraceDays();
+  const requestedAt = new Date();
+  const { data: requestData, error: requestError } = await adminClient
+    .from("account_deletions")
+    .insert({
+      user_id: userID,
+      requested_by: userID,
+      purge_after: new Date(requestedAt.getTime() + graceDays * DAY_MS).toISOString(),
+      // Without a grace window the row is claimed for the purge below from the start, so it cannot be restored.
+      status: graceDays > 0 ? "pending" : "purging",
+      purge_started_at: graceDays > 0 ? null : requestedAt.toISOString(),
+    })
+    .select("id, purge_after")
+    .single();
+  const request = requestData as { id: string; purge_after: string } | null;
+  if (requestError || !request) {
+    return json(
+      errorResponse(
+        { key: "deletion_failed", params: { detail: requestError?.message ?? "Failed to schedule deletion" } },
+        language,
+      ),
+      500,
+    );
+  }
+
+  if (graceDays > 0) {
+    return json({ status: "pending_deletion", purge_after: request.purge_after } satisfies AccountDeletionResponse, 200);
+  }
+
+  try {
+    const storageObjectsRemoved = await purgeAccount(adminClient, userID);
+    await adminClient
+      .from("account_deletions")
+      .update({
+        status: "purged",
+        purged_at: new Date().toISOString(),
+        storage_objects_removed: storageObjectsRemoved,
+        purge_attempts: 1,
+      })
+      .eq("id", request.id)
+      .eq("status", "purging");
+    return json({ status: "deleted" } satisfies AccountDeletionResponse, 200);
+  } catch (error) {
+    // Back to pending, so purge-deleted-accounts retries it.
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("[delete-account] immediate purge failed", { userID, message });
+    await adminClient
+      .from("account_deletions")
+      .update({ status: "pending", purge_started_at: null, purge_attempts: 1, last_error: message })
+      .eq("id", request.id)
+      .eq("status", "purging");
+    return json(errorResponse({ key: "deletion_failed", params: { detail: message } }, language), 500);
+  }
 });
 
+function errorResponse(descriptor: ErrorDescriptor, language: MessageLanguage): AccountDeletionResponse {
+  return { status: "error", ...localizeError(descriptor, language) };
+}
+
 function json(payload: unknown, status = 200): Response {
   return new Response(JSON.stringify(payload), {
     status,
@@ -0,0 +1,341 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type {
+  ExpenseCorrectionRequest,
+  ExpenseCorrectionResponse,
+  ParseExpenseSavedExpense,
+} from "../_shared/types.ts";
+import { EXPENSE_CORRECTION_REQUEST_SCHEMA } from "../_shared/types.ts";
+import { containsCurrencyTerm, normalizeCurrencyCode } from "../_shared/currencies.ts";
+import { hasPendingDeletion, PENDING_DELETION_ERROR } from "../_shared/account-deletion.ts";
+import { localizeFieldErrors, validateRequestSchema } from "../_shared/validation.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const EXPENSE_COLUMNS =
+  "id, client_expense_id, amount, currency, category, category_id, description, merchant, expense_date, source, parse_status, trip_id, trip_name, payment_method_id, payment_method_name, charged_amount, charged_currency, home_amount, home_currency, trip_amount, trip_currency";
+const MAX_LEARNED_PHRASE_LENGTH = 60;
+const MAX_LEARNED_PHRASE_WORDS = 3;
+
+// "with friends" / "con mi esposa" name company, not a card.
+const COMPANION_WORDS = new Set([
+  "friends",
+  "friend",
+  "family",
+  "wife",
+  "husband",
+  "kids",
+  "mom",
+  "dad",
+  "coworkers",
+  "team",
+  "amigos",
+  "amigas",
+  "amigo",
+  "amiga",
+  "familia",
+  "esposa",
+  "esposo",
+  "novia",
+  "novio",
+  "hijos",
+  "mamá",
+  "mama",
+  "papá",
+  "papa",
+  "compañeros",
+]);
+
+type StoredExpense = ParseExpenseSavedExpense & { raw_text: string | null };
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ status: "error", error: "Method not allowed" } satisfies ExpenseCorrectionResponse, 405);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    return json({ status: "error", error: "Missing Supabase env vars" } satisfies ExpenseCorrectionResponse, 500);
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const bearerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!bearerToken) {
+    return json({ status: "error", error: "Unauthorized" } satisfies ExpenseCorrectionResponse, 401);
+  }
+
+  const adminClient = createClient(supabaseUrl, supabaseServiceRoleKey);
+  const { data: authData, error: authError } = await adminClient.auth.getUser(bearerToken);
+  if (authError || !authData.user) {
+    return json(
+      { status: "error", error: authError?.message || "Unauthorized" } satisfies ExpenseCorrectionResponse,
+      401,
+    );
+  }
+  const userID = authData.user.id;
+  if (await hasPendingDeletion(adminClient, userID)) {
+    return json(
+      { status: "error", error: PENDING_DELETION_ERROR } satisfies ExpenseCorrectionResponse,
+      403,
+    );
+  }
+
+  try {
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return json({ status: "error", error: "Body must be JSON" } satisfies ExpenseCorrectionResponse, 400);
+    }
+    const validationErrors = validateRequestSchema(EXPENSE_CORRECTION_REQUEST_SCHEMA, payload);
+    if (validationErrors.length > 0) {
+      const errors = localizeFieldErrors(validationErrors, "en");
+      return json({ status: "error", error: errors[0].error, errors } satisfies ExpenseCorrectionResponse, 400);
+    }
+    const body = payload as ExpenseCorrectionRequest;
+
+    const { data: originalData } = await adminClient
+      .from("expenses")
+      .select(`${EXPENSE_COLUMNS}, raw_text`)
+      .eq("user_id", userID)
+      .eq("id", body.expense_id)
+      .maybeSingle();
+    const original = originalData as StoredExpense | null;
+    if (!original) {
+      return json({ status: "error", error: "Expense not found" } satisfies ExpenseCorrectionResponse, 404);
+    }
+
+    // Fields that cannot be cleared keep their saved value when sent as null or blank, as the schema reads them.
+    const update: Record<string, unknown> = { parse_status: "edited" };
+    if (body.amount != null) update.amount = body.amount;
+    if (body.currency?.trim()) update.currency = normalizeCurrencyCode(body.currency);
+    if (body.description !== undefined) update.description = body.description?.trim() || null;
+    if (body.merchant !== undefined) update.merchant = body.merchant?.trim() || null;
+    if (body.expense_date?.trim()) update.expense_date = body.expense_date;
+    if (body.charged_amount !== undefined || body.charged_currency !== undefined) {
+      update.charged_amount = body.charged_amount ?? null;
+      update.charged_currency = normalizeCurrencyCode(body.charged_currency);
+    }
+
+    if (body.category_id?.trim()) {
+      const category = await loadCategory(adminClient, userID, body.category_id);
+      if (!category) {
+        return json({ status: "error", error: "Unknown category_id" } satisfies ExpenseCorrectionResponse, 400);
+      }
+      update.category_id = category.id;
+      update.category = category.name;
+    }
+
+    if (body.payment_method_id !== undefined) {
+      if (body.payment_method_id === null) {
+        update.payment_method_id = null;
+        update.payment_method_name = null;
+      } else {
+        const method = await loadPaymentMethod(adminClient, userID, body.payment_method_id);
+        if (!method) {
+          return json({ status: "error", error: "Unknown payment_method_id" } satisfies ExpenseCorrectionResponse, 400);
+        }
+        update.payment_method_id = method.id;
+        update.payment_method_name = method.name;
+      }
+    }
+
+    const { data: savedData, error: updateError } = await adminClient
+      .from("expenses")
+      .update(update)
+      .eq("user_id", userID)
+      .eq("id", original.id)
+      .select(EXPENSE_COLUMNS)
+      .single();
+    const saved = savedData as ParseExpenseSavedExpense | null;
+    if (updateError || !saved) {
+      return json(
+        { status: "error", error: updateError?.message ?? "Failed to update expense" } satisfies ExpenseCorrectionResponse,
+        500,
+      );
+    }
+
+    // Learning is best-effort: the edit is already saved, so failures are only logged.
+    const learnedCategoryHints = saved.category_id && saved.category_id !== original.category_id
+      ? await learnCategoryHints(adminClient, userID, {
+        categoryID: saved.category_id,
+        phrases: categoryHintCandidates(saved, [original.category, saved.category]),
+      })
+      : [];
+    const learnedPaymentAliases = saved.payment_method_id && saved.payment_method_id !== original.payment_method_id
+      ? await learnPaymentMethodAliases(adminClient, userID, {
+        paymentMethodID: saved.payment_method_id,
+        phrases: paymentAliasCandidates(original.raw_text ?? "", saved.merchant),
+      })
+      : [];
+
+    return json(
+      {
+        status: "saved",
+        expense: saved,
+        learned: {
+          category_hints: learnedCategoryHints,
+          payment_method_aliases: learnedPaymentAliases,
+        },
+      } satisfies ExpenseCorrectionResponse,
+      200,
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return json({ status: "error", error: message } satisfies ExpenseCorrectionResponse, 500);
+  }
+});
+
+async function loadCategory(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  id: string,
+): Promise<{ id: string; name: string } | null> {
+  const { data } = await supabase
+    .from("categories")
+    .select("id, name, user_id")
+    .eq("id", id.trim())
+    .maybeSingle();
+  const row = data as { id?: string; name?: string; user_id?: string | null } | null;
+  if (!row?.id || !row?.name) return null;
+  const ownerID = row.user_id ?? null;
+  if (ownerID !== null && ownerID !== userId) return null;
+  return { id: row.id, name: row.name };
+}
+
+async function loadPaymentMethod(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  id: string,
+): Promise<{ id: string; name: string } | null> {
+  const { data } = await supabase
+    .from("payment_methods")
+    .select("id, name")
+    .eq("user_id", userId)
+    .eq("id", id.trim())
+    .maybeSingle();
+  const row = data as { id?: string; name?: string } | null;
+  if (!row?.id || !row?.name) return null;
+  return { id: row.id, name: row.name };
+}
+
+// The merchant is what usually identifies the category ("Oxxo" -> Groceries); a short description is the fallback.
+function categoryHintCandidates(expense: ParseExpenseSavedExpense, categoryNames: string[]): string[] {
+  const excluded = new Set(categoryNames.map((name) => name.toLowerCase()));
+  const source = expense.merchant ?? expense.description;
+  const phrase = normalizeLearnedPhrase(source);
+  return phrase && !excluded.has(phrase) ? [phrase] : [];
+}
+
+// Card references follow "with"/"con" ("paid with my chase", "con la tarjeta azul").
+function paymentAliasCandidates(rawText: string, merchant: string | null): string[] {
+  const merchantPhrase = normalizeLearnedPhrase(merchant);
+  const pattern =
+    /(?:^|[^\p{L}])(?:paid with|pay with|with|using|pagu[ée] con|con|usando)\s+(?:(?:my|the|mi|la|el)\s+)?([\p{L}][\p{L}\p{N}]*(?:\s+[\p{L}][\p{L}\p{N}]*){0,2})/giu;
+  const phrases = new Set<string>();
+  for (const match of rawText.matchAll(pattern)) {
+    const phrase = normalizeLearnedPhrase(trimTrailingConnectors(match[1]));
+    if (!phrase || phrase === merchantPhrase) continue;
+    if (phrase.split(" ").some((word) => COMPANION_WORDS.has(word))) continue;
+    phrases.add(phrase);
+  }
+  return Array.from(phrases);
+}
+
+function trimTrailingConnectors(value: string): string {
+  return value.replace(/(?:\s+(?:and|y|at|en|on|for|para|por|yesterday|today|ayer|hoy))+.*$/iu, "");
+}
+
+// Matches the lowercase/trimmed form parse-expense compares hints and aliases against.
+function normalizeLearnedPhrase(value: string | null | undefined): string | null {
+  const phrase = (value ?? "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "")
+    .trim();
+  if (phrase.length < 2 || phrase.length > MAX_LEARNED_PHRASE_LENGTH) return null;
+  if (phrase.split(" ").length > MAX_LEARNED_PHRASE_WORDS) return null;
+  if (/\d/.test(phrase) || containsCurrencyTerm(phrase)) return null;
+  return phrase;
+}
+
+async function learnCategoryHints(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  opts: { categoryID: string; phrases: string[] },
+): Promise<string[]> {
+  const learned: string[] = [];
+  for (const phrase of opts.phrases) {
+    // A phrase hinting at two categories would keep winning the old one, so the correction replaces it.
+    const { error: deleteError } = await supabase
+      .from("category_hints")
+      .delete()
+      .eq("user_id", userId)
+      .eq("normalized_phrase", phrase)
+      .neq("category_id", opts.categoryID);
+    const { error: upsertError } = await supabase
+      .from("category_hints")
+      .upsert(
+        { user_id: userId, category_id: opts.categoryID, phrase, normalized_phrase: phrase },
+        { onConflict: "user_id,category_id,normalized_phrase", ignoreDuplicates: true },
+      );
+    if (deleteError || upsertError) {
+      console.error("[expense-corrections] failed to learn category hint", {
+        phrase,
+        message: (deleteError ?? upsertError)?.message,
+      });
+      continue;
+    }
+    learned.push(phrase);
+  }
+  return learned;
+}
+
+async function learnPaymentMethodAliases(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  opts: { paymentMethodID: string; phrases: string[] },
+): Promise<string[]> {
+  const learned: string[] = [];
+  for (const phrase of opts.phrases) {
+    // An alias shared by two methods makes detection ambiguous, so the corrected method takes it over.
+    const { error: deleteError } = await supabase
+      .from("payment_method_aliases")
+      .delete()
+      .eq("user_id", userId)
+      .eq("normalized_phrase", phrase)
+      .neq("payment_method_id", opts.paymentMethodID);
+    const { error: upsertError } = await supabase
+      .from("payment_method_aliases")
+      .upsert(
+        { user_id: userId, payment_method_id: opts.paymentMethodID, phrase, normalized_phrase: phrase },
+        { onConflict: "user_id,payment_method_id,normalized_phrase", ignoreDuplicates: true },
+      );
+    if (deleteError || upsertError) {
+      console.error("[expense-corrections] failed to learn payment method alias", {
+        phrase,
+        message: (deleteError ?? upsertError)?.message,
+      });
+      continue;
+    }
+    learned.push(phrase);
+  }
+  return learned;
+}
+
+function json(payload: unknown, status = 200): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
@@ -0,0 +1,147 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ExpenseInsightsRequest, ExpenseInsightsResponse } from "../_shared/types.ts";
+import { EXPENSE_INSIGHTS_REQUEST_SCHEMA } from "../_shared/types.ts";
+import { normalizeCurrencyCode } from "../_shared/currencies.ts";
+import { hasPendingDeletion, PENDING_DELETION_ERROR } from "../_shared/account-deletion.ts";
+import { localizeFieldErrors, validateRequestSchema } from "../_shared/validation.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type InsightsAggregates = Pick<
+  ExpenseInsightsResponse,
+  "kpis" | "category_mix" | "monthly_trend" | "payment_methods" | "available_currencies" | "available_months"
+>;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ status: "error", error: "Method not allowed" } satisfies ExpenseInsightsResponse, 405);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    return json({ status: "error", error: "Missing Supabase env vars" } satisfies ExpenseInsightsResponse, 500);
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const bearerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!bearerToken) {
+    return json({ status: "error", error: "Unauthorized" } satisfies ExpenseInsightsResponse, 401);
+  }
+
+  const adminClient = createClient(supabaseUrl, supabaseServiceRoleKey);
+  const { data: authData, error: authError } = await adminClient.auth.getUser(bearerToken);
+  if (authError || !authData.user) {
+    return json({ status: "error", error: authError?.message || "Unauthorized" } satisfies ExpenseInsightsResponse, 401);
+  }
+  const userID = authData.user.id;
+  if (await hasPendingDeletion(adminClient, userID)) {
+    return json({ status: "error", error: PENDING_DELETION_ERROR } satisfies ExpenseInsightsResponse, 403);
+  }
+
+  try {
+    // An empty body means "everything, in my default currency".
+    const text = await req.text();
+    let payload: unknown = {};
+    if (text.trim()) {
+      try {
+        payload = JSON.parse(text);
+      } catch {
+        return json({ status: "error", error: "Body must be JSON" } satisfies ExpenseInsightsResponse, 400);
+      }
+    }
+    const validationErrors = validateRequestSchema(EXPENSE_INSIGHTS_REQUEST_SCHEMA, payload);
+    if (validationErrors.length > 0) {
+      const errors = localizeFieldErrors(validationErrors, "en");
+      return json({ status: "error", error: errors[0].error, errors } satisfies ExpenseInsightsResponse, 400);
+    }
+    const body = payload as ExpenseInsightsRequest;
+
+    const { data: profileData } = await adminClient
+      .from("profiles")
+      .select("default_currency, timezone")
+      .eq("id", userID)
+      .maybeSingle();
+    const profile = profileData as { default_currency?: string | null; timezone?: string | null } | null;
+    const defaultCurrency = normalizeCurrencyCode(profile?.default_currency) ?? "USD";
+
+    const currency = normalizeCurrencyCode(body.currency) ?? defaultCurrency;
+    const month = body.month?.trim() || null;
+    const trendYear = body.trend_year ?? currentYear(profile?.timezone);
+    const tripID = body.trip_id?.trim() || null;
+    const paymentMethodID = body.payment_method_id?.trim() || null;
+
+    const { data, error } = await adminClient.rpc("expense_insights", {
+      p_user_id: userID,
+      p_currency: currency,
+      p_trip_id: tripID,
+      p_payment_method_id: paymentMethodID,
+      p_month: month ? `${month}-01` : null,
+      p_trend_year: trendYear,
+    });
+    const aggregates = data as InsightsAggregates | null;
+    if (error || !aggregates) {
+      console.error("[expense-insights] aggregation failed", { userID, message: error?.message });
+      return json(
+        { status: "error", error: error?.message ?? "Failed to load insights" } satisfies ExpenseInsightsResponse,
+        500,
+      );
+    }
+
+    return json(
+      {
+        status: "ok",
+        filters: {
+          trip_id: tripID,
+          payment_method_id: paymentMethodID,
+          currency,
+          month,
+          trend_year: trendYear,
+        },
+        kpis: aggregates.kpis,
+        category_mix: aggregates.category_mix,
+        monthly_trend: aggregates.monthly_trend,
+        payment_methods: aggregates.payment_methods,
+        available_currencies: orderCurrencies(aggregates.available_currencies ?? [], defaultCurrency),
+        available_months: aggregates.available_months,
+      } satisfies ExpenseInsightsResponse,
+      200,
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return json({ status: "error", error: message } satisfies ExpenseInsightsResponse, 500);
+  }
+});
+
+// The currency picker lists the default currency first, then the rest alphabetically, like the iOS app.
+function orderCurrencies(currencies: string[], defaultCurrency: string): string[] {
+  const others = currencies.filter((code) => code !== defaultCurrency).sort();
+  return [defaultCurrency, ...others];
+}
+
+function currentYear(timeZone: string | null | undefined): number {
+  try {
+    const year = new Intl.DateTimeFormat("en-CA", { timeZone: timeZone?.trim() || "UTC", year: "numeric" })
+      .format(new Date());
+    return Number(year);
+  } catch {
+    return new Date().getUTCFullYear();
+  }
+}
+
+function json(payload: unknown, status = 200): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
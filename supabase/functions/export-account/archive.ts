@@ -0,0 +1,44 @@
+import type { StoredObject } from "../_shared/storage.ts";
+
+// Bump when account.json changes shape, so importers can tell archives apart.
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_FORMAT = "speakance-account-export";
+// The zip is built in memory, so only this much of the captures goes inside it; the rest is linked.
+export const MAX_ARCHIVE_STORAGE_BYTES = 20 * 1024 * 1024;
+
+export type ArchivedObject = StoredObject & {
+  // Where the file sits inside the zip; null when it is linked instead.
+  archive_path: string | null;
+  // Signed URL for captures left out of the zip; they expire at the manifest's `download_urls_expire_at`.
+  download_url: string | null;
+  omitted_reason?: string;
+};
+
+// Captures are packed in listing order while they fit; objects of unknown size are always linked.
+export function planStorageArchive(
+  objects: StoredObject[],
+  maxBytes = MAX_ARCHIVE_STORAGE_BYTES,
+): { packed: StoredObject[]; linked: StoredObject[] } {
+  const packed: StoredObject[] = [];
+  const linked: StoredObject[] = [];
+  let bytes = 0;
+  for (const object of objects) {
+    if (object.size === null || bytes + object.size > maxBytes) {
+      linked.push(object);
+    } else {
+      packed.push(object);
+      bytes += object.size;
+    }
+  }
+  return { packed, linked };
+}
+
+export function archivePathFor(object: StoredObject): string {
+  return `storage/${object.bucket}/${object.path}`;
+}
+
+// `speakance-export-20260310T120000Z.zip`
+export function archiveFileName(exportedAt: Date): string {
+  const stamp = exportedAt.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+  return `speakance-export-${stamp}.zip`;
+}
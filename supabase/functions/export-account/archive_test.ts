@@ -0,0 +1,27 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import type { StoredObject } from "../_shared/storage.ts";
+import { archiveFileName, archivePathFor, planStorageArchive } from "./archive.ts";
+
+function object(path: string, size: number | null, bucket = "voice-captures"): StoredObject {
+  return { bucket, path, size, content_type: null };
+}
+
+Deno.test("captures are packed in listing order while they fit the budget", () => {
+  const { packed, linked } = planStorageArchive(
+    [object("u/a.m4a", 40), object("u/b.m4a", 70), object("u/c.jpg", 50, "receipt-photos"), object("u/d.m4a", 10)],
+    100,
+  );
+  assertEquals(packed.map((entry) => entry.path), ["u/a.m4a", "u/c.jpg", "u/d.m4a"]);
+  assertEquals(linked.map((entry) => entry.path), ["u/b.m4a"]);
+});
+
+Deno.test("captures of unknown size are always linked", () => {
+  const { packed, linked } = planStorageArchive([object("u/a.m4a", null), object("u/b.m4a", 0)], 100);
+  assertEquals(packed.map((entry) => entry.path), ["u/b.m4a"]);
+  assertEquals(linked.map((entry) => entry.path), ["u/a.m4a"]);
+});
+
+Deno.test("archive names are stable for a given export time", () => {
+  assertEquals(archiveFileName(new Date("2026-03-10T12:00:00.123Z")), "speakance-export-20260310T120000Z.zip");
+  assertEquals(archivePathFor(object("u/2026/03/02/c1.m4a", 1)), "storage/voice-captures/u/2026/03/02/c1.m4a");
+});
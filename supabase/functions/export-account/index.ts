@@ -0,0 +1,225 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { AccountExportResponse } from "../_shared/types.ts";
+import { ACCOUNT_EXPORTS_BUCKET, CAPTURE_BUCKETS, listStorageObjects } from "../_shared/storage.ts";
+import type { StoredObject } from "../_shared/storage.ts";
+import { zipStored } from "../_shared/zip.ts";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  type ArchivedObject,
+  archiveFileName,
+  archivePathFor,
+  planStorageArchive,
+} from "./archive.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const EXPORT_URL_TTL_SECONDS = 15 * 60;
+// Linked captures are fetched after the archive is opened, so their URLs outlive the archive's.
+const CAPTURE_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+const PAGE_SIZE = 1000;
+
+// Every table holding the user's rows, and the column that names the owner.
+const EXPORTED_TABLES: Array<{ table: string; ownerColumn: string }> = [
+  { table: "profiles", ownerColumn: "id" },
+  { table: "categories", ownerColumn: "user_id" },
+  { table: "category_hints", ownerColumn: "user_id" },
+  { table: "trips", ownerColumn: "user_id" },
+  { table: "payment_methods", ownerColumn: "user_id" },
+  { table: "payment_method_aliases", ownerColumn: "user_id" },
+  { table: "expenses", ownerColumn: "user_id" },
+  { table: "ai_usage_events", ownerColumn: "user_id" },
+  { table: "merchants", ownerColumn: "user_id" },
+  { table: "fx_rates", ownerColumn: "user_id" },
+  { table: "statement_imports", ownerColumn: "user_id" },
+  { table: "statement_lines", ownerColumn: "user_id" },
+];
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ status: "error", error: "Method not allowed" } satisfies AccountExportResponse, 405);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    return json({ status: "error", error: "Missing Supabase env vars" } satisfies AccountExportResponse, 500);
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const bearerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!bearerToken) {
+    return json({ status: "error", error: "Unauthorized" } satisfies AccountExportResponse, 401);
+  }
+
+  const adminClient = createClient(supabaseUrl, supabaseServiceRoleKey);
+  const { data: authData, error: authError } = await adminClient.auth.getUser(bearerToken);
+  if (authError || !authData.user) {
+    return json({ status: "error", error: authError?.message || "Unauthorized" } satisfies AccountExportResponse, 401);
+  }
+  const user = authData.user;
+
+  try {
+    const exportedAt = new Date();
+    const tables: Record<string, Record<string, unknown>[]> = {};
+    const counts: Record<string, number> = {};
+    for (const { table, ownerColumn } of EXPORTED_TABLES) {
+      tables[table] = await loadOwnedRows(adminClient, table, ownerColumn, user.id);
+      counts[table] = tables[table].length;
+    }
+
+    const storedObjects: StoredObject[] = [];
+    for (const bucket of CAPTURE_BUCKETS) {
+      storedObjects.push(...await listStorageObjects(adminClient, bucket, user.id));
+    }
+    const { packed, linked } = planStorageArchive(storedObjects);
+
+    const files: Array<{ name: string; data: Uint8Array }> = [];
+    const storageObjects: ArchivedObject[] = [];
+    for (const object of packed) {
+      const { data, error } = await adminClient.storage.from(object.bucket).download(object.path);
+      if (error || !data) {
+        // Linked instead, like the captures past the size budget.
+        linked.push(object);
+        continue;
+      }
+      files.push({ name: archivePathFor(object), data: new Uint8Array(await data.arrayBuffer()) });
+      storageObjects.push({ ...object, archive_path: archivePathFor(object), download_url: null });
+    }
+    const captureURLsExpireAt = new Date(Date.now() + CAPTURE_URL_TTL_SECONDS * 1000);
+    storageObjects.push(...await signCaptureURLs(adminClient, user.id, linked));
+    counts.storage_objects = storageObjects.filter((object) => object.archive_path !== null).length;
+    counts.linked_storage_objects = storageObjects.filter((object) => object.download_url !== null).length;
+
+    const manifest = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exported_at: exportedAt.toISOString(),
+      user: { id: user.id, email: user.email ?? null, created_at: user.created_at },
+      tables,
+      download_urls_expire_at: captureURLsExpireAt.toISOString(),
+      storage_objects: storageObjects,
+    };
+    files.unshift({ name: "account.json", data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+
+    const archivePath = `${user.id}/${archiveFileName(exportedAt)}`;
+    const { error: uploadError } = await adminClient.storage
+      .from(ACCOUNT_EXPORTS_BUCKET)
+      .upload(archivePath, zipStored(files), { contentType: "application/zip", upsert: true });
+    if (uploadError) {
+      console.error("[export-account] failed to upload archive", { userID: user.id, message: uploadError.message });
+      return json({ status: "error", error: uploadError.message } satisfies AccountExportResponse, 500);
+    }
+    await removeOlderExports(adminClient, user.id, archivePath);
+
+    const { data: signed, error: signError } = await adminClient.storage
+      .from(ACCOUNT_EXPORTS_BUCKET)
+      .createSignedUrl(archivePath, EXPORT_URL_TTL_SECONDS, { download: archivePath.split("/").pop() });
+    if (signError || !signed?.signedUrl) {
+      return json(
+        { status: "error", error: signError?.message ?? "Failed to sign export URL" } satisfies AccountExportResponse,
+        500,
+      );
+    }
+
+    return json(
+      {
+        status: "exported",
+        url: signed.signedUrl,
+        expires_at: new Date(Date.now() + EXPORT_URL_TTL_SECONDS * 1000).toISOString(),
+        archive_version: ARCHIVE_VERSION,
+        counts,
+      } satisfies AccountExportResponse,
+      200,
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return json({ status: "error", error: message } satisfies AccountExportResponse, 500);
+  }
+});
+
+async function loadOwnedRows(
+  supabase: ReturnType<typeof createClient>,
+  table: string,
+  ownerColumn: string,
+  userID: string,
+): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  for (let offset = 0;; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("*")
+      .eq(ownerColumn, userID)
+      .order("id")
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(`${table}: ${error.message}`);
+    const page = (data ?? []) as Record<string, unknown>[];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function signCaptureURLs(
+  supabase: ReturnType<typeof createClient>,
+  userID: string,
+  objects: StoredObject[],
+): Promise<ArchivedObject[]> {
+  const archived: ArchivedObject[] = [];
+  for (const bucket of CAPTURE_BUCKETS) {
+    const inBucket = objects.filter((object) => object.bucket === bucket);
+    if (inBucket.length === 0) continue;
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrls(inBucket.map((object) => object.path), CAPTURE_URL_TTL_SECONDS);
+    if (error) {
+      console.error("[export-account] failed to sign capture URLs", { userID, bucket, message: error.message });
+    }
+    const urls = new Map<string, string>();
+    for (const signed of data ?? []) {
+      if (signed.path && signed.signedUrl) urls.set(signed.path, signed.signedUrl);
+    }
+    for (const object of inBucket) {
+      const url = urls.get(object.path) ?? null;
+      archived.push(
+        url
+          ? { ...object, archive_path: null, download_url: url }
+          : { ...object, archive_path: null, download_url: null, omitted_reason: "Could not be read" },
+      );
+    }
+  }
+  return archived;
+}
+
+// Only the newest archive is kept; older ones would outlive the data they copy.
+async function removeOlderExports(supabase: ReturnType<typeof createClient>, userID: string, keepPath: string) {
+  try {
+    const stale = (await listStorageObjects(supabase, ACCOUNT_EXPORTS_BUCKET, userID))
+      .map((object) => object.path)
+      .filter((path) => path !== keepPath);
+    if (stale.length === 0) return;
+    const { error } = await supabase.storage.from(ACCOUNT_EXPORTS_BUCKET).remove(stale);
+    if (error) throw new Error(error.message);
+  } catch (error) {
+    console.error("[export-account] failed to remove older exports", {
+      userID,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+function json(payload: unknown, status = 200): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
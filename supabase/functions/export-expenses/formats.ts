@@ -0,0 +1,291 @@
+import type { ExpenseExportRequest } from "../_shared/types.ts";
+import { zipStored } from "../_shared/zip.ts";
+
+// Same columns, in the same order, as the iOS Settings CSV export (plus the converted amount).
+export const CSV_HEADER = [
+  "expense_id",
+  "client_expense_id",
+  "expense_date",
+  "amount",
+  "currency",
+  "category",
+  "description",
+  "merchant",
+  "payment_method_name",
+  "trip_name",
+  "source",
+  "parse_status",
+  "raw_text",
+  "captured_at_device",
+  "updated_at",
+  "home_amount",
+  "home_currency",
+];
+const OFX_NAME_MAX_LENGTH = 32;
+
+export type ExportedExpense = {
+  id: string;
+  client_expense_id: string;
+  expense_date: string;
+  amount: number;
+  currency: string;
+  category: string;
+  description: string | null;
+  merchant: string | null;
+  payment_method_name: string | null;
+  trip_name: string | null;
+  source: string;
+  parse_status: string;
+  raw_text: string | null;
+  captured_at_device: string;
+  updated_at: string;
+  home_amount: number | null;
+  home_currency: string | null;
+};
+
+export type ExportFilters = Omit<ExpenseExportRequest, "format">;
+
+export async function* renderCSV(pages: AsyncGenerator<ExportedExpense[]>): AsyncGenerator<string> {
+  yield CSV_HEADER.join(",");
+  for await (const page of pages) {
+    yield page.map((expense) => "\n" + csvRow(expense).join(",")).join("");
+  }
+}
+
+function csvRow(expense: ExportedExpense): string[] {
+  return [
+    expense.id,
+    expense.client_expense_id,
+    expense.expense_date,
+    String(expense.amount),
+    expense.currency,
+    csvText(expense.category),
+    csvText(expense.description),
+    csvText(expense.merchant),
+    csvText(expense.payment_method_name),
+    csvText(expense.trip_name),
+    expense.source,
+    expense.parse_status,
+    csvText(expense.raw_text),
+    expense.captured_at_device,
+    expense.updated_at,
+    expense.home_amount === null ? "" : String(expense.home_amount),
+    expense.home_currency ?? "",
+  ].map(escapeCSVField);
+}
+
+// Spreadsheets run cells that start with =, +, - or @ as formulas; free text gets a leading apostrophe.
+function csvText(value: string | null): string {
+  if (!value) return "";
+  return /^[=+\-@]/.test(value) ? `'${value}` : value;
+}
+
+function escapeCSVField(value: string): string {
+  if (/[",\n\r]/.test(value)) {
+    return `"${value.replaceAll('"', '""')}"`;
+  }
+  return value;
+}
+
+// QIF has no currency field; the code is kept in the memo.
+export async function* renderQIF(pages: AsyncGenerator<ExportedExpense[]>, filters: ExportFilters): AsyncGenerator<string> {
+  yield filters.payment_method_id ? "!Type:CCard\n" : "!Type:Cash\n";
+  for await (const page of pages) {
+    yield page.map((expense) => {
+      const [year, month, day] = expense.expense_date.split("-");
+      const memo = [expense.description, expense.trip_name, expense.currency].filter(Boolean).join(" | ");
+      return [
+        `D${month}/${day}/${year}`,
+        `T-${expense.amount.toFixed(2)}`,
+        `P${qifText(expense.merchant ?? expense.description ?? expense.category)}`,
+        `M${qifText(memo)}`,
+        `L${qifText(expense.category)}`,
+        `N${expense.id}`,
+        "^",
+      ].join("\n") + "\n";
+    }).join("");
+  }
+}
+
+function qifText(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+// OFX 1.02 (SGML) credit card statement, one statement per currency since OFX has a single CURDEF per statement.
+export async function* renderOFX(pages: AsyncGenerator<ExportedExpense[]>, filters: ExportFilters): AsyncGenerator<string> {
+  const now = ofxDateTime(new Date());
+  const accountID = filters.payment_method_id?.trim() || "speakance";
+  const endDate = (filters.to ?? todayKey()).replaceAll("-", "");
+  yield [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "SECURITY:NONE",
+    "ENCODING:UTF-8",
+    "CHARSET:NONE",
+    "COMPRESSION:NONE",
+    "OLDFILEUID:NONE",
+    "NEWFILEUID:NONE",
+    "",
+    "<OFX>",
+    `<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0<SEVERITY>INFO</STATUS><DTSERVER>${now}<LANGUAGE>ENG</SONRS></SIGNONMSGSRSV1>`,
+    "<CREDITCARDMSGSRSV1>",
+    "",
+  ].join("\n");
+
+  let currency: string | null = null;
+  let statement = 0;
+  const closeStatement = () =>
+    `</BANKTRANLIST>\n<LEDGERBAL><BALAMT>0<DTASOF>${now}</LEDGERBAL>\n</CCSTMTRS></CCSTMTTRNRS>\n`;
+
+  for await (const page of pages) {
+    let chunk = "";
+    for (const expense of page) {
+      if (expense.currency !== currency) {
+        if (currency !== null) chunk += closeStatement();
+        currency = expense.currency;
+        statement += 1;
+        // Rows arrive oldest-first within a currency, so the first one starts the statement range.
+        const startDate = (filters.from ?? expense.expense_date).replaceAll("-", "");
+        chunk += `<CCSTMTTRNRS><TRNUID>${statement}<STATUS><CODE>0<SEVERITY>INFO</STATUS>\n`
+          + `<CCSTMTRS><CURDEF>${currency}<CCACCTFROM><ACCTID>${ofxText(accountID)}</CCACCTFROM>\n`
+          + `<BANKTRANLIST><DTSTART>${startDate}<DTEND>${endDate}\n`;
+      }
+      const name = (expense.merchant ?? expense.description ?? expense.category).slice(0, OFX_NAME_MAX_LENGTH);
+      const memo = [expense.category, expense.description, expense.trip_name].filter(Boolean).join(" | ");
+      chunk += "<STMTTRN><TRNTYPE>DEBIT"
+        + `<DTPOSTED>${expense.expense_date.replaceAll("-", "")}`
+        + `<TRNAMT>-${expense.amount.toFixed(2)}`
+        + `<FITID>${expense.id}`
+        + `<NAME>${ofxText(name)}`
+        + `<MEMO>${ofxText(memo)}`
+        + "</STMTTRN>\n";
+    }
+    yield chunk;
+  }
+
+  yield (currency !== null ? closeStatement() : "") + "</CREDITCARDMSGSRSV1>\n</OFX>\n";
+}
+
+function ofxText(value: string): string {
+  return value
+    .replace(/[\r\n]+/g, " ")
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .trim();
+}
+
+function ofxDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+}
+
+// A single-sheet workbook: header row, numeric amounts and real date cells so spreadsheets can sum and sort.
+export function renderXLSX(expenses: ExportedExpense[]): Uint8Array<ArrayBuffer> {
+  const cell = (value: string | null) =>
+    value ? `<c t="inlineStr"><is><t xml:space="preserve">${xmlText(value)}</t></is></c>` : "<c/>";
+  const amount = (value: number | null) => (value === null ? "<c/>" : `<c s="2"><v>${value}</v></c>`);
+  const rows = [
+    `<row>${CSV_HEADER.map(cell).join("")}</row>`,
+    ...expenses.map((expense) =>
+      "<row>"
+      + cell(expense.id)
+      + cell(expense.client_expense_id)
+      + `<c s="1"><v>${excelSerialDate(expense.expense_date)}</v></c>`
+      + amount(expense.amount)
+      + cell(expense.currency)
+      + cell(expense.category)
+      + cell(expense.description)
+      + cell(expense.merchant)
+      + cell(expense.payment_method_name)
+      + cell(expense.trip_name)
+      + cell(expense.source)
+      + cell(expense.parse_status)
+      + cell(expense.raw_text)
+      + cell(expense.captured_at_device)
+      + cell(expense.updated_at)
+      + amount(expense.home_amount)
+      + cell(expense.home_currency)
+      + "</row>"
+    ),
+  ];
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const mainNS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+  const relNS = "http://schemas.openxmlformats.org/package/2006/relationships";
+  const docRelNS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+  const files: Array<[string, string]> = [
+    [
+      "[Content_Types].xml",
+      `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+      + "</Types>",
+    ],
+    [
+      "_rels/.rels",
+      `${xmlHeader}<Relationships xmlns="${relNS}">`
+      + `<Relationship Id="rId1" Type="${docRelNS}/officeDocument" Target="xl/workbook.xml"/>`
+      + "</Relationships>",
+    ],
+    [
+      "xl/workbook.xml",
+      `${xmlHeader}<workbook xmlns="${mainNS}" xmlns:r="${docRelNS}">`
+      + '<sheets><sheet name="Expenses" sheetId="1" r:id="rId1"/></sheets>'
+      + "</workbook>",
+    ],
+    [
+      "xl/_rels/workbook.xml.rels",
+      `${xmlHeader}<Relationships xmlns="${relNS}">`
+      + `<Relationship Id="rId1" Type="${docRelNS}/worksheet" Target="worksheets/sheet1.xml"/>`
+      + `<Relationship Id="rId2" Type="${docRelNS}/styles" Target="styles.xml"/>`
+      + "</Relationships>",
+    ],
+    [
+      // Style 1 is a short date (numFmt 14), style 2 a two-decimal amount (numFmt 4).
+      "xl/styles.xml",
+      `${xmlHeader}<styleSheet xmlns="${mainNS}">`
+      + '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>'
+      + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+      + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+      + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+      + '<cellXfs count="3">'
+      + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+      + '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+      + '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+      + "</cellXfs></styleSheet>",
+    ],
+    [
+      "xl/worksheets/sheet1.xml",
+      `${xmlHeader}<worksheet xmlns="${mainNS}"><sheetData>${rows.join("")}</sheetData></worksheet>`,
+    ],
+  ];
+
+  const encoder = new TextEncoder();
+  return zipStored(files.map(([name, content]) => ({ name, data: encoder.encode(content) })));
+}
+
+function xmlText(value: string): string {
+  return Array.from(value)
+    // Control characters other than tab / newline / carriage return are not allowed in XML 1.0.
+    .filter((char) => {
+      const code = char.codePointAt(0) ?? 0;
+      return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+    })
+    .join("")
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;");
+}
+
+// Days since 1899-12-30, the spreadsheet epoch.
+function excelSerialDate(dateKey: string): number {
+  return Math.round((Date.parse(`${dateKey}T00:00:00Z`) - Date.UTC(1899, 11, 30)) / 86_400_000);
+}
+
+export function todayKey(): string {
+  return new Date().toISOString().slice(0, 10);
+}
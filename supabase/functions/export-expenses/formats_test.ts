@@ -0,0 +1,85 @@
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import { type ExportedExpense, renderCSV, renderOFX, renderQIF, renderXLSX } from "./formats.ts";
+
+function expense(overrides: Partial<ExportedExpense> = {}): ExportedExpense {
+  return {
+    id: "e1",
+    client_expense_id: "c1",
+    expense_date: "2026-03-02",
+    amount: 120,
+    currency: "MXN",
+    category: "Food",
+    description: "tacos",
+    merchant: "El Güero",
+    payment_method_name: null,
+    trip_name: null,
+    source: "voice",
+    parse_status: "auto",
+    raw_text: "tacos 120",
+    captured_at_device: "2026-03-02T20:00:00Z",
+    updated_at: "2026-03-02T20:00:05Z",
+    home_amount: null,
+    home_currency: null,
+    ...overrides,
+  };
+}
+
+async function* pagesOf(...pages: ExportedExpense[][]): AsyncGenerator<ExportedExpense[]> {
+  yield* pages;
+}
+
+async function collect(chunks: AsyncGenerator<string>): Promise<string> {
+  let text = "";
+  for await (const chunk of chunks) text += chunk;
+  return text;
+}
+
+Deno.test("CSV quotes separators and defuses spreadsheet formulas", async () => {
+  const csv = await collect(renderCSV(pagesOf(
+    [expense({ description: 'dinner, "fancy"', merchant: "=HYPERLINK()" })],
+    [expense({ id: "e2", raw_text: "line\nbreak", home_amount: 6.5, home_currency: "USD" })],
+  )));
+  const lines = csv.split("\n");
+  assertEquals(lines[0].split(",").length, 17);
+  assert(lines[1].includes(`"dinner, ""fancy"""`));
+  assert(lines[1].includes(",'=HYPERLINK(),"));
+  assert(csv.includes(`"line\nbreak"`));
+  assert(csv.endsWith(",6.5,USD"));
+});
+
+Deno.test("QIF writes one debit per expense with the currency in the memo", async () => {
+  const qif = await collect(renderQIF(pagesOf([expense({ merchant: null, trip_name: "CDMX" })]), {}));
+  assertEquals(qif, "!Type:Cash\nD03/02/2026\nT-120.00\nPtacos\nMtacos | CDMX | MXN\nLFood\nNe1\n^\n");
+  const card = await collect(renderQIF(pagesOf(), { payment_method_id: "pm-1" }));
+  assertEquals(card, "!Type:CCard\n");
+});
+
+Deno.test("OFX opens one statement per currency and escapes text", async () => {
+  const ofx = await collect(renderOFX(
+    pagesOf([expense({ merchant: "Tom & Jerry's" })], [expense({ id: "e2", currency: "USD", amount: 9.5 })]),
+    { from: "2026-03-01", to: "2026-03-31" },
+  ));
+  assertEquals(ofx.match(/<CCSTMTTRNRS>/g)?.length, 2);
+  assertEquals(ofx.match(/<\/CCSTMTRS><\/CCSTMTTRNRS>/g)?.length, 2);
+  assert(ofx.includes("<CURDEF>MXN"));
+  assert(ofx.includes("<CURDEF>USD"));
+  assert(ofx.includes("<NAME>Tom &amp; Jerry's"));
+  assert(ofx.includes("<TRNAMT>-9.50<FITID>e2"));
+  assert(ofx.includes("<DTSTART>20260301<DTEND>20260331"));
+  assert(ofx.trimEnd().endsWith("</OFX>"));
+});
+
+Deno.test("XLSX is a zip whose sheet has date and amount cells and no XML control characters", () => {
+  const bytes = renderXLSX([expense({ description: "bad\u0007char <b>" })]);
+  assertEquals(Array.from(bytes.slice(0, 4)), [0x50, 0x4b, 0x03, 0x04]);
+  const text = new TextDecoder().decode(bytes);
+  for (const entry of ["[Content_Types].xml", "xl/workbook.xml", "xl/styles.xml", "xl/worksheets/sheet1.xml"]) {
+    assert(text.includes(entry), entry);
+  }
+  // Entries are stored uncompressed, so the sheet XML can be read straight from the archive.
+  const sheet = text.slice(text.indexOf("<sheetData>"), text.indexOf("</sheetData>"));
+  // 2026-03-02 is day 46083 of the spreadsheet epoch.
+  assert(sheet.includes(`<c s="1"><v>46083</v></c><c s="2"><v>120</v></c>`));
+  assert(sheet.includes("badchar &lt;b&gt;"));
+  assert(!sheet.includes("\u0007"));
+});
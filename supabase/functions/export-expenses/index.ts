@@ -0,0 +1,188 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ExpenseExportErrorResponse, ExpenseExportFormat, ExpenseExportRequest } from "../_shared/types.ts";
+import { EXPENSE_EXPORT_REQUEST_SCHEMA } from "../_shared/types.ts";
+import { hasPendingDeletion, PENDING_DELETION_ERROR } from "../_shared/account-deletion.ts";
+import { localizeFieldErrors, validateRequestSchema } from "../_shared/validation.ts";
+import {
+  type ExportedExpense,
+  type ExportFilters,
+  renderCSV,
+  renderOFX,
+  renderQIF,
+  renderXLSX,
+  todayKey,
+} from "./formats.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Expose-Headers": "content-disposition",
+};
+
+const EXPORT_COLUMNS =
+  "id, client_expense_id, expense_date, amount, currency, category, description, merchant, payment_method_name, trip_name, source, parse_status, raw_text, captured_at_device, updated_at, home_amount, home_currency";
+const PAGE_SIZE = 1000;
+// XLSX is assembled in memory (the zip needs every entry's size up front); text formats stream without a cap.
+const MAX_XLSX_ROWS = 20_000;
+
+const CONTENT_TYPES: Record<ExpenseExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ofx: "application/x-ofx",
+  qif: "application/qif",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ status: "error", error: "Method not allowed" } satisfies ExpenseExportErrorResponse, 405);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    return json({ status: "error", error: "Missing Supabase env vars" } satisfies ExpenseExportErrorResponse, 500);
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const bearerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!bearerToken) {
+    return json({ status: "error", error: "Unauthorized" } satisfies ExpenseExportErrorResponse, 401);
+  }
+
+  const adminClient = createClient(supabaseUrl, supabaseServiceRoleKey);
+  const { data: authData, error: authError } = await adminClient.auth.getUser(bearerToken);
+  if (authError || !authData.user) {
+    return json(
+      { status: "error", error: authError?.message || "Unauthorized" } satisfies ExpenseExportErrorResponse,
+      401,
+    );
+  }
+  const userID = authData.user.id;
+  if (await hasPendingDeletion(adminClient, userID)) {
+    return json(
+      { status: "error", error: PENDING_DELETION_ERROR } satisfies ExpenseExportErrorResponse,
+      403,
+    );
+  }
+
+  try {
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return json({ status: "error", error: "Body must be JSON" } satisfies ExpenseExportErrorResponse, 400);
+    }
+    const validationErrors = validateRequestSchema(EXPENSE_EXPORT_REQUEST_SCHEMA, payload);
+    if (validationErrors.length > 0) {
+      const errors = localizeFieldErrors(validationErrors, "en");
+      return json({ status: "error", error: errors[0].error, errors } satisfies ExpenseExportErrorResponse, 400);
+    }
+    const body = payload as ExpenseExportRequest;
+    if (body.from && body.to && body.from > body.to) {
+      return json({ status: "error", error: "from must not be after to" } satisfies ExpenseExportErrorResponse, 400);
+    }
+
+    // OFX needs one statement per currency, so it reads oldest-first grouped by currency.
+    const pages = expensePages(adminClient, userID, body, body.format === "ofx" ? "currency" : "newest");
+    // Load the first page before answering, so query errors still come back as JSON.
+    const first = await pages.next();
+    const firstPage = first.done ? [] : first.value;
+    const rows = prepend(firstPage, pages);
+
+    const filename = `speakance-expenses-${todayKey()}.${body.format}`;
+    const headers = {
+      ...corsHeaders,
+      "Content-Type": CONTENT_TYPES[body.format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    };
+
+    if (body.format === "xlsx") {
+      const expenses: ExportedExpense[] = [];
+      for await (const page of rows) {
+        expenses.push(...page);
+        if (expenses.length > MAX_XLSX_ROWS) {
+          return json(
+            {
+              status: "error",
+              error: `XLSX exports are limited to ${MAX_XLSX_ROWS} expenses; narrow the filters or export CSV`,
+            } satisfies ExpenseExportErrorResponse,
+            400,
+          );
+        }
+      }
+      return new Response(renderXLSX(expenses), { status: 200, headers });
+    }
+
+    const text = body.format === "csv"
+      ? renderCSV(rows)
+      : body.format === "qif"
+      ? renderQIF(rows, body)
+      : renderOFX(rows, body);
+    const stream = ReadableStream.from(logStreamErrors(text, userID)).pipeThrough(new TextEncoderStream());
+    return new Response(stream, { status: 200, headers });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return json({ status: "error", error: message } satisfies ExpenseExportErrorResponse, 500);
+  }
+});
+
+async function* expensePages(
+  supabase: ReturnType<typeof createClient>,
+  userID: string,
+  filters: ExportFilters,
+  order: "newest" | "currency",
+): AsyncGenerator<ExportedExpense[]> {
+  for (let offset = 0;; offset += PAGE_SIZE) {
+    let query = supabase.from("expenses").select(EXPORT_COLUMNS).eq("user_id", userID);
+    if (filters.from) query = query.gte("expense_date", filters.from);
+    if (filters.to) query = query.lte("expense_date", filters.to);
+    if (filters.trip_id) query = query.eq("trip_id", filters.trip_id.trim());
+    if (filters.payment_method_id) query = query.eq("payment_method_id", filters.payment_method_id.trim());
+    if (filters.category_id) query = query.eq("category_id", filters.category_id.trim());
+    query = order === "currency"
+      ? query.order("currency").order("expense_date").order("id")
+      : query.order("expense_date", { ascending: false }).order("updated_at", { ascending: false }).order("id");
+
+    const { data, error } = await query.range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    const page = (data ?? []) as ExportedExpense[];
+    if (page.length > 0) yield page;
+    if (page.length < PAGE_SIZE) return;
+  }
+}
+
+async function* prepend(
+  firstPage: ExportedExpense[],
+  rest: AsyncGenerator<ExportedExpense[]>,
+): AsyncGenerator<ExportedExpense[]> {
+  if (firstPage.length === 0) return;
+  yield firstPage;
+  yield* rest;
+}
+
+// Headers are already sent once streaming starts; a failed page can only cut the download short.
+async function* logStreamErrors(chunks: AsyncGenerator<string>, userID: string): AsyncGenerator<string> {
+  try {
+    yield* chunks;
+  } catch (error) {
+    console.error("[export-expenses] export aborted mid-stream", {
+      userID,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+function json(payload: unknown, status = 200): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
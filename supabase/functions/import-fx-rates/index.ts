@@ -0,0 +1,137 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { FxRateImportResponse, FxRateInput } from "../_shared/types.ts";
+import { hasPendingDeletion, PENDING_DELETION_ERROR } from "../_shared/account-deletion.ts";
+import { type ParsedRates, parseCSVRates, parseJSONRates } from "./parsing.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_IMPORT_ROWS = 5000;
+const UPSERT_CHUNK_SIZE = 500;
+const MAX_REPORTED_SKIPS = 50;
+// Matches public.fx_rate and the fx_rates triggers: a rate covers expenses up to 7 days after its date.
+const FX_RATE_MAX_AGE_DAYS = 7;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ status: "error", error: "Method not allowed" } satisfies FxRateImportResponse, 405);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    return json({ status: "error", error: "Missing Supabase env vars" } satisfies FxRateImportResponse, 500);
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const bearerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!bearerToken) {
+    return json({ status: "error", error: "Unauthorized" } satisfies FxRateImportResponse, 401);
+  }
+
+  const adminClient = createClient(supabaseUrl, supabaseServiceRoleKey);
+  const { data: authData, error: authError } = await adminClient.auth.getUser(bearerToken);
+  if (authError || !authData.user) {
+    return json({ status: "error", error: authError?.message || "Unauthorized" } satisfies FxRateImportResponse, 401);
+  }
+  const userID = authData.user.id;
+  if (await hasPendingDeletion(adminClient, userID)) {
+    return json({ status: "error", error: PENDING_DELETION_ERROR } satisfies FxRateImportResponse, 403);
+  }
+
+  try {
+    const contentType = req.headers.get("Content-Type")?.toLowerCase() ?? "";
+    const text = await req.text();
+    let parsed: ParsedRates;
+    if (contentType.includes("text/csv") || contentType.includes("text/plain")) {
+      parsed = parseCSVRates(text);
+    } else {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(text);
+      } catch {
+        return json({ status: "error", error: "Body must be JSON or text/csv" } satisfies FxRateImportResponse, 400);
+      }
+      parsed = parseJSONRates(payload);
+    }
+
+    if (parsed.rates.length === 0) {
+      return json(
+        { status: "error", error: "No valid rates found", skipped: parsed.skipped.slice(0, MAX_REPORTED_SKIPS) } satisfies
+          FxRateImportResponse,
+        400,
+      );
+    }
+    if (parsed.rates.length > MAX_IMPORT_ROWS) {
+      return json(
+        { status: "error", error: `Import exceeds ${MAX_IMPORT_ROWS} rates; split the file` } satisfies FxRateImportResponse,
+        400,
+      );
+    }
+
+    // A file may repeat a pair for the same day; the last row wins, as it would in a sequential load.
+    const deduped = new Map<string, FxRateInput>();
+    for (const rate of parsed.rates) {
+      deduped.set(`${rate.rate_date}:${rate.base_currency}:${rate.quote_currency}`, rate);
+    }
+    const rows = Array.from(deduped.values()).map((rate) => ({ ...rate, user_id: userID, source: "import" }));
+    for (let offset = 0; offset < rows.length; offset += UPSERT_CHUNK_SIZE) {
+      const { error } = await adminClient
+        .from("fx_rates")
+        .upsert(rows.slice(offset, offset + UPSERT_CHUNK_SIZE), {
+          onConflict: "user_id,rate_date,base_currency,quote_currency",
+        });
+      if (error) {
+        console.error("[import-fx-rates] failed to store rates", { userID, message: error.message });
+        return json({ status: "error", error: error.message } satisfies FxRateImportResponse, 500);
+      }
+    }
+
+    // The fx_rates triggers have already recomputed these expenses; count them for the response.
+    const dates = rows.map((row) => row.rate_date).sort();
+    const { count: recomputed, error: countError } = await adminClient
+      .from("expenses")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userID)
+      .gte("expense_date", dates[0])
+      .lte("expense_date", shiftDateKey(dates[dates.length - 1], FX_RATE_MAX_AGE_DAYS));
+    if (countError) {
+      console.error("[import-fx-rates] failed to count recomputed expenses", { userID, message: countError.message });
+    }
+
+    return json(
+      {
+        status: "saved",
+        imported: rows.length,
+        skipped: parsed.skipped.slice(0, MAX_REPORTED_SKIPS),
+        recomputed_expenses: typeof recomputed === "number" ? recomputed : 0,
+      } satisfies FxRateImportResponse,
+      200,
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return json({ status: "error", error: message } satisfies FxRateImportResponse, 500);
+  }
+});
+
+function shiftDateKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function json(payload: unknown, status = 200): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
@@ -0,0 +1,110 @@
+import type { FxRateInput } from "../_shared/types.ts";
+import { normalizeCurrencyCode } from "../_shared/currencies.ts";
+
+export type ParsedRates = {
+  rates: FxRateInput[];
+  skipped: Array<{ row: number; reason: string }>;
+};
+
+// Long format, one rate per line: `date,base,quote,rate` (a header row is required; `;` delimiters and decimal
+// commas are accepted).
+export function parseCSVRates(text: string): ParsedRates {
+  const lines = text.split(/\r?\n/);
+  const headerLine = lines[0] ?? "";
+  const delimiter = headerLine.includes(";") && !headerLine.includes(",") ? ";" : ",";
+  const header = splitCSVLine(headerLine, delimiter).map((cell) => cell.toLowerCase());
+  const column = (...names: string[]) => header.findIndex((cell) => names.includes(cell));
+  const dateIndex = column("date", "rate_date");
+  const baseIndex = column("base", "base_currency", "from");
+  const quoteIndex = column("quote", "quote_currency", "to", "currency");
+  const rateIndex = column("rate", "value");
+  if ([dateIndex, baseIndex, quoteIndex, rateIndex].includes(-1)) {
+    return { rates: [], skipped: [{ row: 1, reason: "Header must name date, base, quote and rate columns" }] };
+  }
+
+  const result: ParsedRates = { rates: [], skipped: [] };
+  for (const [index, line] of lines.entries()) {
+    if (index === 0 || !line.trim()) continue;
+    const cells = splitCSVLine(line, delimiter);
+    const rate = normalizeRateInput({
+      date: cells[dateIndex],
+      base: cells[baseIndex],
+      quote: cells[quoteIndex],
+      rate: cells[rateIndex],
+    });
+    if (typeof rate === "string") {
+      result.skipped.push({ row: index + 1, reason: rate });
+    } else {
+      result.rates.push(rate);
+    }
+  }
+  return result;
+}
+
+function splitCSVLine(line: string, delimiter: string): string[] {
+  return line.split(delimiter).map((cell) => cell.trim().replace(/^"(.*)"$/, "$1").trim());
+}
+
+// Accepts an array of `{ date, base, quote, rate }` rows (or `{ rates: [...] }`), a single-day map
+// `{ base, date, rates: { MXN: 17.1 } }`, or a time series `{ base, rates: { "2026-03-01": { MXN: 17.1 } } }`.
+export function parseJSONRates(payload: unknown): ParsedRates {
+  const result: ParsedRates = { rates: [], skipped: [] };
+  const push = (entry: Record<string, unknown>, row: number) => {
+    const rate = normalizeRateInput({
+      date: entry.date ?? entry.rate_date,
+      base: entry.base ?? entry.base_currency,
+      quote: entry.quote ?? entry.quote_currency,
+      rate: entry.rate,
+    });
+    if (typeof rate === "string") {
+      result.skipped.push({ row, reason: rate });
+    } else {
+      result.rates.push(rate);
+    }
+  };
+
+  const record = payload && typeof payload === "object" ? payload as Record<string, unknown> : null;
+  const list = Array.isArray(payload) ? payload : Array.isArray(record?.rates) ? record.rates as unknown[] : null;
+  if (list) {
+    list.forEach((entry, index) => {
+      push(entry && typeof entry === "object" ? entry as Record<string, unknown> : {}, index + 1);
+    });
+    return result;
+  }
+
+  const rates = record?.rates;
+  if (!record || !rates || typeof rates !== "object") {
+    result.skipped.push({ row: 1, reason: "Expected a list of rates or a { base, rates } object" });
+    return result;
+  }
+  let row = 0;
+  for (const [key, value] of Object.entries(rates as Record<string, unknown>)) {
+    if (value && typeof value === "object") {
+      for (const [quote, rate] of Object.entries(value as Record<string, unknown>)) {
+        push({ date: key, base: record.base, quote, rate }, ++row);
+      }
+    } else {
+      push({ date: record.date, base: record.base, quote: key, rate: value }, ++row);
+    }
+  }
+  return result;
+}
+
+// Returns the normalized rate, or the reason it was rejected.
+function normalizeRateInput(input: { date: unknown; base: unknown; quote: unknown; rate: unknown }): FxRateInput | string {
+  const date = typeof input.date === "string" ? input.date.trim().slice(0, 10) : "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(`${date}T00:00:00Z`))) {
+    return "date must be YYYY-MM-DD";
+  }
+  const base = normalizeCurrencyCode(typeof input.base === "string" ? input.base : null);
+  const quote = normalizeCurrencyCode(typeof input.quote === "string" ? input.quote : null);
+  if (!base || !quote) return "base and quote must be ISO 4217 codes";
+  if (base === quote) return "base and quote must differ";
+  const rate = typeof input.rate === "number"
+    ? input.rate
+    : typeof input.rate === "string"
+    ? Number(input.rate.trim().replace(",", "."))
+    : NaN;
+  if (!Number.isFinite(rate) || rate <= 0) return "rate must be a positive number";
+  return { rate_date: date, base_currency: base, quote_currency: quote, rate };
+}
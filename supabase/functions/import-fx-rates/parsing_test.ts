@@ -0,0 +1,88 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { parseCSVRates, parseJSONRates } from "./parsing.ts";
+
+Deno.test("CSV: reads long-format rows by header name", () => {
+  const parsed = parseCSVRates(
+    "rate_date,quote_currency,base_currency,rate\n2026-03-02,MXN,USD,17.1\n\n2026-03-03,mxn,usd,17.05\n",
+  );
+  assertEquals(parsed, {
+    rates: [
+      { rate_date: "2026-03-02", base_currency: "USD", quote_currency: "MXN", rate: 17.1 },
+      { rate_date: "2026-03-03", base_currency: "USD", quote_currency: "MXN", rate: 17.05 },
+    ],
+    skipped: [],
+  });
+});
+
+Deno.test("CSV: accepts semicolons, quotes and decimal commas", () => {
+  const parsed = parseCSVRates('Date;From;To;Value\r\n"2026-03-02";"EUR";"USD";"1,0842"');
+  assertEquals(parsed.rates, [{ rate_date: "2026-03-02", base_currency: "EUR", quote_currency: "USD", rate: 1.0842 }]);
+});
+
+Deno.test("CSV: skips bad rows by 1-based row number and keeps the rest", () => {
+  const parsed = parseCSVRates([
+    "date,base,quote,rate",
+    "03/02/2026,USD,MXN,17.1",
+    "2026-03-02,USD,XXY,17.1",
+    "2026-03-02,USD,USD,1",
+    "2026-03-02,USD,MXN,-1",
+    "2026-03-02,USD,MXN,17.1",
+  ].join("\n"));
+  assertEquals(parsed.skipped, [
+    { row: 2, reason: "date must be YYYY-MM-DD" },
+    { row: 3, reason: "base and quote must be ISO 4217 codes" },
+    { row: 4, reason: "base and quote must differ" },
+    { row: 5, reason: "rate must be a positive number" },
+  ]);
+  assertEquals(parsed.rates.length, 1);
+});
+
+Deno.test("CSV: a header without the four columns rejects the file", () => {
+  assertEquals(parseCSVRates("day,pair,price\n2026-03-02,USDMXN,17.1"), {
+    rates: [],
+    skipped: [{ row: 1, reason: "Header must name date, base, quote and rate columns" }],
+  });
+});
+
+Deno.test("JSON: reads a list of rows, bare or under rates", () => {
+  const row = { date: "2026-03-02", base: "USD", quote: "MXN", rate: 17.1 };
+  const expected = [{ rate_date: "2026-03-02", base_currency: "USD", quote_currency: "MXN", rate: 17.1 }];
+  assertEquals(parseJSONRates([row]).rates, expected);
+  assertEquals(parseJSONRates({ rates: [row] }).rates, expected);
+  assertEquals(
+    parseJSONRates([{ rate_date: "2026-03-02T00:00:00Z", base_currency: "usd", quote_currency: "mxn", rate: "17.1" }])
+      .rates,
+    expected,
+  );
+});
+
+Deno.test("JSON: reads a single-day map and a time series", () => {
+  assertEquals(parseJSONRates({ base: "EUR", date: "2026-03-02", rates: { USD: 1.08, MXN: 18.5 } }).rates, [
+    { rate_date: "2026-03-02", base_currency: "EUR", quote_currency: "USD", rate: 1.08 },
+    { rate_date: "2026-03-02", base_currency: "EUR", quote_currency: "MXN", rate: 18.5 },
+  ]);
+  assertEquals(
+    parseJSONRates({ base: "EUR", rates: { "2026-03-02": { USD: 1.08 }, "2026-03-03": { USD: 1.09 } } }).rates,
+    [
+      { rate_date: "2026-03-02", base_currency: "EUR", quote_currency: "USD", rate: 1.08 },
+      { rate_date: "2026-03-03", base_currency: "EUR", quote_currency: "USD", rate: 1.09 },
+    ],
+  );
+});
+
+Deno.test("JSON: numbers skipped rows across the whole payload", () => {
+  const parsed = parseJSONRates({ base: "EUR", date: "2026-03-02", rates: { USD: 1.08, EUR: 1, MXN: 0 } });
+  assertEquals(parsed.skipped, [
+    { row: 2, reason: "base and quote must differ" },
+    { row: 3, reason: "rate must be a positive number" },
+  ]);
+});
+
+Deno.test("JSON: anything else is one skipped row", () => {
+  for (const payload of [null, "rates", { base: "EUR" }]) {
+    assertEquals(parseJSONRates(payload), {
+      rates: [],
+      skipped: [{ row: 1, reason: "Expected a list of rates or a { base, rates } object" }],
+    });
+  }
+});
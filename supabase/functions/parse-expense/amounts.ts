@@ -0,0 +1,170 @@
+import { containsCurrencyTerm, findCurrencyMentions } from "../_shared/currencies.ts";
+import { MONTH_PATTERN } from "./dates.ts";
+import { extractSpokenAmounts, parseLocalizedNumberToken } from "./numbers.ts";
+
+export const MAX_EXPENSES_PER_CAPTURE = 5;
+// Amount score that counts as hard evidence on its own (decimals, or a currency nearby).
+export const STRONG_AMOUNT_EVIDENCE_SCORE = 25;
+// Years, dates and implausibly large numbers score at or below this.
+const NOT_AN_AMOUNT_SCORE = -50;
+
+// Verbs that say money changed hands ("paid", "gasté", "costó").
+const AMOUNT_VERB_PATTERN =
+  /(?<!\p{L})(?:paid|pay|spent|spend|cost|costs|charged|pagu[eé]|pag[oó]|pagamos|pagaron|gast[eé]|gast[oó]|gastamos|gastaron|cost[oó]|costaron|sali[oó])(?!\p{L})/iu;
+// Words a price is often followed by; any other word after a bare number makes it a count ("3 playeras").
+const PRICE_FOLLOWING_WORDS = new Set([
+  "for", "at", "in", "on", "to", "from", "with", "by", "each", "per", "total",
+  "en", "de", "del", "con", "por", "para", "a", "al", "cada",
+]);
+// Nouns whose number is a label, not a price: "room 12", "mesa 4".
+const IDENTIFIER_NOUNS = new Set([
+  "room", "table", "gate", "seat", "flight", "terminal", "platform", "line", "number", "no", "#",
+  "habitación", "habitacion", "cuarto", "mesa", "puerta", "asiento", "vuelo", "andén", "anden", "línea", "linea",
+  "número", "numero",
+]);
+
+export type AmountCandidate = {
+  token: string;
+  value: number;
+  score: number;
+  index: number;
+};
+
+export function selectAmountCandidate(rawText: string): AmountCandidate | null {
+  return listAmountCandidates(rawText)[0] ?? null;
+}
+
+// Every plausible amount in the text, best first.
+export function listAmountCandidates(rawText: string): AmountCandidate[] {
+  // Spoken and shorthand amounts ("ciento veinte", "2k", "1.5 mil") own their span; digits inside it are not separate candidates.
+  const spokenAmounts = extractSpokenAmounts(rawText);
+  const digitCandidates = Array.from(
+    rawText.matchAll(/\d{1,3}(?:[.,\s'’]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?/g),
+  ).flatMap((match): Array<{ token: string; value: number; index: number }> => {
+    const token = match[0];
+    const value = parseLocalizedNumberToken(token);
+    const index = match.index ?? -1;
+    if (value === null || index < 0) return [];
+    if (spokenAmounts.some((span) => index < span.index + span.token.length && span.index < index + token.length)) {
+      return [];
+    }
+    return [{ token, value, index }];
+  });
+  const candidates = [...digitCandidates, ...spokenAmounts].map((candidate): AmountCandidate => ({
+    ...candidate,
+    score: scoreAmountCandidate(rawText, candidate.token, candidate.value, candidate.index),
+  }));
+
+  return candidates.sort((a, b) => {
+    if (a.score !== b.score) return b.score - a.score;
+    if (a.value !== b.value) return b.value - a.value;
+    return b.token.length - a.token.length;
+  });
+}
+
+function scoreAmountCandidate(rawText: string, token: string, value: number, index: number): number {
+  let score = 0;
+  if (/[.,]\d{1,2}$/.test(token)) score += 30;
+  if (/[.,\s'’]\d{3}/.test(token)) score += 15;
+
+  const start = Math.max(0, index - 12);
+  const end = Math.min(rawText.length, index + token.length + 12);
+  const contextMentions = findCurrencyMentions(rawText.slice(start, end));
+  if (contextMentions.length > 0) {
+    score += 40;
+  }
+  // A symbol glued to the number ("$200", "200€") is the strongest amount signal.
+  const tokenStart = index - start;
+  const tokenEnd = tokenStart + token.length;
+  if (contextMentions.some((m) => m.index + m.token.length === tokenStart || m.index === tokenEnd)) {
+    score += 25;
+  }
+
+  // A lone small number word ("dos tacos", "five coffees") is usually a quantity, not a price.
+  if (/^\p{L}/u.test(token) && value < 10 && contextMentions.length === 0) {
+    score -= 20;
+  }
+
+  const sanitized = token.replace(/[,\s'’.]/g, "");
+  if (sanitized.length === 4 && value >= 1900 && value <= 2100) {
+    score -= 90;
+  }
+  if (isLikelyDateNumber(rawText, index, token.length)) {
+    score -= 120;
+  }
+  if (value > 500_000) {
+    score -= 50;
+  }
+  return score;
+}
+
+function isLikelyDateNumber(text: string, index: number, length: number): boolean {
+  const start = Math.max(0, index - 8);
+  const end = Math.min(text.length, index + length + 8);
+  const snippet = text.slice(start, end);
+  if (/\d{1,4}\s*[-/]\s*\d{1,2}\s*[-/]\s*\d{1,4}/.test(snippet) || /\d{1,2}\s*[-/]\s*\d{1,2}/.test(snippet)) {
+    return true;
+  }
+
+  // Spoken dates and offsets: "March 3rd", "3 de marzo", "hace 2 días", "3 days ago".
+  const before = text.slice(Math.max(0, index - 16), index).toLowerCase();
+  const after = text.slice(index + length, index + length + 16).toLowerCase();
+  return /^(?:st|nd|rd|th)(?![a-z])/.test(after)
+    || new RegExp(`^\\s+(?:of\\s+|de\\s+)?(?:${MONTH_PATTERN})(?![\\p{L}])`, "u").test(after)
+    || new RegExp(`(?:^|[^\\p{L}])(?:${MONTH_PATTERN})\\.?\\s+(?:the\\s+)?$`, "u").test(before)
+    || /^\s+(?:days?|weeks?|d[ií]as?|semanas?)(?![a-z])/.test(after);
+}
+
+export function splitCompoundUtterance(rawText: string): string[] {
+  // Clause boundaries: list commas/semicolons (not thousands separators) and EN/ES conjunctions.
+  // Connectors inside a spoken amount ("treinta y cinco") never split it.
+  const spokenAmounts = extractSpokenAmounts(rawText);
+  const separators = /\s*[;]\s*|(?<!\d),\s*|,(?=\s)\s*|\s+(?:and then|and also|and|then|y luego|y también|y|luego|also|también|ademas|además)\s+/gi;
+  const rawClauses: string[] = [];
+  let clauseStart = 0;
+  for (const match of rawText.matchAll(separators)) {
+    const index = match.index ?? 0;
+    if (spokenAmounts.some((span) => index >= span.index && index < span.index + span.token.length)) continue;
+    rawClauses.push(rawText.slice(clauseStart, index));
+    clauseStart = index + match[0].length;
+  }
+  rawClauses.push(rawText.slice(clauseStart));
+  const clauses = rawClauses.map((clause) => clause.trim()).filter(Boolean);
+  if (clauses.length < 2) return [rawText.trim()];
+
+  // Clauses without their own amount ("on the Amex", "with friends") belong to the expense before them.
+  const segments: string[] = [];
+  let pendingPrefix = "";
+  for (const clause of clauses) {
+    if (!clauseHasAmountEvidence(clause)) {
+      if (segments.length > 0) {
+        segments[segments.length - 1] = `${segments[segments.length - 1]} ${clause}`;
+      } else {
+        pendingPrefix = `${pendingPrefix} ${clause}`.trim();
+      }
+      continue;
+    }
+    segments.push(pendingPrefix ? `${pendingPrefix} ${clause}` : clause);
+    pendingPrefix = "";
+  }
+
+  if (segments.length < 2) return [rawText.trim()];
+  return segments.slice(0, MAX_EXPENSES_PER_CAPTURE);
+}
+
+// A clause only becomes its own expense when a number in it reads as money. Bare counts ("3 personas", "2 tacos")
+// and identifiers ("room 12") do not, so "fuimos 3 personas y gastamos 450" stays one expense.
+function clauseHasAmountEvidence(clause: string): boolean {
+  const candidates = listAmountCandidates(clause).filter((candidate) => candidate.score > NOT_AN_AMOUNT_SCORE);
+  if (candidates.length === 0) return false;
+  if (candidates.some((candidate) => candidate.score >= STRONG_AMOUNT_EVIDENCE_SCORE)) return true;
+  if (containsCurrencyTerm(clause) || AMOUNT_VERB_PATTERN.test(clause)) return true;
+  return candidates.some((candidate) => !isCountOrIdentifier(clause, candidate));
+}
+
+function isCountOrIdentifier(text: string, candidate: AmountCandidate): boolean {
+  const before = text.slice(0, candidate.index).toLowerCase().match(/(\p{L}+|#)\s*$/u)?.[1];
+  if (before && IDENTIFIER_NOUNS.has(before)) return true;
+  const after = text.slice(candidate.index + candidate.token.length).toLowerCase().match(/^\s+(\p{L}+)/u)?.[1];
+  return after !== undefined && !PRICE_FOLLOWING_WORDS.has(after);
+}
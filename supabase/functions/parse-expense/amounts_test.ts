@@ -0,0 +1,63 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { selectAmountCandidate, splitCompoundUtterance } from "./amounts.ts";
+
+Deno.test("splits a list of purchases that each name their own price", () => {
+  assertEquals(splitCompoundUtterance("uber 120 and coffee 80"), ["uber 120", "coffee 80"]);
+  assertEquals(splitCompoundUtterance("taxi 120 pesos, café 45.50; propina 20"), ["taxi 120 pesos", "café 45.50", "propina 20"]);
+  assertEquals(splitCompoundUtterance("pagué 300 de gasolina y gasté 150 en el súper"), [
+    "pagué 300 de gasolina",
+    "gasté 150 en el súper",
+  ]);
+});
+
+Deno.test("counts, party sizes and labels never split a capture", () => {
+  const single: Array<[string, number]> = [
+    ["2 tacos y 1 refresco por 85", 85],
+    ["fuimos 3 personas y gastamos 450 en cena", 450],
+    ["dinner for 4 people and it was 1200", 1200],
+    ["compré 3 playeras y pagué 900 con la visa", 900],
+    ["room 12 and breakfast 250", 250],
+  ];
+  for (const [text, amount] of single) {
+    assertEquals(splitCompoundUtterance(text), [text]);
+    assertEquals(selectAmountCandidate(text)?.value, amount);
+  }
+});
+
+Deno.test("a clause without an amount stays with the expense next to it", () => {
+  assertEquals(splitCompoundUtterance("lunch 15 with friends and then parking 4 on the Amex"), [
+    "lunch 15 with friends",
+    "parking 4 on the Amex",
+  ]);
+});
+
+Deno.test("thousands separators and dates are not clause boundaries or amounts", () => {
+  assertEquals(splitCompoundUtterance("rent 1,200 and internet 45"), ["rent 1,200", "internet 45"]);
+  assertEquals(selectAmountCandidate("groceries 2026-03-02 84.50")?.value, 84.5);
+  assertEquals(selectAmountCandidate("hotel 1.234,50")?.value, 1234.5);
+});
+
+Deno.test("a capture never splits into more than five expenses", () => {
+  const text = ["a 1.50", "b 2.50", "c 3.50", "d 4.50", "e 5.50", "f 6.50"].join(", ");
+  assertEquals(splitCompoundUtterance(text).length, 5);
+});
+
+Deno.test("day numbers in spoken dates and offsets are not amounts", () => {
+  assertEquals(selectAmountCandidate("tacos 20 el 30 de marzo")?.value, 20);
+  assertEquals(selectAmountCandidate("March 21st dinner 15")?.value, 15);
+  assertEquals(selectAmountCandidate("parking 4 hace 9 días")?.value, 4);
+  assertEquals(splitCompoundUtterance("cena el 14 de febrero"), ["cena el 14 de febrero"]);
+});
+
+Deno.test("a currency next to a number outranks a bigger bare number", () => {
+  assertEquals(selectAmountCandidate("tip $15 on the 120 bill")?.value, 15);
+  assertEquals(selectAmountCandidate("gate 250, paid 38 euros")?.value, 38);
+  assertEquals(splitCompoundUtterance("tacos 120 varos y 2 aguas"), ["tacos 120 varos y 2 aguas"]);
+});
+
+Deno.test("spoken amounts split like digits, spoken counts do not", () => {
+  assertEquals(splitCompoundUtterance("uber ciento veinte y café ochenta"), ["uber ciento veinte", "café ochenta"]);
+  assertEquals(splitCompoundUtterance("dos tacos y un refresco por ochenta"), ["dos tacos y un refresco por ochenta"]);
+  assertEquals(selectAmountCandidate("dos tacos y un refresco por ochenta")?.value, 80);
+  assertEquals(selectAmountCandidate("treinta y cinco de propina")?.value, 35);
+});
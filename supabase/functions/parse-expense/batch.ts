@@ -0,0 +1,48 @@
+import type { ParseExpenseBatchRequest, ParseExpenseRequest } from "../_shared/types.ts";
+
+export function isBatchRequest(payload: unknown): payload is ParseExpenseBatchRequest {
+  return Boolean(payload) && typeof payload === "object" && Array.isArray((payload as { items?: unknown }).items);
+}
+
+// Oldest capture first; captures from the same moment keep their queue order.
+export function orderBatchItems(items: ParseExpenseRequest[]): Array<{ item: ParseExpenseRequest; index: number }> {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => captureTimeForOrdering(a.item) - captureTimeForOrdering(b.item) || a.index - b.index);
+}
+
+// Unparseable capture times sort last.
+function captureTimeForOrdering(item: ParseExpenseRequest | null | undefined): number {
+  const time = Date.parse(item?.captured_at_device ?? "");
+  return Number.isNaN(time) ? Number.POSITIVE_INFINITY : time;
+}
+
+// Orders quota reservations across concurrently running batch items: an item reserves once the item before it
+// has reserved or dropped out, so slots go to captures in capture order.
+export type QuotaTurn = {
+  ready: Promise<void>;
+  passed: Promise<void>;
+  pass: () => void;
+};
+
+export function quotaTurnAfter(previous: QuotaTurn | null): QuotaTurn {
+  let pass = () => {};
+  const passed = new Promise<void>((resolve) => {
+    pass = resolve;
+  });
+  return { ready: previous?.passed ?? Promise.resolve(), passed, pass };
+}
+
+// Runs tasks with at most `limit` in flight; results keep the order of `tasks`.
+export async function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const current = next++;
+      results[current] = await tasks[current]();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+  return results;
+}
@@ -0,0 +1,66 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import type { ParseExpenseRequest } from "../_shared/types.ts";
+import { isBatchRequest, orderBatchItems, quotaTurnAfter, runWithConcurrency } from "./batch.ts";
+
+function capture(id: string, capturedAt: string): ParseExpenseRequest {
+  return {
+    client_expense_id: id,
+    source: "voice",
+    raw_text: "tacos 120",
+    captured_at_device: capturedAt,
+  } as ParseExpenseRequest;
+}
+
+Deno.test("a body with an items array is a batch", () => {
+  assertEquals(isBatchRequest({ items: [] }), true);
+  assertEquals(isBatchRequest({ client_expense_id: "a", source: "text" }), false);
+  assertEquals(isBatchRequest({ items: "nope" }), false);
+  assertEquals(isBatchRequest(null), false);
+});
+
+Deno.test("batch items run oldest capture first, ties and bad timestamps keep queue order", () => {
+  const items = [
+    capture("c", "2026-03-09T12:00:00Z"),
+    capture("bad", "not a date"),
+    capture("a", "2026-03-09T08:00:00-06:00"),
+    capture("b", "2026-03-09T14:00:00Z"),
+    capture("d", "2026-03-09T12:00:00Z"),
+  ];
+  assertEquals(orderBatchItems(items).map(({ item, index }) => [item.client_expense_id, index]), [
+    ["c", 0],
+    ["d", 4],
+    ["a", 2],
+    ["b", 3],
+    ["bad", 1],
+  ]);
+});
+
+Deno.test("runWithConcurrency caps tasks in flight and keeps result order", async () => {
+  let inFlight = 0;
+  let peak = 0;
+  const tasks = [30, 5, 20, 1, 10].map((delay, index) => async () => {
+    inFlight += 1;
+    peak = Math.max(peak, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    inFlight -= 1;
+    return index;
+  });
+  assertEquals(await runWithConcurrency(tasks, 2), [0, 1, 2, 3, 4]);
+  assertEquals(peak, 2);
+  assertEquals(await runWithConcurrency([], 3), []);
+});
+
+Deno.test("quota turns pass in order, whichever item finishes first", async () => {
+  const first = quotaTurnAfter(null);
+  const second = quotaTurnAfter(first);
+  const third = quotaTurnAfter(second);
+  const reserved: string[] = [];
+  const item = async (name: string, turn: typeof first, delay: number) => {
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    await turn.ready;
+    reserved.push(name);
+    turn.pass();
+  };
+  await Promise.all([item("third", third, 0), item("second", second, 5), item("first", first, 15)]);
+  assertEquals(reserved, ["first", "second", "third"]);
+});
@@ -0,0 +1,231 @@
+import type { ExpenseDateRule } from "../_shared/types.ts";
+
+const MONTH_NUMBERS: Record<string, number> = {
+  january: 1, jan: 1, enero: 1, ene: 1,
+  february: 2, feb: 2, febrero: 2,
+  march: 3, marzo: 3,
+  april: 4, apr: 4, abril: 4, abr: 4,
+  may: 5, mayo: 5,
+  june: 6, jun: 6, junio: 6,
+  july: 7, jul: 7, julio: 7,
+  august: 8, aug: 8, agosto: 8,
+  september: 9, sept: 9, sep: 9, septiembre: 9, setiembre: 9,
+  october: 10, oct: 10, octubre: 10,
+  november: 11, nov: 11, noviembre: 11,
+  december: 12, dec: 12, diciembre: 12, dic: 12,
+};
+
+const WEEKDAY_NUMBERS: Record<string, number> = {
+  sunday: 0, domingo: 0,
+  monday: 1, lunes: 1,
+  tuesday: 2, martes: 2,
+  wednesday: 3, "miércoles": 3, miercoles: 3,
+  thursday: 4, jueves: 4,
+  friday: 5, viernes: 5,
+  saturday: 6, "sábado": 6, sabado: 6,
+};
+
+const SMALL_NUMBER_WORDS: Record<string, number> = {
+  a: 1, one: 1, un: 1, uno: 1, una: 1,
+  two: 2, dos: 2,
+  three: 3, tres: 3,
+  four: 4, cuatro: 4,
+  five: 5, cinco: 5,
+  six: 6, seis: 6,
+  seven: 7, siete: 7,
+};
+
+// Ordered: longer/more specific phrases first so "antes de ayer" wins over "ayer".
+const RELATIVE_DAY_PHRASES: Array<{ pattern: string; offset: number; evening?: boolean }> = [
+  { pattern: "day before yesterday|antes de ayer|anteayer|antier", offset: -2 },
+  { pattern: "last night|yesterday night|anoche|ayer en la noche|ayer por la noche", offset: -1 },
+  { pattern: "yesterday|ayer", offset: -1 },
+  { pattern: "tonight|this evening|esta noche|hoy en la noche|hoy por la noche", offset: 0, evening: true },
+  { pattern: "today|this morning|hoy|esta mañana", offset: 0 },
+];
+
+// Captures before this local hour still belong to the previous evening ("tonight" said at 1am).
+const EARLY_MORNING_CUTOFF_HOUR = 5;
+
+export const MONTH_PATTERN = Object.keys(MONTH_NUMBERS).sort((a, b) => b.length - a.length).join("|");
+const WEEKDAY_PATTERN = Object.keys(WEEKDAY_NUMBERS).sort((a, b) => b.length - a.length).join("|");
+const SMALL_NUMBER_PATTERN = Object.keys(SMALL_NUMBER_WORDS).join("|");
+
+type ExpenseDateResolution = {
+  date: string;
+  phrase: string | null;
+  rule: ExpenseDateRule;
+  rejectedFutureDate: boolean;
+};
+
+export function inferExpenseDate(
+  rawText: string,
+  capturedAtDevice: string,
+  timezone = "UTC",
+  // Decides between month-first and day-first numeric dates ("3/4").
+  language: "en" | "es" = "en",
+): ExpenseDateResolution {
+  const captured = new Date(capturedAtDevice);
+  const base = Number.isNaN(captured.getTime()) ? new Date() : captured;
+  const captureDate = dateKeyInTimeZone(base, timezone);
+  const resolved = resolveDatePhrase(rawText, {
+    captureDate,
+    captureHour: hourInTimeZone(base, timezone),
+    language,
+  });
+  if (!resolved) {
+    return { date: captureDate, phrase: null, rule: "capture_date", rejectedFutureDate: false };
+  }
+  if (resolved.date > captureDate) {
+    return { date: captureDate, phrase: resolved.phrase, rule: "capture_date", rejectedFutureDate: true };
+  }
+  return { ...resolved, rejectedFutureDate: false };
+}
+
+function resolveDatePhrase(
+  rawText: string,
+  ctx: { captureDate: string; captureHour: number; language: "en" | "es" },
+): { date: string; phrase: string; rule: ExpenseDateRule } | null {
+  const lower = rawText.toLowerCase();
+
+  const iso = lower.match(/(?<!\d)(\d{4})-(\d{1,2})-(\d{1,2})(?!\d)/);
+  if (iso) {
+    const date = buildDateKey(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    if (date) return { date, phrase: iso[0], rule: "absolute_date" };
+  }
+
+  const monthFirst = lower.match(wordRegex(
+    `(${MONTH_PATTERN})\\.?\\s+(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(?:de(?:l)?\\s+)?(\\d{4}))?`,
+  ));
+  if (monthFirst) {
+    const date = resolveMonthDay(MONTH_NUMBERS[monthFirst[1]], Number(monthFirst[2]), monthFirst[3], ctx.captureDate);
+    if (date) return { date, phrase: monthFirst[0], rule: "absolute_date" };
+  }
+
+  const dayFirst = lower.match(wordRegex(
+    `(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+|de\\s+)?(${MONTH_PATTERN})(?:,?\\s+(?:de(?:l)?\\s+)?(\\d{4}))?`,
+  ));
+  if (dayFirst) {
+    const date = resolveMonthDay(MONTH_NUMBERS[dayFirst[2]], Number(dayFirst[1]), dayFirst[3], ctx.captureDate);
+    if (date) return { date, phrase: dayFirst[0], rule: "absolute_date" };
+  }
+
+  const numeric = lower.match(/(?<![\d.,])(\d{1,2})[/-](\d{1,2})(?:[/-](\d{2}|\d{4}))?(?![\d.,])/);
+  if (numeric) {
+    const first = Number(numeric[1]);
+    const second = Number(numeric[2]);
+    // Month-first unless a part can only be a day or the speaker is using Spanish (day-first) order.
+    const dayFirstOrder = first > 12 || (second <= 12 && ctx.language === "es");
+    const month = dayFirstOrder ? second : first;
+    const day = dayFirstOrder ? first : second;
+    const year = numeric[3] ? (numeric[3].length === 2 ? `20${numeric[3]}` : numeric[3]) : undefined;
+    const date = resolveMonthDay(month, day, year, ctx.captureDate);
+    if (date) return { date, phrase: numeric[0], rule: "absolute_date" };
+  }
+
+  for (const entry of RELATIVE_DAY_PHRASES) {
+    const match = lower.match(wordRegex(`(?:${entry.pattern})`));
+    if (!match) continue;
+    const earlyMorning = entry.evening && ctx.captureHour < EARLY_MORNING_CUTOFF_HOUR;
+    return {
+      date: shiftDateKey(ctx.captureDate, entry.offset - (earlyMorning ? 1 : 0)),
+      phrase: match[0],
+      rule: "relative_day",
+    };
+  }
+
+  const daysAgo = lower.match(wordRegex(`(\\d{1,2}|${SMALL_NUMBER_PATTERN})\\s+(days?|weeks?)\\s+ago`))
+    ?? lower.match(wordRegex(`hace\\s+(\\d{1,2}|${SMALL_NUMBER_PATTERN})\\s+(d[ií]as?|semanas?)`));
+  if (daysAgo) {
+    const count = /^\d+$/.test(daysAgo[1]) ? Number(daysAgo[1]) : SMALL_NUMBER_WORDS[daysAgo[1]] ?? 0;
+    const unitDays = /^(?:week|semana)/.test(daysAgo[2]) ? 7 : 1;
+    if (count > 0) {
+      return { date: shiftDateKey(ctx.captureDate, -count * unitDays), phrase: daysAgo[0], rule: "days_ago" };
+    }
+  }
+
+  const pastWeekday = lower.match(wordRegex(`(?:last|this past)\\s+(${WEEKDAY_PATTERN})`))
+    ?? lower.match(wordRegex(`(?:el\\s+)?(${WEEKDAY_PATTERN})\\s+pasado`));
+  const weekday = pastWeekday ?? lower.match(wordRegex(`(?:on\\s+|el\\s+)?(${WEEKDAY_PATTERN})`));
+  if (weekday) {
+    const target = WEEKDAY_NUMBERS[weekday[1]];
+    const current = new Date(`${ctx.captureDate}T00:00:00Z`).getUTCDay();
+    let back = (current - target + 7) % 7;
+    // "last Friday" said on a Friday means a week ago; a bare "Friday" means today.
+    if (back === 0 && pastWeekday) back = 7;
+    return { date: shiftDateKey(ctx.captureDate, -back), phrase: weekday[0], rule: "weekday" };
+  }
+
+  return null;
+}
+
+function resolveMonthDay(
+  month: number | undefined,
+  day: number,
+  yearText: string | undefined,
+  captureDate: string,
+): string | null {
+  if (!month) return null;
+  if (yearText) return buildDateKey(Number(yearText), month, day);
+  // Without a year, pick the most recent occurrence that is not after the capture date.
+  const captureYear = Number(captureDate.slice(0, 4));
+  const thisYear = buildDateKey(captureYear, month, day);
+  if (!thisYear) return null;
+  return thisYear <= captureDate ? thisYear : buildDateKey(captureYear - 1, month, day);
+}
+
+function buildDateKey(year: number, month: number, day: number): string | null {
+  if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) return null;
+  if (year < 1900 || month < 1 || month > 12 || day < 1) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+export function weekdayName(dateKey: string): string {
+  return new Date(`${dateKey}T00:00:00Z`).toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" });
+}
+
+function shiftDateKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function hourInTimeZone(date: Date, timeZone: string): number {
+  try {
+    const hour = new Intl.DateTimeFormat("en-US", { timeZone, hour: "numeric", hourCycle: "h23" })
+      .formatToParts(date)
+      .find((p) => p.type === "hour")?.value;
+    return hour ? Number(hour) % 24 : date.getUTCHours();
+  } catch {
+    return date.getUTCHours();
+  }
+}
+
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function wordRegex(pattern: string): RegExp {
+  // \b does not treat accented letters as word characters, so use Unicode-aware boundaries.
+  return new RegExp(`(?<![\\p{L}\\d])${pattern}(?![\\p{L}\\d])`, "iu");
+}
+
+export function dateKeyInTimeZone(date: Date, timeZone: string): string {
+  try {
+    const formatter = new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+    const parts = formatter.formatToParts(date);
+    const year = parts.find((p) => p.type === "year")?.value ?? "1970";
+    const month = parts.find((p) => p.type === "month")?.value ?? "01";
+    const day = parts.find((p) => p.type === "day")?.value ?? "01";
+    return `${year}-${month}-${day}`;
+  } catch {
+    return date.toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,80 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { inferExpenseDate } from "./dates.ts";
+
+// Monday 2026-03-09, 14:30 in Mexico City.
+const CAPTURED = "2026-03-09T14:30:00-06:00";
+const TZ = "America/Mexico_City";
+
+function resolve(text: string, language: "en" | "es" = "en", capturedAt = CAPTURED) {
+  return inferExpenseDate(text, capturedAt, TZ, language);
+}
+
+Deno.test("no date phrase keeps the capture date in the capture timezone", () => {
+  assertEquals(resolve("tacos 120"), {
+    date: "2026-03-09",
+    phrase: null,
+    rule: "capture_date",
+    rejectedFutureDate: false,
+  });
+  // 02:00 UTC on the 10th is still the 9th in Mexico City.
+  assertEquals(resolve("tacos 120", "en", "2026-03-10T02:00:00Z").date, "2026-03-09");
+});
+
+Deno.test("relative days in English and Spanish", () => {
+  assertEquals(resolve("coffee yesterday").date, "2026-03-08");
+  assertEquals(resolve("café ayer", "es").date, "2026-03-08");
+  assertEquals(resolve("uber antier", "es").date, "2026-03-07");
+  assertEquals(resolve("cena anoche", "es"), {
+    date: "2026-03-08",
+    phrase: "anoche",
+    rule: "relative_day",
+    rejectedFutureDate: false,
+  });
+});
+
+Deno.test("tonight said before 5am belongs to the previous evening", () => {
+  assertEquals(resolve("drinks tonight", "en", "2026-03-10T01:30:00-06:00").date, "2026-03-09");
+  assertEquals(resolve("drinks tonight", "en", "2026-03-10T20:30:00-06:00").date, "2026-03-10");
+});
+
+Deno.test("days and weeks ago", () => {
+  assertEquals(resolve("gas 3 days ago"), {
+    date: "2026-03-06",
+    phrase: "3 days ago",
+    rule: "days_ago",
+    rejectedFutureDate: false,
+  });
+  assertEquals(resolve("gasolina hace dos semanas", "es").date, "2026-02-23");
+});
+
+Deno.test("weekdays resolve to the most recent one, a week back for last", () => {
+  assertEquals(resolve("lunch on Friday"), {
+    date: "2026-03-06",
+    phrase: "on friday",
+    rule: "weekday",
+    rejectedFutureDate: false,
+  });
+  assertEquals(resolve("lunch monday").date, "2026-03-09");
+  assertEquals(resolve("lunch last monday").date, "2026-03-02");
+  assertEquals(resolve("comida el sábado pasado", "es").date, "2026-03-07");
+});
+
+Deno.test("month names, numeric dates and ISO dates", () => {
+  assertEquals(resolve("hotel March 3rd").date, "2026-03-03");
+  assertEquals(resolve("hotel 3 de marzo", "es").date, "2026-03-03");
+  assertEquals(resolve("hotel December 24").date, "2025-12-24");
+  assertEquals(resolve("hotel 2026-02-14").rule, "absolute_date");
+  // Month-first in English, day-first in Spanish unless a part can only be a day.
+  assertEquals(resolve("hotel 3/2").date, "2026-03-02");
+  assertEquals(resolve("hotel 3/2", "es").date, "2026-02-03");
+  assertEquals(resolve("hotel 14/2", "en").date, "2026-02-14");
+});
+
+Deno.test("a date after the capture day falls back to the capture date", () => {
+  assertEquals(resolve("flight 2026-03-20"), {
+    date: "2026-03-09",
+    phrase: "2026-03-20",
+    rule: "capture_date",
+    rejectedFutureDate: true,
+  });
+});
@@ -1,9 +1,72 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import type {
+  ParseExpenseBatchItemResult,
+  ParseExpenseBatchRequest,
+  ParseExpenseBatchResponse,
   ParseExpenseRequest,
   ParseExpenseResponse,
+  ParseExpenseSavedExpense,
+  ParseUsageSummary,
   ParsedExpense,
+  ParseExplanation,
 } from "../_shared/types.ts";
+import { PARSE_EXPENSE_REQUEST_SCHEMA } from "../_shared/types.ts";
+import {
+  containsCurrencyTerm,
+  type CurrencyMention,
+  type CurrencyPreferences,
+  dollarSignCurrency,
+  findCurrencyMentions,
+  normalizeCurrencyCode,
+  pesoCurrency,
+  stripCurrencyTerms,
+} from "../_shared/currencies.ts";
+import { type AIUsage, emptyUsage, estimateCostUSD } from "../_shared/ai-pricing.ts";
+import {
+  type ErrorDescriptor,
+  localizeError,
+  type MessageLanguage,
+  normalizeMessageLanguage,
+} from "../_shared/errors.ts";
+import { hasPendingDeletion } from "../_shared/account-deletion.ts";
+import { localizeFieldErrors, validateRequestSchema } from "../_shared/validation.ts";
+import { loadPlanLimits, type PlanLimits, type QuotaKind, quotaTimeZone, resolveTimeZone } from "../_shared/quota.ts";
+import { MAX_EXPENSES_PER_CAPTURE, selectAmountCandidate, splitCompoundUtterance } from "./amounts.ts";
+import { isBatchRequest, orderBatchItems, type QuotaTurn, quotaTurnAfter, runWithConcurrency } from "./batch.ts";
+import { dateKeyInTimeZone, escapeRegex, inferExpenseDate, weekdayName } from "./dates.ts";
+import {
+  applyMerchantMemory,
+  buildMerchantMemory,
+  type MerchantMemory,
+  type MerchantRow,
+} from "./merchant-memory.ts";
+import { clamp, extractSpokenAmounts } from "./numbers.ts";
+import {
+  type DeterministicParse,
+  explainParseOutcome,
+  type ParseOutcome,
+  reconcileParseOutcome,
+} from "./outcomes.ts";
+import { type ExpenseParserProvider, resolveExpenseParserProvider } from "./parsers.ts";
+import { quotaErrorKey, type QuotaSlot, settledUsage, type UsageCounts, usageCountsFromRow, usageSummary } from "./quota.ts";
+import {
+  describeReceipt,
+  RECEIPT_PHOTOS_BUCKET,
+  type ReceiptExtraction,
+  type ReceiptRead,
+  readReceiptFromStorage,
+  resolveReceiptVisionProvider,
+  type ReceiptVisionProviderResolution,
+} from "./receipts.ts";
+import { type ProtectedCapture, protectedCapture, type StoredExpense } from "./replays.ts";
+import {
+  resolveTranscriptionProvider,
+  transcribeVoiceCaptureFromStorage,
+  transcriptConfidence,
+  type TranscriptionProviderResolution,
+  type TranscriptionResult,
+} from "./transcription.ts";
+import { activeTripForDate, type ActiveTrip, inferExpenseTrip, toActiveTrips, type TripRow } from "./trips.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,13 +74,19 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
-const MAX_VOICE_SECONDS = 15;
-const DEFAULT_DAILY_VOICE_LIMIT = 50;
 const AUTO_SAVE_CONFIDENCE_THRESHOLD = 0.9;
-const OPENAI_MODEL = "gpt-4o-mini";
-const OPENAI_TRANSCRIBE_MODEL = "whisper-1";
+const LOW_TRANSCRIPT_CONFIDENCE = 0.6;
+const MAX_MERCHANT_MEMORY_ROWS = 500;
+const MAX_BATCH_ITEMS = 25;
+// Receipt reads the vision model did not score go through review.
+const DEFAULT_RECEIPT_CONFIDENCE = 0.85;
+// Items processed at once in a batch; each runs its own transcription and parser calls.
+const BATCH_CONCURRENCY = 3;
 const VOICE_CAPTURES_BUCKET = "voice-captures";
 const PRIMARY_AUTH_STRATEGY = "adminClient.auth.getUser";
+// Also the `returning` list of public.save_parsed_expenses; change both together.
+const SAVED_EXPENSE_COLUMNS =
+  "id, client_expense_id, amount, currency, category, category_id, description, merchant, expense_date, source, parse_status, trip_id, trip_name, payment_method_id, payment_method_name, line_items, charged_amount, charged_currency, home_amount, home_currency, trip_amount, trip_currency";
 
 const DEFAULT_CATEGORY_NAMES = [
   "Food",
@@ -106,9 +175,11 @@ const CATEGORY_ALIASES: Record<string, string> = Object.fromEntries(
 ) as Record<string, string>;
 
 type ProfileRow = {
+  // Per-user override of the plan's daily voice limit.
   daily_voice_limit: number | null;
   timezone: string | null;
   default_currency: string | null;
+  plan_id: string | null;
 };
 
 type CategoryRow = {
@@ -144,62 +215,66 @@ type ParserCategoryContext = {
   hintsByCategoryName: Record<string, string[]>;
 };
 
-type ParserPaymentMethodContext = {
-  methodsById: Map<string, { id: string; name: string }>;
-  aliasToMethodIDs: Map<string, string[]>;
+// Per-user state loaded once per request and shared by every item of a batch.
+type ParseContext = {
+  adminClient: ReturnType<typeof createClient>;
+  userID: string;
+  profile: ProfileRow | null;
+  parserCategoryContext: ParserCategoryContext;
+  parserPaymentMethodContext: ParserPaymentMethodContext;
+  merchantMemory: MerchantMemory;
+  activeTrips: ActiveTrip[];
+  limits: PlanLimits;
+  profileTimezone: string | null;
+  quotaTimeZone: string;
+  transcription: TranscriptionProviderResolution;
+  receiptVision: ReceiptVisionProviderResolution;
+  parserProvider: ExpenseParserProvider | null;
 };
 
-type DeterministicParse = {
-  parsed: ParsedExpense;
-  confidence: number;
-  metadata: {
-    hasAmount: boolean;
-    amountToken: string | null;
-    amountScore: number;
-    hasExplicitCurrency: boolean;
-    usedDefaultCurrency: boolean;
-    hasExplicitCategory: boolean;
-    tokenCount: number;
-  };
+// Lets processParseExpense release the slot parseAndSaveExpense reserved, however the capture ends.
+type QuotaHold = { slot: QuotaSlot | null; turn: QuotaTurn | null };
+
+type ParseResult = {
+  httpStatus: number;
+  response: ParseExpenseResponse;
 };
 
-type ParseOutcome = {
-  parsed: ParsedExpense;
-  confidence: number;
-  provider: string;
-  model: string;
+type TripRef = {
+  id: string;
+  name: string;
+  baseCurrency: string | null;
+};
+
+type ParserPaymentMethodContext = {
+  methodsById: Map<string, { id: string; name: string }>;
+  aliasToMethodIDs: Map<string, string[]>;
 };
 
 Deno.serve(async (req) => {
-  let cleanupClient: ReturnType<typeof createClient> | null = null;
-  let cleanupBody: ParseExpenseRequest | null = null;
-  let cleanupUserID: string | null = null;
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
   }
 
+  let language: MessageLanguage = "en";
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY");
     const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    const openAiApiKey = Deno.env.get("OPENAI_API_KEY");
+
+    // Read first so even auth errors come back in the caller's language.
+    const payload = await req.json().catch(() => null) as ParseExpenseRequest | ParseExpenseBatchRequest | null;
+    language = normalizeMessageLanguage(payload?.language_hint);
 
     if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceRoleKey) {
-      return json(
-        { status: "error", error: "Missing Supabase env vars" } satisfies ParseExpenseResponse,
-        500,
-      );
+      return json(errorResponse({ key: "missing_env" }, language), 500);
     }
 
     const authHeader = req.headers.get("Authorization") ?? "";
     const bearerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
     const adminClient = createClient(supabaseUrl, supabaseServiceRoleKey);
-    cleanupClient = adminClient;
     if (!bearerToken) {
-      return json(
-        { status: "error", error: "Unauthorized" } satisfies ParseExpenseResponse,
-        401,
-      );
+      return json(errorResponse({ key: "unauthorized" }, language), 401);
     }
 
     const authResolution = await validateUserFromBearerToken({
@@ -218,7 +293,7 @@ Deno.serve(async (req) => {
         },
       );
       return json(
-        { status: "error", error: authResolution.error || "Unauthorized" } satisfies ParseExpenseResponse,
+        errorResponse({ key: "auth_rejected", params: { detail: authResolution.error || "Unauthorized" } }, language),
         401,
       );
     }
@@ -233,226 +308,572 @@ Deno.serve(async (req) => {
       console.log("[parse-expense] auth validation succeeded", authLog);
     }
     const user = authResolution.user;
-    cleanupUserID = user.id;
-
-    const body = (await req.json()) as ParseExpenseRequest;
-    cleanupBody = body;
-    const validationError = validateRequest(body);
-    if (validationError) {
-      return json(
-        { status: "error", error: validationError } satisfies ParseExpenseResponse,
-        400,
-      );
+    if (await hasPendingDeletion(adminClient, user.id)) {
+      return json(errorResponse({ key: "account_pending_deletion" }, language), 403);
     }
 
-    const profile = await getProfile(adminClient, user.id);
-    const [parserCategoryContext, parserPaymentMethodContext] = await Promise.all([
-      loadParserCategoryContext(adminClient, user.id),
-      loadPaymentMethodContext(adminClient, user.id),
-    ]);
-    const dailyVoiceLimit = profile?.daily_voice_limit ?? DEFAULT_DAILY_VOICE_LIMIT;
-    const profileTimezone = resolveTimeZone(profile?.timezone);
-    const requestTimezone = resolveTimeZone(body.timezone);
-    const quotaTimeZone = profileTimezone ?? "UTC";
-    const tz = requestTimezone ?? profileTimezone ?? "UTC";
-
-    const dailyVoiceUsed = await countDailyVoiceUsage(
-      adminClient,
-      user.id,
-      quotaTimeZone,
-    );
-    if (body.source === "voice" && dailyVoiceUsed >= dailyVoiceLimit) {
-      return json(
-        {
-          status: "rejected_limit",
-          usage: { daily_voice_used: dailyVoiceUsed, daily_voice_limit: dailyVoiceLimit },
-          error: "Daily voice limit reached",
-        } satisfies ParseExpenseResponse,
-        429,
-      );
+    if (!payload || typeof payload !== "object") {
+      return json(errorResponse({ key: "invalid_json" }, language), 400);
+    }
+    if (isBatchRequest(payload)) {
+      return await handleBatchParse(adminClient, user.id, payload);
     }
 
-    const inputResolution = await resolveInputText({
-      body,
-      adminClient,
-      openAiApiKey,
-      userID: user.id,
-    });
-    const rawText = inputResolution.text;
-    if (!rawText) {
-      const isVoicePlaceholder = isVoicePlaceholderText(body.raw_text ?? "");
-      return json(
-        {
-          status: "error",
-          error: body.source === "voice"
-            ? (inputResolution.error
-              ?? (isVoicePlaceholder
-                ? "Voice transcription failed. Try holding longer and speaking clearly, or switch to Text."
-                : "Could not resolve transcript text from request"))
-            : "Could not resolve transcript text from request",
-        } satisfies ParseExpenseResponse,
-        400,
-      );
+    const ctx = await loadParseContext(adminClient, user.id);
+    const result = await processParseExpense(ctx, payload);
+    return json(result.response, result.httpStatus);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return json(errorResponse({ key: "internal_error", params: { detail: message } }, language), 500);
+  }
+});
+
+function errorResponse(descriptor: ErrorDescriptor, language: MessageLanguage): ParseExpenseResponse {
+  return { status: "error", ...localizeError(descriptor, language) };
+}
+
+async function loadParseContext(adminClient: ReturnType<typeof createClient>, userID: string): Promise<ParseContext> {
+  const profile = await getProfile(adminClient, userID);
+  const [parserCategoryContext, parserPaymentMethodContext, merchantMemory, activeTrips, limits] = await Promise.all([
+    loadParserCategoryContext(adminClient, userID),
+    loadPaymentMethodContext(adminClient, userID),
+    loadMerchantMemory(adminClient, userID),
+    loadActiveTrips(adminClient, userID),
+    loadPlanLimits(adminClient, profile?.plan_id, profile?.daily_voice_limit),
+  ]);
+  const profileTimezone = resolveTimeZone(profile?.timezone);
+  return {
+    adminClient,
+    userID,
+    profile,
+    parserCategoryContext,
+    parserPaymentMethodContext,
+    merchantMemory,
+    activeTrips,
+    limits,
+    profileTimezone,
+    quotaTimeZone: quotaTimeZone(profile?.timezone),
+    transcription: resolveTranscriptionProvider(),
+    receiptVision: resolveReceiptVisionProvider(),
+    parserProvider: resolveExpenseParserProvider(),
+  };
+}
+
+async function handleBatchParse(
+  adminClient: ReturnType<typeof createClient>,
+  userID: string,
+  batch: ParseExpenseBatchRequest,
+): Promise<Response> {
+  const language = normalizeMessageLanguage(batch.language_hint);
+  if (batch.items.length === 0) {
+    return json(errorResponse({ key: "batch_empty", field: "items" }, language), 400);
+  }
+  if (batch.items.length > MAX_BATCH_ITEMS) {
+    return json(errorResponse({ key: "batch_too_large", field: "items", params: { max: MAX_BATCH_ITEMS } }, language), 400);
+  }
+
+  const ctx = await loadParseContext(adminClient, userID);
+
+  // Quota is handed out in capture order, so the oldest queued captures are the ones that get through. Items that
+  // fail validation or are replays never take a slot; items that end without a usage event give theirs back.
+  let previousTurn: QuotaTurn | null = null;
+  const ordered = orderBatchItems(batch.items);
+  const resultKeys = new Map<number, string>();
+  const seenClientIDs = new Set<string>();
+  const tasks = ordered.map(({ item, index }) => {
+    const clientID = typeof item?.client_expense_id === "string" ? item.client_expense_id : "";
+    const isDuplicate = Boolean(clientID) && seenClientIDs.has(clientID);
+    // Items that cannot be keyed by client_expense_id are keyed by their position instead.
+    resultKeys.set(index, clientID && !isDuplicate ? clientID : `items[${index}]`);
+    if (clientID) seenClientIDs.add(clientID);
+
+    if (!item || typeof item !== "object") {
+      return () =>
+        Promise.resolve<ParseResult>({
+          httpStatus: 400,
+          response: errorResponse({ key: "batch_item_invalid", field: `items[${index}]` }, language),
+        });
+    }
+    if (isDuplicate) {
+      return () =>
+        Promise.resolve<ParseResult>({
+          httpStatus: 400,
+          response: errorResponse(
+            { key: "batch_duplicate_id", field: "client_expense_id" },
+            normalizeMessageLanguage(item.language_hint),
+          ),
+        });
     }
+    const turn = quotaTurnAfter(previousTurn);
+    previousTurn = turn;
+    return () => processParseExpense(ctx, item, turn);
+  });
 
-    const deterministic = parseExpenseDeterministically(rawText, {
-      currencyHint: body.currency_hint,
-      defaultCurrency: profile?.default_currency ?? undefined,
-      capturedAtDevice: body.captured_at_device,
-      timezone: tz,
-      categoryContext: parserCategoryContext,
+  const itemResults = await runWithConcurrency(tasks, BATCH_CONCURRENCY);
+  const results: Record<string, ParseExpenseBatchItemResult> = {};
+  const resultsByIndex = new Map(ordered.map(({ index }, position) => [index, itemResults[position]]));
+  for (const index of batch.items.keys()) {
+    const result = resultsByIndex.get(index);
+    const key = resultKeys.get(index);
+    if (!result || !key) continue;
+    results[key] = { ...result.response, http_status: result.httpStatus };
+  }
+
+  return json(
+    {
+      status: "completed",
+      results,
+      usage: usageSummary(await loadUsageCounts(adminClient, userID, ctx.quotaTimeZone), ctx.limits),
+    } satisfies ParseExpenseBatchResponse,
+    200,
+  );
+}
+
+// Parses and saves one capture. Never throws: failures come back as an error result so batches can continue.
+async function processParseExpense(
+  ctx: ParseContext,
+  body: ParseExpenseRequest,
+  turn: QuotaTurn | null = null,
+): Promise<ParseResult> {
+  const hold: QuotaHold = { slot: null, turn };
+  try {
+    return await parseAndSaveExpense(ctx, body, hold);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return {
+      httpStatus: 500,
+      response: errorResponse({ key: "internal_error", params: { detail: message } }, normalizeMessageLanguage(body?.language_hint)),
+    };
+  } finally {
+    turn?.pass();
+    await releaseUnusedQuotaSlot(ctx, hold.slot);
+    await deleteUploadedCaptureIfPresent(ctx.adminClient, body, ctx.userID);
+  }
+}
+
+async function parseAndSaveExpense(
+  ctx: ParseContext,
+  body: ParseExpenseRequest,
+  hold: QuotaHold,
+): Promise<ParseResult> {
+  const {
+    adminClient,
+    userID,
+    profile,
+    parserCategoryContext,
+    parserPaymentMethodContext,
+    merchantMemory,
+    limits,
+    parserProvider,
+  } = ctx;
+  const messageLanguage = normalizeMessageLanguage(body.language_hint);
+  const validationErrors = validateRequest(body);
+  if (validationErrors.length > 0) {
+    return {
+      httpStatus: 400,
+      response: {
+        ...errorResponse(validationErrors[0], messageLanguage),
+        errors: localizeFieldErrors(validationErrors, messageLanguage),
+      },
+    };
+  }
+
+  const tz = resolveTimeZone(body.timezone) ?? ctx.profileTimezone ?? "UTC";
+
+  // A replay of a capture the user already reviewed returns what they kept, before spending quota or tokens.
+  const groupClientIDs = await Promise.all(
+    Array.from({ length: MAX_EXPENSES_PER_CAPTURE }, (_, index) => deriveClientExpenseID(body.client_expense_id, index)),
+  );
+  const protectedGroup = await findProtectedExpenses(adminClient, userID, groupClientIDs);
+  if (protectedGroup) {
+    const usage = await loadUsageCounts(adminClient, userID, ctx.quotaTimeZone);
+    return { httpStatus: 200, response: alreadySyncedResponse(protectedGroup, usageSummary(usage, limits)) };
+  }
+
+  // Taken before any provider is called; processParseExpense hands it back unless a usage event gets recorded.
+  await hold.turn?.ready;
+  const quota = await reserveQuotaSlot(ctx, body.source);
+  hold.slot = quota;
+  hold.turn?.pass();
+
+  if ((body.source === "voice" || body.source === "photo") && quota.exceeded) {
+    return {
+      httpStatus: 429,
+      response: {
+        status: "rejected_limit",
+        usage: usageSummary(quota.usage, limits),
+        ...localizeError({ key: quotaErrorKey(body.source, quota.exceeded) }, messageLanguage),
+      } satisfies ParseExpenseResponse,
+    };
+  }
+  // Over the text limit the capture is still saved, parsed by the rules engine alone.
+  const textLimit = body.source === "text" ? quota.exceeded : null;
+
+  const inputResolution = await resolveInputText({
+    body,
+    adminClient,
+    transcription: ctx.transcription,
+    receiptVision: ctx.receiptVision,
+    userID,
+  });
+  const transcription = inputResolution.transcription;
+  if (transcription?.usage) {
+    // Transcription is billed even when the capture fails to parse, so it is recorded right away and keeps the slot.
+    quota.used = await recordUsageEventIfNeeded({
+      supabase: adminClient,
+      userID,
+      clientExpenseID: body.client_expense_id,
+      eventType: "voice_transcription",
+      provider: transcription.provider,
+      model: transcription.model,
+      usage: {
+        ...transcription.usage,
+        audioSeconds: transcription.usage.audioSeconds ?? body.audio_duration_seconds ?? null,
+      },
     });
+  }
+  const receiptExtraction = inputResolution.receipt;
+  if (receiptExtraction?.usage) {
+    // Like transcription, a vision call that read nothing usable still cost tokens, and it counts toward the plan.
+    quota.used = await recordUsageEventIfNeeded({
+      supabase: adminClient,
+      userID,
+      clientExpenseID: body.client_expense_id,
+      eventType: "photo_parse",
+      provider: receiptExtraction.provider,
+      model: receiptExtraction.model,
+      usage: receiptExtraction.usage,
+    });
+  }
+  const rawText = inputResolution.text;
+  if (!rawText) {
+    const isVoicePlaceholder = isVoicePlaceholderText(body.raw_text ?? "");
+    const inputError: ErrorDescriptor = body.source === "photo"
+      ? inputResolution.error ?? { key: "receipt_unresolved" }
+      : body.source === "voice"
+      ? inputResolution.error ?? { key: isVoicePlaceholder ? "voice_placeholder" : "text_unresolved" }
+      : { key: "text_unresolved", field: "raw_text" };
+    return { httpStatus: 400, response: errorResponse(inputError, messageLanguage) };
+  }
 
-    const aiOutcome = await parseExpenseWithOpenAI({
-      apiKey: openAiApiKey,
+  // An explicit hint wins; otherwise trust the language the speech engine detected.
+  const languageHint = body.language_hint ?? normalizeLanguageHint(inputResolution.transcription?.language);
+  const transcriptionConfidence = transcriptConfidence(inputResolution.transcription);
+
+  let tripRef = await validateOwnedTripRef(adminClient, userID, body.trip_id);
+  if (!tripRef) {
+      tripRef = await resolveTripRefFromNameIfUnique(adminClient, userID, body.trip_name);
+  }
+  // Without a trip in the request, the capture defaults to the single active trip covering the capture day.
+  const canInferTrip = !body.trip_id?.trim() && !body.trip_name?.trim();
+  const captureTrip = canInferTrip
+    ? activeTripForDate(ctx.activeTrips, localDateKey(body.captured_at_device, tz))
+    : null;
+  const tripCurrency = tripRef?.baseCurrency ?? captureTrip?.baseCurrency ?? null;
+  const defaultCurrency = (tripCurrency ?? body.currency_hint ?? profile?.default_currency ?? "USD").toUpperCase();
+
+  const deterministicOptions = {
+    currencyHint: body.currency_hint,
+    defaultCurrency: profile?.default_currency ?? undefined,
+    tripCurrency: tripCurrency ?? undefined,
+    capturedAtDevice: body.captured_at_device,
+    timezone: tz,
+    languageHint,
+    categoryContext: parserCategoryContext,
+  };
+  const deterministicParses = parseExpensesDeterministically(rawText, deterministicOptions);
+
+  // The vision provider already structured a receipt, so only text and voice go through the text parser.
+  const receipt = receiptExtraction?.receipt ?? null;
+  const aiParse = receipt || textLimit ? { outcomes: null, usage: null } : await parseExpenseWithProvider(parserProvider, {
+    rawText,
+    capturedAtDevice: body.captured_at_device,
+    timezone: tz,
+    currencyHint: body.currency_hint,
+    languageHint,
+    defaultCurrency: profile?.default_currency ?? undefined,
+    tripCurrency: tripCurrency ?? undefined,
+    categoryContext: parserCategoryContext,
+  });
+
+  let outcomes: ParseOutcome[];
+  // The rules-engine parse behind each outcome, index-aligned with `outcomes`.
+  let pairedDeterministicParses: DeterministicParse[];
+  const aiOutcomes = aiParse.outcomes;
+  const receiptOutcome = receipt && receiptExtraction
+    ? receiptParseOutcome(receipt, {
+      provider: receiptExtraction.provider,
+      model: receiptExtraction.model,
       rawText,
-      capturedAtDevice: body.captured_at_device,
-      timezone: tz,
-      currencyHint: body.currency_hint,
-      languageHint: body.language_hint,
-      defaultCurrency: profile?.default_currency ?? undefined,
+      fallbackDate: localDateKey(body.captured_at_device, tz),
+      defaultCurrency,
+      languageHint: normalizeLanguageHint(languageHint),
       categoryContext: parserCategoryContext,
-    });
-
-    let outcome: ParseOutcome;
-    if (aiOutcome) {
-      outcome = aiOutcome;
-    } else {
-      outcome = {
-        parsed: deterministic.parsed,
-        confidence: deterministic.confidence,
-        provider: "deterministic",
-        model: "rules-v1",
-      };
+      fallbackCategory: deterministicParses[0].parsed.category,
+    })
+    : null;
+  if (receiptOutcome) {
+    // The receipt total is authoritative; the rules engine would pick among line-item prices.
+    pairedDeterministicParses = [deterministicParses[0]];
+    outcomes = [receiptOutcome];
+  } else if (aiOutcomes && aiOutcomes.length > 0) {
+    pairedDeterministicParses = aiOutcomes.map((outcome, index) =>
+      matchDeterministicParse(outcome, index, aiOutcomes.length, deterministicParses, deterministicOptions)
+    );
+    outcomes = aiOutcomes.map((outcome, index) => reconcileParseOutcome(outcome, pairedDeterministicParses[index]));
+  } else {
+    pairedDeterministicParses = deterministicParses;
+    outcomes = deterministicParses.map((deterministic) => ({
+      parsed: deterministic.parsed,
+      confidence: deterministic.confidence,
+      provider: "deterministic",
+      model: "rules-v1",
+      sourceText: deterministic.sourceText,
+    }));
+  }
+  for (const outcome of outcomes) {
+    if (transcriptionConfidence !== null && transcriptionConfidence < LOW_TRANSCRIPT_CONFIDENCE) {
+      // A shaky transcript can yield a confident-looking parse of the wrong words.
+      outcome.confidence = Math.min(outcome.confidence, transcriptionConfidence);
     }
+    const beforePostValidation = outcome.parsed;
     outcome.parsed = applyStrictPostValidation({
       parsed: outcome.parsed,
-      rawText,
-      languageHint: body.language_hint,
+      rawText: outcome.sourceText,
+      languageHint,
       paymentMethodContext: parserPaymentMethodContext,
     });
+    outcome.rewrites = (["description", "merchant"] as const)
+      .filter((field) => beforePostValidation[field] !== outcome.parsed[field])
+      .map((field) => ({ field, before: beforePostValidation[field], after: outcome.parsed[field] }));
+    applyMerchantMemory(outcome, merchantMemory, parserCategoryContext.categories);
+  }
 
-    const needsReview = outcome.confidence < AUTO_SAVE_CONFIDENCE_THRESHOLD || body.allow_auto_save === false;
+  // Each expense joins the active trip covering its own date, which may differ from the capture day ("ayer").
+  const inferredTrips = outcomes.map((outcome, index) => {
+    if (!canInferTrip) return null;
+    const inferred = inferExpenseTrip({
+      trips: ctx.activeTrips,
+      expenseDate: outcome.parsed.expense_date,
+      captureTrip,
+      currency: outcome.parsed.currency,
+      currencyStated: receiptOutcome
+        ? Boolean(receipt?.currency)
+        : pairedDeterministicParses[index]?.metadata.hasExplicitCurrency ?? false,
+      defaultCurrency,
+      fallbackCurrency: body.currency_hint ?? profile?.default_currency ?? "USD",
+    });
+    outcome.parsed.currency = inferred.currency;
+    return inferred.inference;
+  });
 
+  // Compound captures are a best-effort split, so the whole group always goes through review.
+  const isCompoundCapture = outcomes.length > 1;
+  const groupNeedsReview = isCompoundCapture
+    || body.allow_auto_save === false
+    || outcomes.some((outcome) => outcome.confidence < AUTO_SAVE_CONFIDENCE_THRESHOLD)
+    || outcomes.some((outcome) => outcome.disagreements?.some((disagreement) => disagreement.severity === "strong"));
+
+  const categoryRef = await validateCategoryRef(adminClient, userID, body.category_id);
+  const finalTripName = tripRef?.name ?? (body.trip_name?.trim() || null);
+  const utterancePaymentMethod = detectPaymentMethodReference(rawText, parserPaymentMethodContext);
+  const requestedPaymentMethodRef = await validateOwnedPaymentMethodRef(adminClient, userID, body.payment_method_id);
+  const namedPaymentMethodRef = await resolvePaymentMethodRefFromNameIfUnique(adminClient, userID, body.payment_method_name);
+  const syncedAt = new Date().toISOString();
+
+  const rows = [];
+  const explanations: ParseExplanation[] = [];
+  for (const [index, outcome] of outcomes.entries()) {
     const parsedCategoryId = resolveCategoryIDForParsedCategory(outcome.parsed.category, parserCategoryContext);
-    const categoryRef = await validateCategoryRef(adminClient, user.id, body.category_id);
-    const finalCategoryId = categoryRef?.id ?? parsedCategoryId;
-    const finalCategoryName = categoryRef?.name ?? outcome.parsed.category;
-    let tripRef = await validateOwnedTripRef(adminClient, user.id, body.trip_id);
-    if (!tripRef) {
-        tripRef = await resolveTripRefFromNameIfUnique(adminClient, user.id, body.trip_name);
-    }
-    const finalTripName = tripRef?.name ?? (body.trip_name?.trim() || null);
-    const detectedPaymentMethod = detectPaymentMethodReference(rawText, parserPaymentMethodContext);
-    let paymentMethodRef = await validateOwnedPaymentMethodRef(
-      adminClient,
-      user.id,
-      body.payment_method_id ?? detectedPaymentMethod?.id,
-    );
-    if (!paymentMethodRef) {
-        paymentMethodRef = await resolvePaymentMethodRefFromNameIfUnique(adminClient, user.id, body.payment_method_name);
-    }
+    const detectedPaymentMethod = isCompoundCapture
+      ? detectPaymentMethodReference(outcome.sourceText, parserPaymentMethodContext) ?? utterancePaymentMethod
+      : utterancePaymentMethod;
+    // A remembered merchant default only applies when the request and transcript say nothing about payment.
+    const rememberedPaymentMethodID = body.payment_method_name?.trim()
+      ? null
+      : outcome.merchantMemory?.entry.defaultPaymentMethodID ?? null;
+    const rememberedPaymentMethod = rememberedPaymentMethodID
+      ? parserPaymentMethodContext.methodsById.get(rememberedPaymentMethodID) ?? null
+      : null;
+    const paymentMethodRef = requestedPaymentMethodRef ?? detectedPaymentMethod ?? namedPaymentMethodRef
+      ?? rememberedPaymentMethod;
     const finalPaymentMethodName = paymentMethodRef?.name ?? (body.payment_method_name?.trim() || null);
-    const parseStatus = needsReview ? "needs_review" : "auto";
-
-    const { data: savedExpense, error: upsertError } = await adminClient
-      .from("expenses")
-      .upsert(
-        {
-          user_id: user.id,
-          client_expense_id: body.client_expense_id,
-          amount: outcome.parsed.amount,
-          currency: outcome.parsed.currency,
-          category: finalCategoryName,
-          category_id: finalCategoryId,
-          description: outcome.parsed.description,
-          merchant: outcome.parsed.merchant,
-          trip_id: tripRef?.id ?? null,
-          trip_name: finalTripName,
-          payment_method_id: paymentMethodRef?.id ?? null,
-          payment_method_name: finalPaymentMethodName,
-          expense_date: outcome.parsed.expense_date,
-          captured_at_device: body.captured_at_device,
-          synced_at: new Date().toISOString(),
-          source: body.source,
-          parse_status: parseStatus,
-          parse_confidence: outcome.confidence,
-          raw_text: rawText,
-          audio_duration_seconds: body.audio_duration_seconds ?? null,
+    if (body.explain) {
+      explanations.push(explainParseOutcome({
+        outcome,
+        deterministic: pairedDeterministicParses[index],
+        hintsByCategoryName: parserCategoryContext.hintsByCategoryName,
+        requestedCategory: categoryRef?.name ?? null,
+        paymentMethod: {
+          value: finalPaymentMethodName,
+          source: requestedPaymentMethodRef
+            ? "request"
+            : detectedPaymentMethod
+            ? "deterministic"
+            : !namedPaymentMethodRef && rememberedPaymentMethod
+            ? "merchant_memory"
+            : "request",
         },
-        { onConflict: "user_id,client_expense_id" },
-      )
-      .select("id, client_expense_id, amount, currency, category, category_id, description, merchant, expense_date, source, parse_status, trip_id, trip_name, payment_method_id, payment_method_name")
-      .single();
+      }));
+    }
+    rows.push({
+      user_id: userID,
+      client_expense_id: await deriveClientExpenseID(body.client_expense_id, index),
+      amount: outcome.parsed.amount,
+      currency: outcome.parsed.currency,
+      category: categoryRef?.name ?? outcome.parsed.category,
+      category_id: categoryRef?.id ?? parsedCategoryId,
+      description: outcome.parsed.description,
+      merchant: outcome.parsed.merchant,
+      trip_id: tripRef?.id ?? inferredTrips[index]?.trip.id ?? null,
+      trip_name: finalTripName ?? inferredTrips[index]?.trip.name ?? null,
+      payment_method_id: paymentMethodRef?.id ?? null,
+      payment_method_name: finalPaymentMethodName,
+      expense_date: outcome.parsed.expense_date,
+      captured_at_device: body.captured_at_device,
+      synced_at: syncedAt,
+      source: body.source,
+      parse_status: groupNeedsReview ? "needs_review" : "auto",
+      parse_confidence: outcome.confidence,
+      raw_text: rawText,
+      audio_duration_seconds: body.audio_duration_seconds ?? null,
+      line_items: receiptOutcome ? receipt?.lineItems ?? null : null,
+      // A card charge belongs to one purchase, so it is dropped when the capture split into several.
+      charged_amount: isCompoundCapture ? null : body.charged_amount ?? null,
+      charged_currency: isCompoundCapture ? null : normalizeCurrencyCode(body.charged_currency),
+    });
+  }
 
-    if (upsertError || !savedExpense) {
-      return json(
-        { status: "error", error: upsertError?.message ?? "Failed to save expense" } satisfies ParseExpenseResponse,
-        500,
-      );
+  // Upserts the rows unless the user edited any of them since sync. save_parsed_expenses locks the stored rows
+  // before checking, so an edit cannot commit between the check and the write.
+  const { data: saveData, error: saveError } = await adminClient.rpc("save_parsed_expenses", {
+    p_user_id: userID,
+    p_rows: rows,
+  });
+  const saveResult = saveData as { saved: ParseExpenseSavedExpense[]; skipped: string[] } | null;
+
+  const savedByClientID = new Map((saveResult?.saved ?? []).map((row) => [row.client_expense_id, row]));
+  const savedExpenses = rows
+    .map((row) => savedByClientID.get(row.client_expense_id))
+    .filter((row): row is ParseExpenseSavedExpense => Boolean(row));
+  if (!saveError && savedExpenses.length !== rows.length) {
+    // The user edited the rows while this capture was transcribing or parsing; their version was kept.
+    const editedMeanwhile = await findProtectedExpenses(adminClient, userID, rows.map((row) => row.client_expense_id));
+    if (editedMeanwhile) {
+      return { httpStatus: 200, response: alreadySyncedResponse(editedMeanwhile, usageSummary(settledUsage(quota), limits)) };
     }
+  }
+  if (saveError || savedExpenses.length !== rows.length) {
+    return {
+      httpStatus: 500,
+      response: errorResponse(
+        { key: "save_failed", params: { detail: saveError?.message ?? "Failed to save expense" } },
+        messageLanguage,
+      ),
+    };
+  }
 
-    const didCountUsageEvent = await recordUsageEventIfNeeded({
+  // A provider call that produced unusable output still cost tokens, so bill it even when the rules engine won.
+  const billedParser = aiParse.usage && parserProvider
+    ? { provider: parserProvider.name, model: parserProvider.model }
+    : { provider: outcomes[0].provider, model: outcomes[0].model };
+  // Photo captures were billed as photo_parse when the receipt was read.
+  if (body.source !== "photo") {
+    const didRecordParse = await recordUsageEventIfNeeded({
       supabase: adminClient,
-      userID: user.id,
+      userID,
       clientExpenseID: body.client_expense_id,
-      source: body.source,
-      provider: outcome.provider,
-      model: outcome.model,
-      audioDurationSeconds: body.audio_duration_seconds ?? null,
-    });
-
-    const response: ParseExpenseResponse = {
-      status: needsReview ? "needs_review" : "saved",
-      expense: savedExpense,
-      parse: {
-        confidence: outcome.confidence,
-        raw_text: rawText,
-        needs_review: needsReview,
-      },
+      eventType: body.source === "voice" ? "voice_parse" : "text_parse",
+      provider: billedParser.provider,
+      model: billedParser.model,
       usage: {
-        daily_voice_used: body.source === "voice" ? dailyVoiceUsed + (didCountUsageEvent ? 1 : 0) : dailyVoiceUsed,
-        daily_voice_limit: dailyVoiceLimit,
+        ...(aiParse.usage ?? emptyUsage()),
+        // Audio is billed on the transcription event when the server transcribed it.
+        audioSeconds: transcription?.usage ? null : body.audio_duration_seconds ?? null,
       },
-    };
-
-    return json(response, 200);
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "Unknown error";
-    return json({ status: "error", error: message } satisfies ParseExpenseResponse, 500);
-  } finally {
-    if (cleanupClient && cleanupBody && cleanupUserID) {
-      await deleteUploadedVoiceCaptureIfPresent(cleanupClient, cleanupBody, cleanupUserID);
-    }
+    });
+    quota.used ||= didRecordParse;
   }
-});
 
+  const response: ParseExpenseResponse = {
+    status: groupNeedsReview ? "needs_review" : "saved",
+    expense: savedExpenses[0],
+    expenses: savedExpenses,
+    parse: {
+      confidence: Math.min(...outcomes.map((outcome) => outcome.confidence)),
+      raw_text: rawText,
+      needs_review: groupNeedsReview,
+      date_resolution: describeDateResolution(deterministicParses[0], outcomes[0]),
+      transcription: inputResolution.transcription
+        ? {
+          provider: inputResolution.transcription.provider,
+          model: inputResolution.transcription.model,
+          language: inputResolution.transcription.language,
+          confidence: transcriptionConfidence,
+        }
+        : undefined,
+      inferred_trips: inferredTrips.some(Boolean)
+        ? inferredTrips.flatMap((inference, index) =>
+          inference
+            ? [{
+              client_expense_id: savedExpenses[index].client_expense_id,
+              trip_id: inference.trip.id,
+              trip_name: inference.trip.name,
+              currency_from_trip: inference.currencyFromTrip,
+            }]
+            : []
+        )
+        : undefined,
+      receipt: receiptExtraction
+        ? { provider: receiptExtraction.provider, model: receiptExtraction.model }
+        : undefined,
+      explain: body.explain ? explanations : undefined,
+      text_limit: textLimit ?? undefined,
+    },
+    usage: usageSummary(settledUsage(quota), limits),
+  };
+
+  return { httpStatus: 200, response };
+}
+
+function describeDateResolution(
+  deterministic: DeterministicParse,
+  outcome: ParseOutcome,
+): NonNullable<NonNullable<ParseExpenseResponse["parse"]>["date_resolution"]> {
+  const modelChoseDate = outcome.provider !== "deterministic"
+    && outcome.parsed.expense_date !== deterministic.parsed.expense_date;
+  return {
+    phrase: deterministic.metadata.datePhrase,
+    rule: modelChoseDate ? "model" : deterministic.metadata.dateRule,
+    rejected_future_date: deterministic.metadata.rejectedFutureDate,
+  };
+}
+
+type UsageEventType = "voice_parse" | "text_parse" | "voice_transcription" | "photo_parse";
+
+// Returns false when the event was already recorded, so a replay hands back its quota slot.
 async function recordUsageEventIfNeeded(opts: {
   supabase: ReturnType<typeof createClient>;
   userID: string;
   clientExpenseID: string;
-  source: ParseExpenseRequest["source"];
+  eventType: UsageEventType;
   provider: string;
   model: string;
-  audioDurationSeconds: number | null;
+  usage: AIUsage;
 }): Promise<boolean> {
-  const eventType = opts.source === "voice" ? "voice_parse" : "text_parse";
-  const { error } = await opts.supabase.from("ai_usage_events").insert({
-    user_id: opts.userID,
-    client_expense_id: opts.clientExpenseID,
-    event_type: eventType,
-    provider: opts.provider,
-    model: opts.model,
-    audio_seconds: opts.audioDurationSeconds,
-    estimated_cost_usd: opts.provider === "openai" ? null : 0,
+  const eventType = opts.eventType;
+  const { data, error } = await opts.supabase.rpc("record_ai_usage_event", {
+    p_user_id: opts.userID,
+    p_client_expense_id: opts.clientExpenseID,
+    p_event_type: eventType,
+    p_provider: opts.provider,
+    p_model: opts.model,
+    p_input_tokens: opts.usage.inputTokens,
+    p_output_tokens: opts.usage.outputTokens,
+    p_audio_seconds: opts.usage.audioSeconds === null ? null : Math.ceil(opts.usage.audioSeconds),
+    p_estimated_cost_usd: estimateCostUSD(opts.provider, opts.model, opts.usage),
   });
-  if (!error) return true;
-
-  const duplicate = error.code === "23505"
-    || (error.message?.toLowerCase().includes("duplicate key") ?? false);
-  if (duplicate) {
-    return false;
-  }
+  if (!error) return data === true;
 
   console.error("[parse-expense] failed to store ai usage event", {
     userID: opts.userID,
@@ -464,163 +885,213 @@ async function recordUsageEventIfNeeded(opts: {
   return false;
 }
 
+type InputResolution = {
+  text: string | null;
+  error: ErrorDescriptor | null;
+  transcription: TranscriptionResult | null;
+  receipt: ReceiptExtraction | null;
+};
+
 async function resolveInputText(opts: {
   body: ParseExpenseRequest;
   adminClient: ReturnType<typeof createClient>;
-  openAiApiKey: string | undefined;
+  transcription: TranscriptionProviderResolution;
+  receiptVision: ReceiptVisionProviderResolution;
   userID: string;
-}): Promise<{ text: string | null; error: string | null }> {
+}): Promise<InputResolution> {
   const rawTextCandidate = opts.body.raw_text?.trim();
   const rawText = rawTextCandidate && !isVoicePlaceholderText(rawTextCandidate) ? rawTextCandidate : null;
+  if (opts.body.source === "photo") {
+    return await resolveReceiptInput(opts);
+  }
   if (opts.body.source !== "voice") {
-    return { text: rawText ?? null, error: null };
+    return { text: rawText ?? null, error: null, transcription: null, receipt: null };
   }
 
   const storageObjectPath = opts.body.storage_object_path?.trim();
   if (storageObjectPath) {
     const requestedBucket = opts.body.storage_bucket?.trim();
     if (requestedBucket && requestedBucket !== VOICE_CAPTURES_BUCKET) {
-      return { text: null, error: "Invalid voice storage bucket." };
+      return {
+        text: null,
+        error: { key: "voice_bucket_invalid", field: "storage_bucket" },
+        transcription: null,
+        receipt: null,
+      };
     }
     if (!storageObjectPath.startsWith(`${opts.userID}/`)) {
-      return { text: null, error: "Invalid voice storage object path." };
+      return {
+        text: null,
+        error: { key: "voice_path_invalid", field: "storage_object_path" },
+        transcription: null,
+        receipt: null,
+      };
     }
 
     const transcribed = await transcribeVoiceCaptureFromStorage({
       adminClient: opts.adminClient,
-      openAiApiKey: opts.openAiApiKey,
+      transcription: opts.transcription,
       bucket: VOICE_CAPTURES_BUCKET,
       objectPath: storageObjectPath,
       languageHint: normalizeLanguageHint(opts.body.language_hint),
     });
-    if (transcribed.text) return { text: transcribed.text, error: null };
-    if (transcribed.error) return { text: null, error: transcribed.error };
+    if (transcribed.text) return { text: transcribed.text, error: null, transcription: transcribed, receipt: null };
+    if (transcribed.error) return { text: null, error: transcribed.error, transcription: transcribed, receipt: null };
   }
 
-  return { text: rawText ?? null, error: null };
+  return { text: rawText ?? null, error: null, transcription: null, receipt: null };
 }
 
-async function transcribeVoiceCaptureFromStorage(opts: {
+async function resolveReceiptInput(opts: {
+  body: ParseExpenseRequest;
   adminClient: ReturnType<typeof createClient>;
-  openAiApiKey: string | undefined;
-  bucket: string;
-  objectPath: string;
-  languageHint?: "en" | "es";
-}): Promise<{ text: string | null; error: string | null }> {
-  if (!opts.openAiApiKey) {
-    console.error("OPENAI_API_KEY missing; cannot transcribe voice capture");
-    return { text: null, error: "Voice transcription unavailable (server missing OPENAI_API_KEY)." };
+  receiptVision: ReceiptVisionProviderResolution;
+  userID: string;
+}): Promise<InputResolution> {
+  const storageObjectPath = opts.body.storage_object_path?.trim() ?? "";
+  const requestedBucket = opts.body.storage_bucket?.trim();
+  if (requestedBucket && requestedBucket !== RECEIPT_PHOTOS_BUCKET) {
+    return {
+      text: null,
+      error: { key: "receipt_bucket_invalid", field: "storage_bucket" },
+      transcription: null,
+      receipt: null,
+    };
   }
-
-  const { data, error } = await opts.adminClient.storage
-    .from(opts.bucket)
-    .download(opts.objectPath);
-
-  if (error || !data) {
-    console.error("Failed to download voice capture from storage", error?.message);
-    return { text: null, error: "Voice upload could not be read from storage. Please retry." };
+  if (!storageObjectPath.startsWith(`${opts.userID}/`)) {
+    return {
+      text: null,
+      error: { key: "receipt_path_invalid", field: "storage_object_path" },
+      transcription: null,
+      receipt: null,
+    };
   }
 
-  try {
-    const fileName = opts.objectPath.split("/").pop() || "capture.m4a";
-    const audioBuffer = await data.arrayBuffer();
-    const audioBytes = audioBuffer.byteLength;
-    const blobType = data.type || "audio/mp4";
-    console.log("Voice capture downloaded for transcription", {
-      objectPath: opts.objectPath,
-      bytes: audioBytes,
-      type: blobType,
-    });
-    const fileBlob = new File([audioBuffer], fileName, { type: blobType });
-
-    const form = new FormData();
-    form.append("model", OPENAI_TRANSCRIBE_MODEL);
-    form.append("response_format", "json");
-    form.append("temperature", "0");
-    if (opts.languageHint) {
-      form.append("language", opts.languageHint);
-    }
-    form.append("file", fileBlob);
-
-    const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${opts.openAiApiKey}`,
-      },
-      body: form,
-    });
-
-    if (!response.ok) {
-      const errText = await response.text();
-      console.error("OpenAI transcription failed", response.status, errText);
-      return { text: null, error: `Voice transcription failed (${response.status}).` };
-    }
+  const extraction = await readReceiptFromStorage({
+    adminClient: opts.adminClient,
+    receiptVision: opts.receiptVision,
+    objectPath: storageObjectPath,
+    languageHint: normalizeLanguageHint(opts.body.language_hint),
+  });
+  if (!extraction.receipt) {
+    return { text: null, error: extraction.error, transcription: null, receipt: extraction };
+  }
+  return { text: describeReceipt(extraction.receipt), error: null, transcription: null, receipt: extraction };
+}
 
-    const json = await response.json();
-    const text = typeof json?.text === "string" ? json.text.trim() : "";
-    if (!text) {
-      console.error("OpenAI transcription returned empty text", { objectPath: opts.objectPath, bytes: audioBytes });
-      return { text: null, error: "Voice transcription returned empty text. Try speaking a bit louder/closer." };
-    }
-    return { text, error: null };
-  } catch (error) {
-    console.error("Transcription error", error);
-    return { text: null, error: "Voice transcription crashed while processing audio. Please retry." };
+function receiptParseOutcome(
+  receipt: ReceiptRead,
+  opts: {
+    provider: string;
+    model: string;
+    rawText: string;
+    fallbackDate: string;
+    defaultCurrency: string;
+    languageHint?: "en" | "es";
+    categoryContext: ParserCategoryContext;
+    // The rules engine's category for the receipt text, used when the model names none.
+    fallbackCategory: string;
+  },
+): ParseOutcome | null {
+  const parsed = normalizeParsedExpense({
+    amount: receipt.total,
+    currency: receipt.currency ?? "",
+    category: receipt.category ?? opts.fallbackCategory,
+    description: receipt.description ?? receipt.lineItems.slice(0, 3).map((item) => item.description).join(", "),
+    merchant: receipt.merchant,
+    expense_date: receipt.date ?? "",
+  }, opts);
+  if (!parsed) return null;
+  if (parsed.category === "Other" && opts.fallbackCategory !== "Other") {
+    parsed.category = opts.fallbackCategory;
   }
+  return {
+    parsed,
+    confidence: receipt.confidence === null ? DEFAULT_RECEIPT_CONFIDENCE : clamp(receipt.confidence, 0.5, 0.99),
+    provider: opts.provider,
+    model: opts.model,
+    sourceText: opts.rawText,
+  };
 }
 
-async function deleteUploadedVoiceCaptureIfPresent(
+async function deleteUploadedCaptureIfPresent(
   adminClient: ReturnType<typeof createClient>,
   body: ParseExpenseRequest,
   userID: string,
 ) {
-  if (body.source !== "voice") return;
+  const bucket = captureBucketForSource(body.source);
+  if (!bucket) return;
   const objectPath = body.storage_object_path?.trim();
   if (!objectPath) return;
   if (!objectPath.startsWith(`${userID}/`)) return;
 
-  const { error } = await adminClient.storage.from(VOICE_CAPTURES_BUCKET).remove([objectPath]);
+  const { error } = await adminClient.storage.from(bucket).remove([objectPath]);
   if (error) {
-    console.error("Failed to delete uploaded voice capture", error.message);
+    console.error("Failed to delete uploaded capture", bucket, error.message);
   }
 }
 
-function validateRequest(body: ParseExpenseRequest): string | null {
-  if (!body.client_expense_id) return "client_expense_id is required";
-  if (!body.source) return "source is required";
-  if (!body.captured_at_device) return "captured_at_device is required";
-  if (body.source === "voice") {
-    if (typeof body.audio_duration_seconds !== "number" || !Number.isFinite(body.audio_duration_seconds)) {
-      return "audio_duration_seconds is required for voice";
-    }
-    if (!Number.isInteger(body.audio_duration_seconds)) {
-      return "audio_duration_seconds must be an integer";
-    }
-    if (body.audio_duration_seconds < 1) {
-      return "audio_duration_seconds must be at least 1s";
-    }
-    if (body.audio_duration_seconds > MAX_VOICE_SECONDS) {
-      return `audio_duration_seconds exceeds ${MAX_VOICE_SECONDS}s`;
-    }
-    const hasRawText = Boolean(body.raw_text?.trim());
-    const hasStoragePath = Boolean(body.storage_object_path?.trim());
-    if (!hasRawText && !hasStoragePath) {
-      return "voice requests require raw_text or storage_object_path";
-    }
+function captureBucketForSource(source: ParseExpenseRequest["source"]): string | null {
+  if (source === "voice") return VOICE_CAPTURES_BUCKET;
+  if (source === "photo") return RECEIPT_PHOTOS_BUCKET;
+  return null;
+}
+
+// Returns the stored rows when any of them was edited after its last sync, so a replay must not overwrite them.
+async function findProtectedExpenses(
+  supabase: ReturnType<typeof createClient>,
+  userID: string,
+  clientExpenseIDs: string[],
+): Promise<ProtectedCapture | null> {
+  const { data, error } = await supabase
+    .from("expenses")
+    .select(`${SAVED_EXPENSE_COLUMNS}, synced_at, updated_at`)
+    .eq("user_id", userID)
+    .in("client_expense_id", clientExpenseIDs);
+  if (error) {
+    throw new Error(`Failed to load existing expenses: ${error.message}`);
   }
-  if (body.storage_bucket) {
-    const requestedBucket = body.storage_bucket.trim();
-    if (requestedBucket && requestedBucket !== VOICE_CAPTURES_BUCKET) {
-      return "storage_bucket must be voice-captures";
+
+  return protectedCapture((data ?? []) as StoredExpense[], clientExpenseIDs);
+}
+
+function alreadySyncedResponse(capture: ProtectedCapture, usage: ParseUsageSummary): ParseExpenseResponse {
+  return {
+    status: "already_synced",
+    expense: capture.expenses[0],
+    expenses: capture.expenses,
+    skipped_client_expense_ids: capture.editedClientIDs,
+    usage,
+  };
+}
+
+async function deriveClientExpenseID(baseClientExpenseID: string, index: number): Promise<string> {
+  // The first expense keeps the client's id; siblings get a stable name-based UUID so replays upsert the same rows.
+  if (index === 0) return baseClientExpenseID;
+  const seed = new TextEncoder().encode(`${baseClientExpenseID.toLowerCase()}:${index}`);
+  const bytes = new Uint8Array(await crypto.subtle.digest("SHA-1", seed)).slice(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x50;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// Everything wrong with the body at once; the storage bucket depends on the source, so it is checked here.
+function validateRequest(body: ParseExpenseRequest): ErrorDescriptor[] {
+  const errors = validateRequestSchema(PARSE_EXPENSE_REQUEST_SCHEMA, body);
+  if (typeof body.storage_bucket === "string" && body.storage_bucket.trim()) {
+    const expectedBucket = captureBucketForSource(body.source) ?? VOICE_CAPTURES_BUCKET;
+    if (body.storage_bucket.trim() !== expectedBucket) {
+      errors.push({ key: "storage_bucket_mismatch", field: "storage_bucket", params: { expected: expectedBucket } });
     }
   }
-  return null;
+  return errors;
 }
 
 async function getProfile(supabase: ReturnType<typeof createClient>, userId: string): Promise<ProfileRow | null> {
   const { data } = await supabase
     .from("profiles")
-    .select("daily_voice_limit, timezone, default_currency")
+    .select("daily_voice_limit, timezone, default_currency, plan_id")
     .eq("id", userId)
     .maybeSingle();
   return (data ?? null) as ProfileRow | null;
@@ -708,6 +1179,20 @@ async function loadParserCategoryContext(
   };
 }
 
+async function loadMerchantMemory(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+): Promise<MerchantMemory> {
+  const { data } = await supabase
+    .from("merchants")
+    .select("name, normalized_name, aliases, default_category_id, default_payment_method_id")
+    .eq("user_id", userId)
+    .order("expense_count", { ascending: false })
+    .limit(MAX_MERCHANT_MEMORY_ROWS);
+
+  return buildMerchantMemory((data ?? []) as MerchantRow[]);
+}
+
 async function loadPaymentMethodContext(
   supabase: ReturnType<typeof createClient>,
   userId: string,
@@ -793,40 +1278,52 @@ async function validateOwnedTripRef(
   supabase: ReturnType<typeof createClient>,
   userId: string,
   id: string | undefined,
-): Promise<{ id: string; name: string } | null> {
+): Promise<TripRef | null> {
   if (!id) return null;
   const trimmed = id.trim();
   if (!trimmed) return null;
   const { data } = await supabase
     .from("trips")
-    .select("id, name")
+    .select("id, name, base_currency")
     .eq("user_id", userId)
     .eq("id", trimmed)
     .maybeSingle();
-  const row = data as { id?: string; name?: string } | null;
+  const row = data as { id?: string; name?: string; base_currency?: string | null } | null;
   if (!row?.id || !row?.name) return null;
-  return { id: row.id, name: row.name };
+  return { id: row.id, name: row.name, baseCurrency: normalizeCurrencyCode(row.base_currency) };
 }
 
 async function resolveTripRefFromNameIfUnique(
   supabase: ReturnType<typeof createClient>,
   userId: string,
   tripName: string | undefined,
-): Promise<{ id: string; name: string } | null> {
+): Promise<TripRef | null> {
   const trimmed = tripName?.trim();
   if (!trimmed) return null;
   const { data } = await supabase
     .from("trips")
-    .select("id, name")
+    .select("id, name, base_currency")
     .eq("user_id", userId)
     .ilike("name", trimmed)
     .order("status", { ascending: false })
     .order("created_at", { ascending: false });
-  const rows = (data ?? []) as Array<{ id?: string; name?: string }>;
+  const rows = (data ?? []) as Array<{ id?: string; name?: string; base_currency?: string | null }>;
   if (rows.length !== 1) return null;
   const row = rows[0];
   if (!row?.id || !row?.name) return null;
-  return { id: row.id, name: row.name };
+  return { id: row.id, name: row.name, baseCurrency: normalizeCurrencyCode(row.base_currency) };
+}
+
+async function loadActiveTrips(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+): Promise<ActiveTrip[]> {
+  const { data } = await supabase
+    .from("trips")
+    .select("id, name, base_currency, start_date, end_date")
+    .eq("user_id", userId)
+    .eq("status", "active");
+  return toActiveTrips((data ?? []) as TripRow[]);
 }
 
 async function validateCategoryRef(
@@ -856,65 +1353,62 @@ function resolveCategoryIDForParsedCategory(
   return ctx.categoryIDsByName.get(categoryName.toLowerCase()) ?? null;
 }
 
-async function countDailyVoiceUsage(
+// Counters are kept per quota day (local midnight in the quota timezone) and per UTC minute by
+// reserve_parse_quota, so this is a lookup rather than a scan of ai_usage_events.
+async function loadUsageCounts(
   supabase: ReturnType<typeof createClient>,
-  userId: string,
-  timezone: string,
-): Promise<number> {
-  // Enforce quota by server-observed day in the user's timezone (tamper-resistant).
-  const now = new Date();
-  const targetLocalDay = localDateKey(now.toISOString(), timezone);
-  const start = new Date(now.getTime() - 36 * 60 * 60 * 1000);
-  const end = new Date(now.getTime() + 36 * 60 * 60 * 1000);
-
-  const { data } = await supabase
-    .from("ai_usage_events")
-    .select("created_at")
-    .eq("user_id", userId)
-    .eq("event_type", "voice_parse")
-    .gte("created_at", start.toISOString())
-    .lt("created_at", end.toISOString());
-  const rows = (data ?? []) as Array<{ created_at?: string }>;
-  return rows.reduce((count, row) => {
-    if (!row.created_at) return count;
-    return localDateKey(row.created_at, timezone) === targetLocalDay ? count + 1 : count;
-  }, 0);
+  userID: string,
+  timeZone: string,
+): Promise<UsageCounts> {
+  const { data, error } = await supabase.rpc("parse_usage_counts", { p_user_id: userID, p_time_zone: timeZone });
+  if (error) throw new Error(`parse_usage_counts: ${error.message}`);
+  return usageCountsFromRow((data ?? {}) as Record<string, number>);
 }
 
-function localDateKey(isoString: string, timeZone: string): string {
-  const date = new Date(isoString);
-  if (Number.isNaN(date.getTime())) return dateKeyInTimeZone(new Date(), timeZone);
-  return dateKeyInTimeZone(date, timeZone);
+// One conditional upsert per window, so concurrent captures cannot all pass the same count.
+async function reserveQuotaSlot(ctx: ParseContext, kind: QuotaKind): Promise<QuotaSlot> {
+  const { data, error } = await ctx.adminClient.rpc("reserve_parse_quota", {
+    p_user_id: ctx.userID,
+    p_kind: kind,
+    p_time_zone: ctx.quotaTimeZone,
+    p_daily_limit: ctx.limits.daily[kind],
+    p_per_minute_limit: ctx.limits.perMinute[kind],
+  });
+  if (error || !data) throw new Error(`reserve_parse_quota: ${error?.message ?? "no result"}`);
+  const row = data as Record<string, number> & {
+    exceeded: "daily" | "minute" | null;
+    day_start: string;
+    minute_start: string;
+  };
+  return {
+    kind,
+    usage: usageCountsFromRow(row),
+    exceeded: row.exceeded,
+    dayStart: row.day_start,
+    minuteStart: row.minute_start,
+    used: false,
+  };
 }
 
-function resolveTimeZone(value: string | null | undefined): string | null {
-  const trimmed = value?.trim();
-  if (!trimmed) return null;
-  try {
-    // Throws for invalid or unsupported zone names.
-    new Intl.DateTimeFormat("en-US", { timeZone: trimmed }).format(new Date());
-    return trimmed;
-  } catch {
-    return null;
+// Never throws: it runs after the capture's result is decided. A slot that fails to release is lost for the
+// rest of the minute / day, which errs on the side of the limit.
+async function releaseUnusedQuotaSlot(ctx: ParseContext, slot: QuotaSlot | null): Promise<void> {
+  if (!slot || slot.exceeded || slot.used) return;
+  const { error } = await ctx.adminClient.rpc("release_parse_quota", {
+    p_user_id: ctx.userID,
+    p_kind: slot.kind,
+    p_day_start: slot.dayStart,
+    p_minute_start: slot.minuteStart,
+  });
+  if (error) {
+    console.error("[parse-expense] failed to release quota slot", { userID: ctx.userID, message: error.message });
   }
 }
 
-function dateKeyInTimeZone(date: Date, timeZone: string): string {
-  try {
-    const formatter = new Intl.DateTimeFormat("en-CA", {
-      timeZone,
-      year: "numeric",
-      month: "2-digit",
-      day: "2-digit",
-    });
-    const parts = formatter.formatToParts(date);
-    const year = parts.find((p) => p.type === "year")?.value ?? "1970";
-    const month = parts.find((p) => p.type === "month")?.value ?? "01";
-    const day = parts.find((p) => p.type === "day")?.value ?? "01";
-    return `${year}-${month}-${day}`;
-  } catch {
-    return date.toISOString().slice(0, 10);
-  }
+function localDateKey(isoString: string, timeZone: string): string {
+  const date = new Date(isoString);
+  if (Number.isNaN(date.getTime())) return dateKeyInTimeZone(new Date(), timeZone);
+  return dateKeyInTimeZone(date, timeZone);
 }
 
 function normalizePaymentMethodAliases(values: string[]): string[] {
@@ -955,107 +1449,46 @@ function detectPaymentMethodReference(
   return methodID ? (ctx.methodsById.get(methodID) ?? null) : null;
 }
 
-function parseLocalizedNumberToken(value: string): number | null {
-  let cleaned = value
-    .trim()
-    .replace(/\s+/g, "")
-    .replace(/[’']/g, "");
-  if (!/\d/.test(cleaned)) return null;
-
-  const commaCount = (cleaned.match(/,/g) ?? []).length;
-  const dotCount = (cleaned.match(/\./g) ?? []).length;
-  let decimalSeparator: "," | "." | null = null;
-
-  if (commaCount > 0 && dotCount > 0) {
-    const lastComma = cleaned.lastIndexOf(",");
-    const lastDot = cleaned.lastIndexOf(".");
-    decimalSeparator = lastComma > lastDot ? "," : ".";
-  } else if (commaCount === 1) {
-    const separatorIndex = cleaned.lastIndexOf(",");
-    const suffixDigits = cleaned.length - separatorIndex - 1;
-    decimalSeparator = suffixDigits === 3 ? null : ",";
-  } else if (dotCount === 1) {
-    const separatorIndex = cleaned.lastIndexOf(".");
-    const suffixDigits = cleaned.length - separatorIndex - 1;
-    decimalSeparator = suffixDigits === 3 ? null : ".";
-  }
-
-  if (decimalSeparator) {
-    const thousandsSeparator = decimalSeparator === "," ? "." : ",";
-    cleaned = cleaned.split(thousandsSeparator).join("");
-    if (decimalSeparator === ",") {
-      cleaned = cleaned.replace(",", ".");
-    }
-  } else {
-    cleaned = cleaned.replace(/[.,]/g, "");
-  }
-
-  if (cleaned.endsWith(".")) cleaned += "0";
-  const parsed = Number(cleaned);
-  if (!Number.isFinite(parsed) || parsed <= 0) return null;
-  return parsed;
+function selectCurrencyMention(mentions: CurrencyMention[], amountIndex: number | null): CurrencyMention | null {
+  if (mentions.length === 0) return null;
+  if (amountIndex === null) return mentions[0];
+  return mentions.reduce((best, mention) =>
+    Math.abs(mention.index - amountIndex) < Math.abs(best.index - amountIndex) ? mention : best
+  );
 }
 
-type AmountCandidate = {
-  token: string;
-  value: number;
-  score: number;
-  index: number;
-};
-
-function selectAmountCandidate(rawText: string): AmountCandidate | null {
-  const candidates = Array.from(
-    rawText.matchAll(/\d{1,3}(?:[.,\s'’]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?/g),
-  ).flatMap((match): AmountCandidate[] => {
-    const token = match[0];
-    const value = parseLocalizedNumberToken(token);
-    const index = match.index ?? -1;
-    if (value === null || index < 0) return [];
-    const score = scoreAmountCandidate(rawText, token, value, index);
-    return [{ token, value, score, index }];
-  });
-
-  if (candidates.length === 0) return null;
-  candidates.sort((a, b) => {
-    if (a.score !== b.score) return b.score - a.score;
-    if (a.value !== b.value) return b.value - a.value;
-    return b.token.length - a.token.length;
+function parseExpensesDeterministically(
+  rawText: string,
+  opts: {
+    currencyHint?: string;
+    defaultCurrency?: string;
+    tripCurrency?: string;
+    capturedAtDevice: string;
+    timezone: string;
+    languageHint?: "en" | "es";
+    categoryContext: ParserCategoryContext;
+  },
+): DeterministicParse[] {
+  const whole = parseExpenseDeterministically(rawText, opts);
+  const segments = splitCompoundUtterance(rawText);
+  if (segments.length < 2) return [whole];
+
+  // A currency or date said once ("... 120 and 80 pesos yesterday") applies to every segment that lacks its own.
+  const currencyHint = whole.metadata.hasExplicitCurrency ? whole.parsed.currency : opts.currencyHint;
+  return segments.map((segment) => {
+    const result = parseExpenseDeterministically(segment, { ...opts, currencyHint });
+    if (result.metadata.datePhrase) return result;
+    return {
+      ...result,
+      parsed: { ...result.parsed, expense_date: whole.parsed.expense_date },
+      metadata: {
+        ...result.metadata,
+        datePhrase: whole.metadata.datePhrase,
+        dateRule: whole.metadata.dateRule,
+        rejectedFutureDate: whole.metadata.rejectedFutureDate,
+      },
+    };
   });
-  return candidates[0] ?? null;
-}
-
-function scoreAmountCandidate(rawText: string, token: string, value: number, index: number): number {
-  let score = 0;
-  if (/[.,]\d{1,2}$/.test(token)) score += 30;
-  if (/[.,\s'’]\d{3}/.test(token)) score += 15;
-  if (/[$€£¥]/.test(token)) score += 25;
-
-  const start = Math.max(0, index - 12);
-  const end = Math.min(rawText.length, index + token.length + 12);
-  const contextWindow = rawText.slice(start, end).toLowerCase();
-  if (/\b(usd|mxn|eur|gbp|jpy|cad|brl|peso|pesos|dollar|dollars|euro|euros)\b/.test(contextWindow)) {
-    score += 40;
-  }
-
-  const sanitized = token.replace(/[,\s'’.]/g, "");
-  if (sanitized.length === 4 && value >= 1900 && value <= 2100) {
-    score -= 90;
-  }
-  if (isLikelyDateNumber(rawText, index, token.length)) {
-    score -= 120;
-  }
-  if (value > 500_000) {
-    score -= 50;
-  }
-  return score;
-}
-
-function isLikelyDateNumber(text: string, index: number, length: number): boolean {
-  const start = Math.max(0, index - 8);
-  const end = Math.min(text.length, index + length + 8);
-  const snippet = text.slice(start, end);
-  return /\d{1,4}\s*[-/]\s*\d{1,2}\s*[-/]\s*\d{1,4}/.test(snippet)
-    || /\d{1,2}\s*[-/]\s*\d{1,2}/.test(snippet);
 }
 
 function parseExpenseDeterministically(
@@ -1063,8 +1496,10 @@ function parseExpenseDeterministically(
   opts: {
     currencyHint?: string;
     defaultCurrency?: string;
+    tripCurrency?: string;
     capturedAtDevice: string;
     timezone: string;
+    languageHint?: "en" | "es";
     categoryContext: ParserCategoryContext;
   },
 ): DeterministicParse {
@@ -1078,21 +1513,25 @@ function parseExpenseDeterministically(
   const amountScore = amountCandidate?.score ?? 0;
 
   let hasExplicitCurrency = false;
-  let currency = (opts.currencyHint ?? opts.defaultCurrency ?? "USD").toUpperCase();
-  if (/(peso|pesos|mxn)\b/.test(lower)) {
-    currency = "MXN";
-    hasExplicitCurrency = true;
-  } else if (/(dollar|dollars|usd|\$)\b/.test(lower)) {
-    currency = "USD";
-    hasExplicitCurrency = true;
-  } else if (/\beur|euro|euros\b/.test(lower)) {
-    currency = "EUR";
+  let currency = (opts.tripCurrency ?? opts.currencyHint ?? opts.defaultCurrency ?? "USD").toUpperCase();
+  const currencyMention = selectCurrencyMention(
+    findCurrencyMentions(rawText, {
+      tripCurrency: opts.tripCurrency,
+      hintCurrency: opts.currencyHint,
+      profileCurrency: opts.defaultCurrency,
+    }),
+    amountCandidate?.index ?? null,
+  );
+  if (currencyMention) {
+    currency = currencyMention.code;
     hasExplicitCurrency = true;
   }
+  const currencyToken = currencyMention?.token ?? null;
   const usedDefaultCurrency = !hasExplicitCurrency;
 
   let category = "Other";
   let hasExplicitCategory = false;
+  let categoryAlias: string | null = null;
   const phraseAliases = Object.entries(opts.categoryContext.aliasToCategory)
     .filter(([phrase]) => phrase.includes(" "))
     .sort((a, b) => b[0].length - a[0].length);
@@ -1100,6 +1539,7 @@ function parseExpenseDeterministically(
     if (lower.includes(phrase)) {
       category = mappedCategory;
       hasExplicitCategory = true;
+      categoryAlias = phrase;
       break;
     }
   }
@@ -1109,16 +1549,26 @@ function parseExpenseDeterministically(
     const alias = opts.categoryContext.aliasToCategory[token];
     if (alias) {
       category = alias;
+      categoryAlias = token;
       hasExplicitCategory = opts.categoryContext.explicitCategoryTokens.has(token)
         || hasExplicitCategory;
       if (category !== "Other") break;
     }
   }
-  if (!opts.categoryContext.categoryNames.has(category)) category = "Other";
+  if (!opts.categoryContext.categoryNames.has(category)) {
+    category = "Other";
+    categoryAlias = null;
+  }
 
-  const expenseDate = inferExpenseDate(rawText, opts.capturedAtDevice, opts.timezone);
+  const dateResolution = inferExpenseDate(
+    rawText,
+    opts.capturedAtDevice,
+    opts.timezone,
+    opts.languageHint ?? inferLanguageFromText(rawText),
+  );
   const builtDescription = buildDescription(rawText, {
     amountMatch,
+    datePhrase: dateResolution.phrase,
     category,
     aliasToCategory: opts.categoryContext.aliasToCategory,
   });
@@ -1151,9 +1601,10 @@ function parseExpenseDeterministically(
       category,
       description: refinedNarrative.description,
       merchant: refinedNarrative.merchant,
-      expense_date: expenseDate,
+      expense_date: dateResolution.date,
     },
     confidence: clamp(confidence, 0.4, 0.99),
+    sourceText: rawText,
     metadata: {
       hasAmount,
       amountToken: amountMatch,
@@ -1161,26 +1612,55 @@ function parseExpenseDeterministically(
       hasExplicitCurrency,
       usedDefaultCurrency,
       hasExplicitCategory,
+      categoryAlias,
+      currencyToken,
       tokenCount: tokens.length,
+      datePhrase: dateResolution.phrase,
+      dateRule: dateResolution.rule,
+      rejectedFutureDate: dateResolution.rejectedFutureDate,
     },
   };
 }
 
-async function parseExpenseWithOpenAI(opts: {
-  apiKey: string | undefined;
+// Picks the rules-engine parse covering the same text as a provider outcome.
+function matchDeterministicParse(
+  outcome: ParseOutcome,
+  index: number,
+  outcomeCount: number,
+  deterministicParses: DeterministicParse[],
+  opts: Parameters<typeof parseExpenseDeterministically>[1],
+): DeterministicParse {
+  if (deterministicParses.length === outcomeCount) return deterministicParses[index];
+  const key = outcome.sourceText.trim().toLowerCase();
+  return deterministicParses.find((parse) => parse.sourceText.trim().toLowerCase() === key)
+    ?? parseExpenseDeterministically(outcome.sourceText, opts);
+}
+
+type ExpenseParserInput = {
   rawText: string;
   capturedAtDevice: string;
   timezone: string;
   currencyHint?: string;
   languageHint?: "en" | "es";
   defaultCurrency?: string;
+  tripCurrency?: string;
   categoryContext: ParserCategoryContext;
-}): Promise<ParseOutcome | null> {
-  if (!opts.apiKey) return null;
+};
+
+async function parseExpenseWithProvider(
+  provider: ExpenseParserProvider | null,
+  opts: ExpenseParserInput,
+): Promise<{ outcomes: ParseOutcome[] | null; usage: AIUsage | null }> {
+  if (!provider) return { outcomes: null, usage: null };
 
   const fallbackDate = localDateKey(opts.capturedAtDevice, opts.timezone);
-  const defaultCurrency = (opts.currencyHint ?? opts.defaultCurrency ?? "USD").toUpperCase();
+  const defaultCurrency = (opts.tripCurrency ?? opts.currencyHint ?? opts.defaultCurrency ?? "USD").toUpperCase();
   const outputLanguageHint = normalizeLanguageHint(opts.languageHint);
+  const currencyPreferences: CurrencyPreferences = {
+    tripCurrency: opts.tripCurrency,
+    hintCurrency: opts.currencyHint,
+    profileCurrency: opts.defaultCurrency,
+  };
 
   const allowedCategories = opts.categoryContext.categories.map((c) => c.name);
   const categoryHintsText = opts.categoryContext.categories
@@ -1191,15 +1671,17 @@ async function parseExpenseWithOpenAI(opts: {
     .join("\n");
 
   const prompt = [
-    "Extract one personal expense from the user text.",
-    "Return JSON only with keys: amount, currency, category, description, merchant, expense_date, confidence.",
+    "Extract the personal expenses from the user text. Usually there is one; return several only when the user lists separate purchases, each with its own amount.",
+    "Return JSON only with key expenses: an array of objects with keys: amount, currency, category, description, merchant, expense_date, confidence, source_text.",
     "Rules:",
     "- amount: number > 0",
-    `- currency: ISO code, default to ${defaultCurrency} when omitted`,
+    `- currency: ISO 4217 code, default to ${defaultCurrency} when omitted; a bare "$" means ${dollarSignCurrency(currencyPreferences)} and bare "pesos" means ${pesoCurrency(currencyPreferences)}`,
     `- category: one of ${allowedCategories.join(", ")}`,
-    `- expense_date: YYYY-MM-DD, default to ${fallbackDate} if not specified`,
+    `- expense_date: YYYY-MM-DD, default to ${fallbackDate} if not specified; today is ${fallbackDate} (${weekdayName(fallbackDate)}), never return a later date`,
     "- confidence: number 0 to 1",
     "- merchant can be null",
+    "- source_text: the exact part of the user text that describes this expense",
+    "- a currency, date or payment method said once applies to every expense that does not state its own",
     "- never use payment method/card words as merchant (e.g. card, tarjeta, Amex, Visa, Mastercard)",
     "- merchant must be the business/place only; if unclear return null",
     "- description should be concise and useful (3-10 words when possible), remove filler words and rambling",
@@ -1212,62 +1694,66 @@ async function parseExpenseWithOpenAI(opts: {
     `User text: ${opts.rawText}`,
   ].join("\n");
 
+  let usage: AIUsage | null = null;
   try {
-    const res = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${opts.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: OPENAI_MODEL,
-        temperature: 0,
-        response_format: { type: "json_object" },
-        messages: [
-          {
-            role: "system",
-            content: "You parse personal finance expense messages into strict JSON.",
-          },
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
+    const completion = await provider.complete({
+      messages: [
+        {
+          role: "system",
+          content: "You parse personal finance expense messages into strict JSON.",
+        },
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
+      rawText: opts.rawText,
+      rulesEngineAnswer: () => ({
+        expenses: parseExpensesDeterministically(opts.rawText, opts).map((result) => ({
+          ...result.parsed,
+          confidence: result.confidence,
+          source_text: result.sourceText,
+        })),
       }),
     });
-
-    if (!res.ok) {
-      console.error("OpenAI fallback failed", res.status, await res.text());
-      return null;
+    if (!completion) return { outcomes: null, usage: null };
+    usage = completion.usage;
+
+    const parsedJson = JSON.parse(completion.content);
+    const items: unknown[] = Array.isArray(parsedJson?.expenses) ? parsedJson.expenses : [parsedJson];
+    const outcomes: ParseOutcome[] = [];
+    for (const item of items.slice(0, MAX_EXPENSES_PER_CAPTURE)) {
+      const record = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+      const sourceTextRaw = typeof record.source_text === "string" ? record.source_text.trim() : "";
+      const sourceText = items.length > 1 && sourceTextRaw && opts.rawText.toLowerCase().includes(sourceTextRaw.toLowerCase())
+        ? sourceTextRaw
+        : opts.rawText;
+      const normalized = normalizeParsedExpense(record, {
+        rawText: sourceText,
+        fallbackDate,
+        defaultCurrency,
+        languageHint: outputLanguageHint,
+        categoryContext: opts.categoryContext,
+      });
+      if (!normalized) continue;
+
+      const confidence = typeof record.confidence === "number"
+        ? clamp(record.confidence, 0.5, 0.99)
+        : 0.94;
+
+      outcomes.push({
+        parsed: normalized,
+        confidence,
+        provider: provider.name,
+        model: provider.model,
+        sourceText,
+      });
     }
 
-    const payload = await res.json();
-    const content = payload?.choices?.[0]?.message?.content;
-    if (typeof content !== "string") return null;
-
-    const parsedJson = JSON.parse(content);
-    const normalized = normalizeParsedExpense(parsedJson, {
-      rawText: opts.rawText,
-      fallbackDate,
-      defaultCurrency,
-      languageHint: outputLanguageHint,
-      categoryContext: opts.categoryContext,
-    });
-    if (!normalized) return null;
-
-    const confidence = typeof parsedJson?.confidence === "number"
-      ? clamp(parsedJson.confidence, 0.5, 0.99)
-      : 0.94;
-
-    return {
-      parsed: normalized,
-      confidence,
-      provider: "openai",
-      model: OPENAI_MODEL,
-    };
+    return { outcomes: outcomes.length > 0 ? outcomes : null, usage };
   } catch (error) {
-    console.error("OpenAI fallback error", error);
-    return null;
+    console.error("Expense parser provider error", provider.name, error);
+    return { outcomes: null, usage };
   }
 }
 
@@ -1292,7 +1778,7 @@ function normalizeParsedExpense(
   if (!Number.isFinite(amount) || amount <= 0) return null;
 
   const currencyRaw = typeof record.currency === "string" ? record.currency.trim().toUpperCase() : "";
-  const currency = /^[A-Z]{3}$/.test(currencyRaw) ? currencyRaw : opts.defaultCurrency;
+  const currency = normalizeCurrencyCode(currencyRaw) ?? opts.defaultCurrency;
 
   const categoryRaw = typeof record.category === "string" ? record.category.trim() : "Other";
   const category = normalizeCategory(categoryRaw, opts.categoryContext);
@@ -1310,7 +1796,8 @@ function normalizeParsedExpense(
   });
 
   const dateRaw = typeof record.expense_date === "string" ? record.expense_date.trim() : "";
-  const expenseDate = /^\d{4}-\d{2}-\d{2}$/.test(dateRaw) ? dateRaw : opts.fallbackDate;
+  // The model cannot date an expense after the capture; fall back to the capture date instead.
+  const expenseDate = /^\d{4}-\d{2}-\d{2}$/.test(dateRaw) && dateRaw <= opts.fallbackDate ? dateRaw : opts.fallbackDate;
 
   return {
     amount,
@@ -1331,24 +1818,22 @@ function normalizeCategory(value: string, ctx: ParserCategoryContext): string {
   return "Other";
 }
 
-function inferExpenseDate(rawText: string, capturedAtDevice: string, timezone = "UTC"): string {
-  const base = new Date(capturedAtDevice);
-  if (Number.isNaN(base.getTime())) return localDateKey(new Date().toISOString(), timezone);
-  const lower = rawText.toLowerCase();
-  if (lower.includes("yesterday")) {
-    base.setUTCDate(base.getUTCDate() - 1);
-  }
-  return localDateKey(base.toISOString(), timezone);
-}
-
 function buildDescription(
   rawText: string,
-  opts: { amountMatch: string | null; category: string; aliasToCategory: Record<string, string> },
+  opts: {
+    amountMatch: string | null;
+    datePhrase: string | null;
+    category: string;
+    aliasToCategory: Record<string, string>;
+  },
 ): string {
   let text = rawText.trim();
   if (opts.amountMatch) {
     text = text.replace(opts.amountMatch, "").replace(/\s{2,}/g, " ").trim();
   }
+  if (opts.datePhrase) {
+    text = text.replace(new RegExp(escapeRegex(opts.datePhrase), "i"), " ").replace(/\s{2,}/g, " ").trim();
+  }
 
   const categoryWords = Object.entries(opts.aliasToCategory)
     .filter(([, category]) => category === opts.category)
@@ -1493,7 +1978,7 @@ function sanitizeDescriptionStrict(opts: {
   const rawLower = opts.rawText.trim().toLowerCase();
 
   const hasAmountNoise = /\d{1,3}(?:[.,\s'’]\d{3})*(?:[.,]\d{1,2})?/.test(cleaned)
-    || /\b(peso|pesos|mxn|usd|eur|gbp|jpy|cad|brl|dollar|dollars|euro|euros)\b/i.test(cleaned);
+    || containsCurrencyTerm(cleaned);
   const hasPaymentNoise = containsAnyPhrase(lower, opts.paymentMethodTokens);
   const hasVerbNoise = /\b(me gast[ée]|gast[ée]|gaste|pagu[ée]|pague|compr[ée]|compre|spent|paid|bought)\b/i.test(cleaned);
   const wordCount = cleaned.split(/\s+/).filter(Boolean).length;
@@ -1517,11 +2002,11 @@ function compactDescriptionText(input: string): string {
   let text = input.trim();
   if (!text) return "";
 
-  text = text
+  for (const spoken of extractSpokenAmounts(text).reverse()) {
+    text = `${text.slice(0, spoken.index)} ${text.slice(spoken.index + spoken.token.length)}`;
+  }
+  text = stripCurrencyTerms(text)
     .replace(/\b\d+(?:[.,]\d{1,2})?\b/g, " ")
-    .replace(/\b(mxn|usd|eur|gbp|jpy|cad|brl)\b/gi, " ")
-    .replace(/[€$£¥]/g, " ")
-    .replace(/\b(peso|pesos|dollar|dollars|euro|euros|pound|pounds|yen)\b/gi, " ")
     .replace(/\b(umm+|um+|uh+|mmm+|like|you know|kinda|sorta)\b/gi, " ")
     .replace(/\b(este+|eh+|pues|osea|o sea|como que|esteem?)\b/gi, " ")
     .replace(/\b(i|we|my|me|yo|nosotros|nosotras|con mis|con mi)\b/gi, " ")
@@ -1574,7 +2059,7 @@ function sanitizeMerchantStrict(candidate: string | null | undefined, paymentMet
 
   if (normalized.split(/\s+/).filter(Boolean).length > 4) return null;
   if (/\d{1,3}(?:[.,\s'’]\d{3})*(?:[.,]\d{1,2})?/.test(normalized)) return null;
-  if (/\b(peso|pesos|mxn|usd|eur|gbp|jpy|cad|brl|dollar|dollars|euro|euros)\b/i.test(normalized)) return null;
+  if (containsCurrencyTerm(normalized)) return null;
   if (/\b(me gast[ée]|gast[ée]|gaste|pagu[ée]|pague|compr[ée]|compre|spent|paid|bought)\b/i.test(normalized)) return null;
   if (containsAnyPhrase(lower, paymentMethodTokens)) return null;
 
@@ -1646,14 +2131,6 @@ function isVoicePlaceholderText(value: string): boolean {
   return normalized === "voice recording";
 }
 
-function escapeRegex(value: string): string {
-  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
-
-function clamp(value: number, min: number, max: number): number {
-  return Math.min(max, Math.max(min, value));
-}
-
 type AuthResolution = {
   user: { id: string } | null;
   strategy: string | null;
@@ -1754,7 +2231,7 @@ function summarizeAuthAttempts(attempts: AuthAttempt[]): string[] {
   return attempts.map((attempt) => `${attempt.strategy}:${attempt.ok ? "ok" : "failed"}`);
 }
 
-function json(body: ParseExpenseResponse, status: number) {
+function json(body: ParseExpenseResponse | ParseExpenseBatchResponse, status: number) {
   return new Response(JSON.stringify(body), {
     status,
     headers: {
@@ -0,0 +1,86 @@
+import { escapeRegex, wordRegex } from "./dates.ts";
+import { clamp } from "./numbers.ts";
+import type { ParseOutcome } from "./outcomes.ts";
+
+export type MerchantRow = {
+  name: string;
+  normalized_name: string;
+  aliases: string[] | null;
+  default_category_id: string | null;
+  default_payment_method_id: string | null;
+};
+
+export type MerchantMemoryEntry = {
+  name: string;
+  defaultCategoryID: string | null;
+  defaultPaymentMethodID: string | null;
+};
+
+// Keyed by normalized merchant name and every alias (see public.normalize_merchant_name).
+export type MerchantMemory = Map<string, MerchantMemoryEntry>;
+
+// Rows should come most-used first, so the busier merchant keeps a shared alias.
+export function buildMerchantMemory(rows: MerchantRow[]): MerchantMemory {
+  const memory: MerchantMemory = new Map();
+  for (const row of rows) {
+    memory.set(row.normalized_name, {
+      name: row.name,
+      defaultCategoryID: row.default_category_id,
+      defaultPaymentMethodID: row.default_payment_method_id,
+    });
+  }
+  // Aliases never shadow another merchant's own name.
+  for (const row of rows) {
+    const entry = memory.get(row.normalized_name);
+    if (!entry) continue;
+    for (const alias of row.aliases ?? []) {
+      const key = normalizeMerchantKey(alias);
+      if (key && !memory.has(key)) memory.set(key, entry);
+    }
+  }
+  return memory;
+}
+
+// Same normalization as public.normalize_merchant_name.
+export function normalizeMerchantKey(value: string | null | undefined): string | null {
+  const key = (value ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+  return key || null;
+}
+
+// Runs after sanitizeMerchantStrict: canonicalizes a known merchant (or finds one in the transcript when the
+// parser found none), fills the category when the parser fell back to Other, and raises confidence.
+export function applyMerchantMemory(
+  outcome: ParseOutcome,
+  memory: MerchantMemory,
+  categories: { id: string; name: string }[],
+) {
+  if (memory.size === 0) return;
+  const parsed = outcome.parsed;
+  const parsedKey = normalizeMerchantKey(parsed.merchant);
+  let entry = parsedKey ? memory.get(parsedKey) ?? null : null;
+  if (!entry && !parsedKey) {
+    const lower = outcome.sourceText.toLowerCase();
+    const key = Array.from(memory.keys())
+      .filter((candidate) => candidate.length >= 3 && lower.includes(candidate))
+      .sort((a, b) => b.length - a.length)
+      .find((candidate) => wordRegex(escapeRegex(candidate)).test(lower));
+    entry = key ? memory.get(key) ?? null : null;
+  }
+  if (!entry) return;
+
+  const renamedMerchant = parsed.merchant !== entry.name;
+  const defaultCategory = entry.defaultCategoryID
+    ? categories.find((category) => category.id === entry.defaultCategoryID) ?? null
+    : null;
+  const filledCategory = parsed.category === "Other" && defaultCategory !== null && defaultCategory.name !== "Other";
+
+  outcome.parsed = {
+    ...parsed,
+    merchant: entry.name,
+    category: filledCategory && defaultCategory ? defaultCategory.name : parsed.category,
+  };
+  let boost = 0.04;
+  if (filledCategory || defaultCategory?.name === parsed.category) boost += 0.04;
+  outcome.confidence = clamp(outcome.confidence + boost, 0.4, 0.99);
+  outcome.merchantMemory = { entry, renamedMerchant, filledCategory };
+}
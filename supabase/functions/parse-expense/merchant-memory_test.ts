@@ -0,0 +1,96 @@
+import { assertAlmostEquals, assertEquals } from "jsr:@std/assert@1";
+import type { ParsedExpense } from "../_shared/types.ts";
+import { applyMerchantMemory, buildMerchantMemory, type MerchantRow, normalizeMerchantKey } from "./merchant-memory.ts";
+import type { ParseOutcome } from "./outcomes.ts";
+
+const CATEGORIES = [
+  { id: "c-food", name: "Food" },
+  { id: "c-groceries", name: "Groceries" },
+  { id: "c-other", name: "Other" },
+];
+
+const ROWS: MerchantRow[] = [
+  {
+    name: "Oxxo",
+    normalized_name: "oxxo",
+    aliases: ["Oxo", "el oxxo"],
+    default_category_id: "c-groceries",
+    default_payment_method_id: "pm-debit",
+  },
+  {
+    name: "Starbucks",
+    normalized_name: "starbucks",
+    aliases: ["starbux", "oxxo"],
+    default_category_id: "c-food",
+    default_payment_method_id: null,
+  },
+];
+
+function outcome(sourceText: string, parsed: Partial<ParsedExpense> = {}): ParseOutcome {
+  return {
+    parsed: {
+      amount: 45,
+      currency: "MXN",
+      category: "Other",
+      description: null,
+      merchant: null,
+      expense_date: "2026-03-09",
+      ...parsed,
+    },
+    confidence: 0.8,
+    provider: "deterministic",
+    model: "rules-v1",
+    sourceText,
+  };
+}
+
+Deno.test("merchant keys match public.normalize_merchant_name", () => {
+  assertEquals(normalizeMerchantKey("  Oxxo   Centro "), "oxxo centro");
+  assertEquals(normalizeMerchantKey("   "), null);
+  assertEquals(normalizeMerchantKey(null), null);
+});
+
+Deno.test("aliases resolve to their merchant but never shadow another merchant's name", () => {
+  const memory = buildMerchantMemory(ROWS);
+  assertEquals(memory.get("oxo")?.name, "Oxxo");
+  assertEquals(memory.get("starbux")?.name, "Starbucks");
+  assertEquals(memory.get("oxxo")?.name, "Oxxo");
+});
+
+Deno.test("a known merchant is canonicalized and fills a category the parser left as Other", () => {
+  const parsed = outcome("chips 45 en oxo", { merchant: "oxo" });
+  applyMerchantMemory(parsed, buildMerchantMemory(ROWS), CATEGORIES);
+  assertEquals(parsed.parsed.merchant, "Oxxo");
+  assertEquals(parsed.parsed.category, "Groceries");
+  assertAlmostEquals(parsed.confidence, 0.88);
+  assertEquals(parsed.merchantMemory, {
+    entry: { name: "Oxxo", defaultCategoryID: "c-groceries", defaultPaymentMethodID: "pm-debit" },
+    renamedMerchant: true,
+    filledCategory: true,
+  });
+});
+
+Deno.test("a parsed category is kept even when the merchant's default differs", () => {
+  const parsed = outcome("snacks 45 at Oxxo", { merchant: "Oxxo", category: "Food" });
+  applyMerchantMemory(parsed, buildMerchantMemory(ROWS), CATEGORIES);
+  assertEquals(parsed.parsed.category, "Food");
+  assertEquals(parsed.merchantMemory?.filledCategory, false);
+  assertAlmostEquals(parsed.confidence, 0.84);
+});
+
+Deno.test("without a parsed merchant the transcript is searched for a whole-word match", () => {
+  const found = outcome("café 80 en el starbux de la esquina");
+  applyMerchantMemory(found, buildMerchantMemory(ROWS), CATEGORIES);
+  assertEquals([found.parsed.merchant, found.parsed.category], ["Starbucks", "Food"]);
+
+  const partWord = outcome("oxxonian souvenir 80");
+  applyMerchantMemory(partWord, buildMerchantMemory(ROWS), CATEGORIES);
+  assertEquals(partWord.merchantMemory, undefined);
+});
+
+Deno.test("an unknown parsed merchant is left alone", () => {
+  const parsed = outcome("tacos 80 at Oxxo Express", { merchant: "Taqueria Orinoco" });
+  applyMerchantMemory(parsed, buildMerchantMemory(ROWS), CATEGORIES);
+  assertEquals(parsed.parsed.merchant, "Taqueria Orinoco");
+  assertEquals(parsed.confidence, 0.8);
+});
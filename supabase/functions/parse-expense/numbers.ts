@@ -0,0 +1,200 @@
+import { containsCurrencyTerm } from "../_shared/currencies.ts";
+
+// Accepts either decimal separator ("1.234,50", "1,234.50"); a lone separator before exactly 3 digits is read as
+// thousands. Null for anything that is not a positive number.
+export function parseLocalizedNumberToken(value: string): number | null {
+  let cleaned = value
+    .trim()
+    .replace(/\s+/g, "")
+    .replace(/[’']/g, "");
+  if (!/\d/.test(cleaned)) return null;
+
+  const commaCount = (cleaned.match(/,/g) ?? []).length;
+  const dotCount = (cleaned.match(/\./g) ?? []).length;
+  let decimalSeparator: "," | "." | null = null;
+
+  if (commaCount > 0 && dotCount > 0) {
+    const lastComma = cleaned.lastIndexOf(",");
+    const lastDot = cleaned.lastIndexOf(".");
+    decimalSeparator = lastComma > lastDot ? "," : ".";
+  } else if (commaCount === 1) {
+    const separatorIndex = cleaned.lastIndexOf(",");
+    const suffixDigits = cleaned.length - separatorIndex - 1;
+    decimalSeparator = suffixDigits === 3 ? null : ",";
+  } else if (dotCount === 1) {
+    const separatorIndex = cleaned.lastIndexOf(".");
+    const suffixDigits = cleaned.length - separatorIndex - 1;
+    decimalSeparator = suffixDigits === 3 ? null : ".";
+  }
+
+  if (decimalSeparator) {
+    const thousandsSeparator = decimalSeparator === "," ? "." : ",";
+    cleaned = cleaned.split(thousandsSeparator).join("");
+    if (decimalSeparator === ",") {
+      cleaned = cleaned.replace(",", ".");
+    }
+  } else {
+    cleaned = cleaned.replace(/[.,]/g, "");
+  }
+
+  if (cleaned.endsWith(".")) cleaned += "0";
+  const parsed = Number(cleaned);
+  if (!Number.isFinite(parsed) || parsed <= 0) return null;
+  return parsed;
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+const NUMBER_WORD_VALUES: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17,
+  eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70,
+  eighty: 80, ninety: 90,
+  un: 1, uno: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9,
+  diez: 10, once: 11, doce: 12, trece: 13, catorce: 14, quince: 15, dieciseis: 16, "dieciséis": 16,
+  diecisiete: 17, dieciocho: 18, diecinueve: 19, veinte: 20, veintiuno: 21, "veintiún": 21, veintiun: 21,
+  veintiuna: 21, veintidos: 22, "veintidós": 22, veintitres: 23, "veintitrés": 23, veinticuatro: 24,
+  veinticinco: 25, veintiseis: 26, "veintiséis": 26, veintisiete: 27, veintiocho: 28, veintinueve: 29,
+  treinta: 30, cuarenta: 40, cincuenta: 50, sesenta: 60, setenta: 70, ochenta: 80, noventa: 90,
+  cien: 100, ciento: 100, doscientos: 200, doscientas: 200, trescientos: 300, trescientas: 300,
+  cuatrocientos: 400, cuatrocientas: 400, quinientos: 500, quinientas: 500, seiscientos: 600,
+  seiscientas: 600, setecientos: 700, setecientas: 700, ochocientos: 800, ochocientas: 800,
+  novecientos: 900, novecientas: 900,
+};
+
+// "hundred" multiplies what came before it; the others close a group ("dos mil quinientos").
+const NUMBER_SCALE_WORDS: Record<string, number> = {
+  hundred: 100,
+  thousand: 1_000, grand: 1_000, mil: 1_000, k: 1_000,
+  million: 1_000_000, millions: 1_000_000, "millón": 1_000_000, millon: 1_000_000, millones: 1_000_000,
+};
+
+const NUMBER_HALF_WORDS = new Set(["half", "medio", "media"]);
+const NUMBER_CONNECTOR_WORDS = new Set(["and", "y", "a"]);
+
+// Words that are numbers but also everyday words ("one coffee", "una cerveza", "once"); alone they are not amounts.
+const AMBIGUOUS_NUMBER_WORDS = new Set(["one", "un", "una", "uno", "once", "a"]);
+
+type SpokenAmount = {
+  token: string;
+  value: number;
+  index: number;
+};
+
+export function extractSpokenAmounts(rawText: string): SpokenAmount[] {
+  const words = Array.from(rawText.matchAll(/\d+(?:[.,]\d+)?|\p{L}+/gu)).map((match) => ({
+    text: match[0],
+    lower: match[0].toLowerCase(),
+    index: match.index ?? 0,
+  }));
+  const isNumberWord = (lower: string) => lower in NUMBER_WORD_VALUES || lower in NUMBER_SCALE_WORDS
+    || NUMBER_HALF_WORDS.has(lower);
+  const amounts: SpokenAmount[] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    const first = words[i];
+    const startsWithDigits = /^\d/.test(first.lower);
+    // Digits only join a spoken amount as a multiplier: "2k", "1.5 mil", "3 millones".
+    const startsRun = startsWithDigits
+      ? (words[i + 1]?.lower ?? "") in NUMBER_SCALE_WORDS && isAdjacentWord(rawText, first, words[i + 1])
+      : (first.lower in NUMBER_WORD_VALUES || ["mil", "medio", "media", "half"].includes(first.lower)
+        || (first.lower === "a" && (words[i + 1]?.lower ?? "") in NUMBER_SCALE_WORDS));
+    if (!startsRun) {
+      i += 1;
+      continue;
+    }
+
+    let end = i;
+    while (end + 1 < words.length && isAdjacentWord(rawText, words[end], words[end + 1])) {
+      const next = words[end + 1].lower;
+      if (isNumberWord(next)) {
+        end += 1;
+        continue;
+      }
+      // "one hundred and twenty", "treinta y cinco", "mil y medio", "a million and a half".
+      const afterConnector = words[end + 2];
+      if (
+        NUMBER_CONNECTOR_WORDS.has(next) && afterConnector && isAdjacentWord(rawText, words[end + 1], afterConnector)
+        && (isNumberWord(afterConnector.lower) || afterConnector.lower === "a")
+      ) {
+        end += 1;
+        continue;
+      }
+      break;
+    }
+    // Never end on a connector.
+    while (end > i && NUMBER_CONNECTOR_WORDS.has(words[end].lower)) end -= 1;
+
+    const run = words.slice(i, end + 1);
+    const value = evaluateNumberWords(run.map((word) => word.lower));
+    const isLoneAmbiguousWord = run.length === 1 && AMBIGUOUS_NUMBER_WORDS.has(run[0].lower)
+      && !containsCurrencyTerm(rawText.slice(run[0].index + run[0].text.length, run[0].index + run[0].text.length + 12));
+    if (value !== null && value > 0 && !isLoneAmbiguousWord) {
+      const lastWord = run[run.length - 1];
+      const index = run[0].index;
+      amounts.push({ token: rawText.slice(index, lastWord.index + lastWord.text.length), value, index });
+    }
+    i = end + 1;
+  }
+  return amounts;
+}
+
+function isAdjacentWord(
+  rawText: string,
+  left: { index: number; text: string },
+  right: { index: number } | undefined,
+): boolean {
+  if (!right) return false;
+  return /^[\s-]*$/.test(rawText.slice(left.index + left.text.length, right.index));
+}
+
+function evaluateNumberWords(words: string[]): number | null {
+  let total = 0;
+  let current = 0;
+  let lastScale = 0;
+  // Spoken prices: "five fifty" = 5.50, "nineteen ninety nine" = 19.99, "tres cincuenta" = 3.50.
+  let cents: number | null = null;
+  for (const word of words) {
+    if (cents !== null) {
+      if (!(word in NUMBER_WORD_VALUES) || NUMBER_WORD_VALUES[word] >= 100) return null;
+      cents += NUMBER_WORD_VALUES[word];
+      continue;
+    }
+    if (/^\d/.test(word)) {
+      const numeric = parseLocalizedNumberToken(word);
+      if (numeric === null) return null;
+      current += numeric;
+    } else if (NUMBER_CONNECTOR_WORDS.has(word)) {
+      continue;
+    } else if (NUMBER_HALF_WORDS.has(word)) {
+      // "medio millón" = 0.5 × scale; "mil y medio" / "a thousand and a half" = + half the last scale.
+      if (current === 0 && lastScale > 0) {
+        total += lastScale / 2;
+      } else {
+        current += 0.5;
+      }
+    } else if (word === "hundred") {
+      current = (current || 1) * 100;
+    } else if (word in NUMBER_SCALE_WORDS) {
+      const scale = NUMBER_SCALE_WORDS[word];
+      total += (current || 1) * scale;
+      current = 0;
+      lastScale = scale;
+    } else if (word in NUMBER_WORD_VALUES) {
+      const value = NUMBER_WORD_VALUES[word];
+      if (value >= 10 && value < 100 && current > 0 && current < 100 && total === 0) {
+        cents = value;
+      } else {
+        current += value;
+      }
+    } else {
+      return null;
+    }
+  }
+  if (cents !== null && cents >= 100) return null;
+  const value = total + current + (cents ?? 0) / 100;
+  return Number.isFinite(value) ? Math.round(value * 100) / 100 : null;
+}
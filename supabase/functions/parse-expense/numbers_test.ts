@@ -0,0 +1,40 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { extractSpokenAmounts, parseLocalizedNumberToken } from "./numbers.ts";
+
+function spoken(text: string) {
+  return extractSpokenAmounts(text).map((amount) => [amount.token, amount.value]);
+}
+
+Deno.test("parseLocalizedNumberToken reads either decimal separator", () => {
+  assertEquals(parseLocalizedNumberToken("1.234,50"), 1234.5);
+  assertEquals(parseLocalizedNumberToken("1,234.50"), 1234.5);
+  assertEquals(parseLocalizedNumberToken("45,50"), 45.5);
+  // A lone separator before exactly three digits is a thousands separator.
+  assertEquals(parseLocalizedNumberToken("1,200"), 1200);
+  assertEquals(parseLocalizedNumberToken("1.200"), 1200);
+  assertEquals(parseLocalizedNumberToken("0"), null);
+  assertEquals(parseLocalizedNumberToken("abc"), null);
+});
+
+Deno.test("spoken amounts in English and Spanish", () => {
+  assertEquals(spoken("ciento veinte pesos de tacos"), [["ciento veinte", 120]]);
+  assertEquals(spoken("twenty five bucks for lunch"), [["twenty five", 25]]);
+  assertEquals(spoken("renta dos mil quinientos"), [["dos mil quinientos", 2500]]);
+  assertEquals(spoken("treinta y cinco de propina"), [["treinta y cinco", 35]]);
+  assertEquals(spoken("one hundred and twenty for gas"), [["one hundred and twenty", 120]]);
+  assertEquals(spoken("five fifty coffee"), [["five fifty", 5.5]]);
+});
+
+Deno.test("shorthand multipliers and halves", () => {
+  assertEquals(spoken("laptop 2k"), [["2k", 2000]]);
+  assertEquals(spoken("coche 1.5 mil"), [["1.5 mil", 1500]]);
+  assertEquals(spoken("enganche medio millón"), [["medio millón", 500000]]);
+  assertEquals(spoken("mil y medio de súper"), [["mil y medio", 1500]]);
+});
+
+Deno.test("a lone one/una is a quantity unless a currency follows", () => {
+  assertEquals(spoken("one coffee"), []);
+  assertEquals(spoken("una cerveza"), []);
+  assertEquals(spoken("a taxi"), []);
+  assertEquals(spoken("one dollar tip"), [["one", 1]]);
+});
@@ -0,0 +1,227 @@
+import type {
+  ExpenseDateRule,
+  ParsedExpense,
+  ParseExplanation,
+  ParseFieldDisagreement,
+  ParseFieldTrace,
+} from "../_shared/types.ts";
+import { listAmountCandidates, STRONG_AMOUNT_EVIDENCE_SCORE } from "./amounts.ts";
+import type { MerchantMemoryEntry } from "./merchant-memory.ts";
+import { clamp } from "./numbers.ts";
+
+export type DeterministicParse = {
+  parsed: ParsedExpense;
+  confidence: number;
+  sourceText: string;
+  metadata: {
+    hasAmount: boolean;
+    amountToken: string | null;
+    amountScore: number;
+    hasExplicitCurrency: boolean;
+    usedDefaultCurrency: boolean;
+    hasExplicitCategory: boolean;
+    // The alias or hint phrase that picked the category.
+    categoryAlias: string | null;
+    currencyToken: string | null;
+    tokenCount: number;
+    datePhrase: string | null;
+    dateRule: ExpenseDateRule;
+    rejectedFutureDate: boolean;
+  };
+};
+
+export type ParseOutcome = {
+  parsed: ParsedExpense;
+  confidence: number;
+  provider: string;
+  model: string;
+  // The part of the transcript this expense was read from (the whole transcript for single captures).
+  sourceText: string;
+  // Fields where the provider and the rules engine disagreed; see reconcileParseOutcome.
+  disagreements?: ParseFieldDisagreement[];
+  // Fields applyStrictPostValidation rewrote.
+  rewrites?: ParseExplanation["post_validation"];
+  merchantMemory?: {
+    entry: MerchantMemoryEntry;
+    renamedMerchant: boolean;
+    filledCategory: boolean;
+  };
+};
+
+// Compares a provider outcome with the rules engine field by field. Deterministic values win where the
+// transcript gives hard evidence for them; every disagreement costs confidence, and strong ones force review.
+export function reconcileParseOutcome(outcome: ParseOutcome, deterministic: DeterministicParse): ParseOutcome {
+  const ai = outcome.parsed;
+  const det = deterministic.parsed;
+  const meta = deterministic.metadata;
+  const reconciled: ParsedExpense = { ...ai };
+  const disagreements: ParseFieldDisagreement[] = [];
+  const note = (
+    field: ParseFieldDisagreement["field"],
+    kept: ParseFieldDisagreement["kept"],
+    severity: ParseFieldDisagreement["severity"],
+  ) => {
+    disagreements.push({ field, ai: ai[field], deterministic: det[field], kept, severity });
+  };
+
+  if (meta.hasAmount && Math.abs(ai.amount - det.amount) >= 0.005) {
+    // A model amount that is not written anywhere in the transcript is a hallucination.
+    const aiAmountIsGrounded = listAmountCandidates(outcome.sourceText)
+      .some((candidate) => Math.abs(candidate.value - ai.amount) < 0.005);
+    const preferDeterministic = !aiAmountIsGrounded || meta.amountScore >= STRONG_AMOUNT_EVIDENCE_SCORE;
+    if (preferDeterministic) reconciled.amount = det.amount;
+    note("amount", preferDeterministic ? "deterministic" : "ai", "strong");
+  }
+
+  if (ai.currency !== det.currency) {
+    if (meta.hasExplicitCurrency) {
+      // The lexicon already resolved "$"/"pesos" against the trip and profile.
+      reconciled.currency = det.currency;
+      note("currency", "deterministic", "minor");
+    } else {
+      note("currency", "ai", "strong");
+    }
+  }
+
+  if (ai.category !== det.category && det.category !== "Other") {
+    if (meta.hasExplicitCategory) {
+      reconciled.category = det.category;
+      note("category", "deterministic", "minor");
+    } else {
+      note("category", "ai", "minor");
+    }
+  }
+
+  if (ai.expense_date !== det.expense_date) {
+    if (meta.dateRule !== "capture_date") {
+      reconciled.expense_date = det.expense_date;
+      note("expense_date", "deterministic", "minor");
+    } else {
+      note("expense_date", "ai", "minor");
+    }
+  }
+
+  if (ai.merchant && ai.merchant !== det.merchant && !isGroundedInText(ai.merchant, outcome.sourceText)) {
+    reconciled.merchant = det.merchant;
+    note("merchant", "deterministic", "minor");
+  }
+
+  if (disagreements.length === 0) return outcome;
+
+  const penalty = disagreements.reduce(
+    (sum, disagreement) => sum + (disagreement.severity === "strong" ? 0.15 : 0.05),
+    0,
+  );
+  return {
+    ...outcome,
+    parsed: reconciled,
+    confidence: clamp(outcome.confidence - penalty, 0.4, 0.99),
+    disagreements,
+  };
+}
+
+export function explainParseOutcome(opts: {
+  outcome: ParseOutcome;
+  deterministic: DeterministicParse;
+  // Category name -> hint phrases, to tell hints from aliases.
+  hintsByCategoryName: Record<string, string[]>;
+  requestedCategory: string | null;
+  paymentMethod: { value: string | null; source: "deterministic" | "request" | "merchant_memory" };
+}): ParseExplanation {
+  const { outcome, deterministic } = opts;
+  const meta = deterministic.metadata;
+  const parsed = outcome.parsed;
+  const parserSource = outcome.provider === "deterministic" ? "deterministic" : "ai";
+  const disagreements = outcome.disagreements ?? [];
+  const rewrites = outcome.rewrites ?? [];
+
+  // A disagreement records which side won; otherwise the field is whatever the parser path produced.
+  const fieldSource = (field: ParseFieldDisagreement["field"]): ParseFieldTrace["source"] => {
+    const disagreement = disagreements.find((entry) => entry.field === field);
+    if (disagreement) return disagreement.kept;
+    return parserSource;
+  };
+  const rulesAgree = (field: ParseFieldDisagreement["field"]) => deterministic.parsed[field] === parsed[field];
+
+  const amountDetail = meta.amountToken && rulesAgree("amount")
+    ? `token "${meta.amountToken}" (score ${meta.amountScore})`
+    : undefined;
+  const currencyDetail = rulesAgree("currency")
+    ? meta.currencyToken ? `currency term "${meta.currencyToken}"` : "default currency (trip, hint or profile)"
+    : undefined;
+  const dateDetail = rulesAgree("expense_date")
+    ? meta.datePhrase ? `phrase "${meta.datePhrase}" (${meta.dateRule})` : "capture date"
+    : undefined;
+
+  let categoryMatch: ParseExplanation["category_match"] = null;
+  if (meta.categoryAlias) {
+    const phrase = meta.categoryAlias;
+    const category = deterministic.parsed.category;
+    const isHint = (opts.hintsByCategoryName[category] ?? []).includes(phrase);
+    categoryMatch = {
+      phrase,
+      category,
+      kind: isHint ? "hint" : phrase === category.toLowerCase() ? "category_name" : "alias",
+    };
+  }
+  const memory = outcome.merchantMemory;
+  const categoryTrace: ParseFieldTrace = opts.requestedCategory
+    ? { value: opts.requestedCategory, source: "request", detail: "category_id in request" }
+    : memory?.filledCategory
+    ? { value: parsed.category, source: "merchant_memory", detail: `default for "${memory.entry.name}"` }
+    : {
+      value: parsed.category,
+      source: fieldSource("category"),
+      detail: categoryMatch && rulesAgree("category") ? `${categoryMatch.kind} "${categoryMatch.phrase}"` : undefined,
+    };
+
+  const narrativeTrace = (field: "description" | "merchant"): ParseFieldTrace => {
+    if (field === "merchant" && memory?.renamedMerchant) {
+      return { value: parsed.merchant, source: "merchant_memory", detail: "known merchant" };
+    }
+    const rewrite = rewrites.find((entry) => entry.field === field);
+    if (rewrite) {
+      return { value: parsed[field], source: "post_validation", detail: `rewrote ${JSON.stringify(rewrite.before)}` };
+    }
+    return { value: parsed[field], source: field === "merchant" ? fieldSource("merchant") : parserSource };
+  };
+
+  return {
+    source_text: outcome.sourceText,
+    provider: outcome.provider,
+    model: outcome.model,
+    fields: {
+      amount: { value: parsed.amount, source: fieldSource("amount"), detail: amountDetail },
+      currency: { value: parsed.currency, source: fieldSource("currency"), detail: currencyDetail },
+      category: categoryTrace,
+      description: narrativeTrace("description"),
+      merchant: narrativeTrace("merchant"),
+      expense_date: { value: parsed.expense_date, source: fieldSource("expense_date"), detail: dateDetail },
+      payment_method: {
+        value: opts.paymentMethod.value,
+        source: opts.paymentMethod.source,
+        detail: opts.paymentMethod.value && opts.paymentMethod.source === "deterministic"
+          ? "alias matched in text"
+          : opts.paymentMethod.source === "merchant_memory" && memory
+          ? `default for "${memory.entry.name}"`
+          : undefined,
+      },
+    },
+    amount_candidates: listAmountCandidates(outcome.sourceText)
+      .slice(0, 5)
+      .map((candidate) => ({ token: candidate.token, value: candidate.value, score: candidate.score })),
+    category_match: categoryMatch,
+    disagreements,
+    post_validation: rewrites,
+  };
+}
+
+export function isGroundedInText(value: string, text: string): boolean {
+  const textWords = new Set(foldAccents(text.toLowerCase()).match(/[\p{L}\p{N}]+/gu) ?? []);
+  const words = foldAccents(value.toLowerCase()).match(/[\p{L}\p{N}]{3,}/gu) ?? [];
+  return words.length === 0 || words.some((word) => textWords.has(word));
+}
+
+export function foldAccents(value: string): string {
+  return value.normalize("NFD").replace(/\p{M}/gu, "");
+}
@@ -0,0 +1,184 @@
+import { assertAlmostEquals, assertEquals } from "jsr:@std/assert@1";
+import type { ParsedExpense } from "../_shared/types.ts";
+import {
+  type DeterministicParse,
+  explainParseOutcome,
+  isGroundedInText,
+  type ParseOutcome,
+  reconcileParseOutcome,
+} from "./outcomes.ts";
+
+const PARSED: ParsedExpense = {
+  amount: 120,
+  currency: "MXN",
+  category: "Food",
+  description: "Tacos",
+  merchant: null,
+  expense_date: "2026-03-09",
+};
+
+function aiOutcome(sourceText: string, parsed: Partial<ParsedExpense> = {}, confidence = 0.95): ParseOutcome {
+  return { parsed: { ...PARSED, ...parsed }, confidence, provider: "openai", model: "gpt-4o-mini", sourceText };
+}
+
+function rulesParse(
+  sourceText: string,
+  parsed: Partial<ParsedExpense> = {},
+  metadata: Partial<DeterministicParse["metadata"]> = {},
+): DeterministicParse {
+  return {
+    parsed: { ...PARSED, ...parsed },
+    confidence: 0.8,
+    sourceText,
+    metadata: {
+      hasAmount: true,
+      amountToken: null,
+      amountScore: 0,
+      hasExplicitCurrency: false,
+      usedDefaultCurrency: true,
+      hasExplicitCategory: false,
+      categoryAlias: null,
+      currencyToken: null,
+      tokenCount: sourceText.split(/\s+/).length,
+      datePhrase: null,
+      dateRule: "capture_date",
+      rejectedFutureDate: false,
+      ...metadata,
+    },
+  };
+}
+
+Deno.test("agreeing parses pass through untouched", () => {
+  const outcome = aiOutcome("tacos 120");
+  assertEquals(reconcileParseOutcome(outcome, rulesParse("tacos 120")), outcome);
+});
+
+Deno.test("a model amount that is not in the transcript loses to the rules engine", () => {
+  const reconciled = reconcileParseOutcome(aiOutcome("tacos 120", { amount: 12 }), rulesParse("tacos 120"));
+  assertEquals(reconciled.parsed.amount, 120);
+  assertEquals(reconciled.disagreements, [
+    { field: "amount", ai: 12, deterministic: 120, kept: "deterministic", severity: "strong" },
+  ]);
+  assertAlmostEquals(reconciled.confidence, 0.8);
+});
+
+Deno.test("a grounded model amount wins unless the rules engine has strong evidence", () => {
+  const text = "tip 15 on the 120 bill";
+  const weak = reconcileParseOutcome(aiOutcome(text, { amount: 15 }), rulesParse(text, {}, { amountScore: 5 }));
+  assertEquals([weak.parsed.amount, weak.disagreements?.[0].kept], [15, "ai"]);
+
+  const strong = reconcileParseOutcome(aiOutcome(text, { amount: 15 }), rulesParse(text, {}, { amountScore: 40 }));
+  assertEquals([strong.parsed.amount, strong.disagreements?.[0].kept], [120, "deterministic"]);
+});
+
+Deno.test("explicit currency, category and dates from the transcript win as minor disagreements", () => {
+  const reconciled = reconcileParseOutcome(
+    aiOutcome("uber 90 euros ayer", { currency: "USD", category: "Food", expense_date: "2026-03-09" }),
+    rulesParse(
+      "uber 90 euros ayer",
+      { amount: 120, currency: "EUR", category: "Transport", expense_date: "2026-03-08" },
+      { hasAmount: false, hasExplicitCurrency: true, hasExplicitCategory: true, dateRule: "relative_day" },
+    ),
+  );
+  assertEquals(reconciled.parsed.currency, "EUR");
+  assertEquals(reconciled.parsed.category, "Transport");
+  assertEquals(reconciled.parsed.expense_date, "2026-03-08");
+  assertEquals(reconciled.disagreements?.map((d) => [d.field, d.kept, d.severity]), [
+    ["currency", "deterministic", "minor"],
+    ["category", "deterministic", "minor"],
+    ["expense_date", "deterministic", "minor"],
+  ]);
+  assertAlmostEquals(reconciled.confidence, 0.8);
+});
+
+Deno.test("a currency the transcript never states is a strong disagreement the model keeps", () => {
+  const reconciled = reconcileParseOutcome(aiOutcome("tacos 120", { currency: "USD" }), rulesParse("tacos 120"));
+  assertEquals(reconciled.parsed.currency, "USD");
+  assertEquals(reconciled.disagreements?.[0].severity, "strong");
+});
+
+Deno.test("an invented merchant is dropped, a spoken one is kept", () => {
+  const invented = reconcileParseOutcome(aiOutcome("tacos 120", { merchant: "Taco Bell" }), rulesParse("tacos 120"));
+  assertEquals(invented.parsed.merchant, null);
+
+  const spoken = aiOutcome("tacos 120 en el Güero", { merchant: "El Guero" });
+  assertEquals(reconcileParseOutcome(spoken, rulesParse("tacos 120 en el Güero")), spoken);
+});
+
+Deno.test("grounding ignores case, accents and short words", () => {
+  assertEquals(isGroundedInText("Café Tacuba", "cafe tacuba 200"), true);
+  assertEquals(isGroundedInText("Oxxo", "gas 300"), false);
+  assertEquals(isGroundedInText("El", "gas 300"), true);
+});
+
+function explain(
+  outcome: ParseOutcome,
+  deterministic: DeterministicParse,
+  overrides: Partial<Parameters<typeof explainParseOutcome>[0]> = {},
+) {
+  return explainParseOutcome({
+    outcome,
+    deterministic,
+    hintsByCategoryName: { Transport: ["uber", "taxi"] },
+    requestedCategory: null,
+    paymentMethod: { value: null, source: "request" },
+    ...overrides,
+  });
+}
+
+Deno.test("explain traces rules-engine fields to the token, phrase and hint that set them", () => {
+  const text = "uber 90 pesos ayer";
+  const deterministic = rulesParse(
+    text,
+    { amount: 90, category: "Transport", expense_date: "2026-03-08" },
+    {
+      amountToken: "90",
+      amountScore: 40,
+      currencyToken: "pesos",
+      categoryAlias: "uber",
+      datePhrase: "ayer",
+      dateRule: "relative_day",
+    },
+  );
+  const outcome: ParseOutcome = { ...aiOutcome(text, deterministic.parsed, 0.8), provider: "deterministic", model: "rules-v1" };
+  const explanation = explain(outcome, deterministic, {
+    paymentMethod: { value: "Amex", source: "deterministic" },
+  });
+
+  assertEquals(explanation.fields.amount, { value: 90, source: "deterministic", detail: 'token "90" (score 40)' });
+  assertEquals(explanation.fields.currency.detail, 'currency term "pesos"');
+  assertEquals(explanation.fields.category, { value: "Transport", source: "deterministic", detail: 'hint "uber"' });
+  assertEquals(explanation.fields.expense_date.detail, 'phrase "ayer" (relative_day)');
+  assertEquals(explanation.fields.payment_method, {
+    value: "Amex",
+    source: "deterministic",
+    detail: "alias matched in text",
+  });
+  assertEquals(explanation.category_match, { phrase: "uber", category: "Transport", kind: "hint" });
+  assertEquals(explanation.amount_candidates[0].token, "90");
+});
+
+Deno.test("explain credits the side that won each disagreement and the request and cleanup overrides", () => {
+  const text = "tacos 120 Taco Bell";
+  const reconciled = reconcileParseOutcome(
+    aiOutcome(text, { amount: 12, merchant: "Taco Bell" }),
+    rulesParse(text, { merchant: "Taco Bell" }),
+  );
+  const rewritten: ParseOutcome = {
+    ...reconciled,
+    parsed: { ...reconciled.parsed, description: "Tacos" },
+    rewrites: [{ field: "description", before: "Tacos 120 at Taco Bell", after: "Tacos" }],
+  };
+  const explanation = explain(rewritten, rulesParse(text, { merchant: "Taco Bell" }), { requestedCategory: "Dining" });
+
+  assertEquals(explanation.fields.amount.source, "deterministic");
+  assertEquals(explanation.fields.merchant.source, "ai");
+  assertEquals(explanation.fields.category, { value: "Dining", source: "request", detail: "category_id in request" });
+  assertEquals(explanation.fields.description, {
+    value: "Tacos",
+    source: "post_validation",
+    detail: 'rewrote "Tacos 120 at Taco Bell"',
+  });
+  assertEquals(explanation.disagreements.map((d) => d.field), ["amount"]);
+  assertEquals(explanation.category_match, null);
+});
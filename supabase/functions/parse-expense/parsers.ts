@@ -0,0 +1,133 @@
+import { type AIUsage, emptyUsage, OPENAI_BASE_URL } from "../_shared/ai-pricing.ts";
+
+const OPENAI_MODEL = "gpt-4o-mini";
+
+export type ChatMessage = { role: "system" | "user"; content: string };
+
+export type ExpenseParserRequest = {
+  messages: ChatMessage[];
+  rawText: string;
+  // The rules engine's reading in the model's JSON shape; only the stub uses it.
+  rulesEngineAnswer: () => unknown;
+};
+
+export type ExpenseParserProvider = {
+  // Recorded as ai_usage_events.provider / .model.
+  name: string;
+  model: string;
+  // Returns the raw JSON text produced for the prompt, or null when the call failed.
+  complete(request: ExpenseParserRequest): Promise<ParserCompletion | null>;
+};
+
+export type ParserCompletion = {
+  content: string;
+  usage: AIUsage;
+};
+
+// Null means no model is configured and parsing stays deterministic.
+export function resolveExpenseParserProvider(): ExpenseParserProvider | null {
+  const configured = (Deno.env.get("EXPENSE_PARSER_PROVIDER") ?? "openai").trim().toLowerCase();
+  switch (configured) {
+    case "openai": {
+      const apiKey = Deno.env.get("OPENAI_API_KEY");
+      if (!apiKey) return null;
+      return createOpenAICompatibleParser({
+        name: "openai",
+        baseUrl: OPENAI_BASE_URL,
+        apiKey,
+        model: OPENAI_MODEL,
+        jsonMode: true,
+      });
+    }
+    case "openai-compatible": {
+      const baseUrl = Deno.env.get("EXPENSE_PARSER_BASE_URL")?.trim();
+      if (!baseUrl) {
+        console.error("EXPENSE_PARSER_BASE_URL missing; falling back to deterministic parsing");
+        return null;
+      }
+      return createOpenAICompatibleParser({
+        name: Deno.env.get("EXPENSE_PARSER_PROVIDER_NAME")?.trim() || "openai-compatible",
+        baseUrl,
+        apiKey: Deno.env.get("EXPENSE_PARSER_API_KEY") ?? undefined,
+        model: Deno.env.get("EXPENSE_PARSER_MODEL")?.trim() || OPENAI_MODEL,
+        jsonMode: Deno.env.get("EXPENSE_PARSER_JSON_MODE") !== "false",
+      });
+    }
+    case "stub":
+      return createStubExpenseParser(Deno.env.get("EXPENSE_PARSER_STUB_FIXTURES"));
+    case "none":
+    case "deterministic":
+      return null;
+    default:
+      console.error("Unknown EXPENSE_PARSER_PROVIDER; falling back to deterministic parsing", { configured });
+      return null;
+  }
+}
+
+function createOpenAICompatibleParser(config: {
+  name: string;
+  baseUrl: string;
+  apiKey: string | undefined;
+  model: string;
+  jsonMode: boolean;
+}): ExpenseParserProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  return {
+    name: config.name,
+    model: config.model,
+    async complete({ messages }) {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: config.model,
+          temperature: 0,
+          ...(config.jsonMode ? { response_format: { type: "json_object" } } : {}),
+          messages,
+        }),
+      });
+
+      if (!res.ok) {
+        console.error("Expense parser provider failed", config.name, res.status, await res.text());
+        return null;
+      }
+
+      const payload = await res.json();
+      const content = payload?.choices?.[0]?.message?.content;
+      return {
+        content: typeof content === "string" ? content : "",
+        usage: {
+          inputTokens: typeof payload?.usage?.prompt_tokens === "number" ? payload.usage.prompt_tokens : null,
+          outputTokens: typeof payload?.usage?.completion_tokens === "number" ? payload.usage.completion_tokens : null,
+          audioSeconds: null,
+        },
+      };
+    },
+  };
+}
+
+// Local stand-in for tests and offline development: answers from a fixture map keyed by the lowercased
+// transcript, else echoes the rules engine as model JSON so the normalization path still runs.
+function createStubExpenseParser(fixturesJSON: string | undefined): ExpenseParserProvider {
+  let fixtures: Record<string, unknown> = {};
+  if (fixturesJSON?.trim()) {
+    try {
+      fixtures = JSON.parse(fixturesJSON) as Record<string, unknown>;
+    } catch (error) {
+      console.error("EXPENSE_PARSER_STUB_FIXTURES is not valid JSON", error);
+    }
+  }
+  return {
+    name: "stub",
+    model: "stub-v1",
+    complete({ rawText, rulesEngineAnswer }) {
+      const fixture = fixtures[rawText.trim().toLowerCase()];
+      return Promise.resolve({
+        content: JSON.stringify(fixture !== undefined ? fixture : rulesEngineAnswer()),
+        usage: emptyUsage(),
+      });
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { resolveExpenseParserProvider } from "./parsers.ts";
+
+const PARSER_ENV_KEYS = [
+  "EXPENSE_PARSER_PROVIDER",
+  "EXPENSE_PARSER_BASE_URL",
+  "EXPENSE_PARSER_PROVIDER_NAME",
+  "EXPENSE_PARSER_API_KEY",
+  "EXPENSE_PARSER_MODEL",
+  "EXPENSE_PARSER_JSON_MODE",
+  "EXPENSE_PARSER_STUB_FIXTURES",
+  "OPENAI_API_KEY",
+];
+
+// Runs fn with exactly the given parser variables set, restoring the previous environment afterwards.
+function withParserEnv(env: Record<string, string>, fn: () => Promise<void> | void): () => Promise<void> {
+  return async () => {
+    const previous = Object.fromEntries(PARSER_ENV_KEYS.map((key) => [key, Deno.env.get(key)]));
+    for (const key of PARSER_ENV_KEYS) {
+      if (key in env) Deno.env.set(key, env[key]);
+      else Deno.env.delete(key);
+    }
+    try {
+      await fn();
+    } finally {
+      for (const [key, value] of Object.entries(previous)) {
+        if (value === undefined) Deno.env.delete(key);
+        else Deno.env.set(key, value);
+      }
+    }
+  };
+}
+
+function request(rawText: string) {
+  return {
+    messages: [{ role: "user" as const, content: rawText }],
+    rawText,
+    rulesEngineAnswer: () => ({ expenses: [{ amount: 120, source_text: rawText }] }),
+  };
+}
+
+Deno.test(
+  "openai is the default and needs OPENAI_API_KEY",
+  withParserEnv({}, () => {
+    assertEquals(resolveExpenseParserProvider(), null);
+    Deno.env.set("OPENAI_API_KEY", "sk-test");
+    const provider = resolveExpenseParserProvider();
+    assertEquals([provider?.name, provider?.model], ["openai", "gpt-4o-mini"]);
+  }),
+);
+
+Deno.test(
+  "deterministic, none and unknown providers disable the model",
+  withParserEnv({ OPENAI_API_KEY: "sk-test" }, () => {
+    for (const configured of ["deterministic", "none", "acme"]) {
+      Deno.env.set("EXPENSE_PARSER_PROVIDER", configured);
+      assertEquals(resolveExpenseParserProvider(), null);
+    }
+  }),
+);
+
+Deno.test(
+  "openai-compatible needs a base URL and records the configured name and model",
+  withParserEnv({ EXPENSE_PARSER_PROVIDER: "openai-compatible" }, () => {
+    assertEquals(resolveExpenseParserProvider(), null);
+    Deno.env.set("EXPENSE_PARSER_BASE_URL", "http://localhost:11434/v1/");
+    assertEquals(resolveExpenseParserProvider()?.name, "openai-compatible");
+    assertEquals(resolveExpenseParserProvider()?.model, "gpt-4o-mini");
+    Deno.env.set("EXPENSE_PARSER_PROVIDER_NAME", "ollama");
+    Deno.env.set("EXPENSE_PARSER_MODEL", "llama3.1");
+    const provider = resolveExpenseParserProvider();
+    assertEquals([provider?.name, provider?.model], ["ollama", "llama3.1"]);
+  }),
+);
+
+Deno.test(
+  "openai-compatible posts chat completions to the base URL",
+  withParserEnv({
+    EXPENSE_PARSER_PROVIDER: "openai-compatible",
+    EXPENSE_PARSER_BASE_URL: "http://localhost:11434/v1/",
+    EXPENSE_PARSER_MODEL: "llama3.1",
+    EXPENSE_PARSER_JSON_MODE: "false",
+  }, async () => {
+    const originalFetch = globalThis.fetch;
+    const calls: Array<{ url: string; headers: Record<string, string>; body: Record<string, unknown> }> = [];
+    globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+      calls.push({
+        url: String(input),
+        headers: init?.headers as Record<string, string>,
+        body: JSON.parse(String(init?.body)),
+      });
+      return Promise.resolve(Response.json({
+        choices: [{ message: { content: '{"expenses":[]}' } }],
+        usage: { prompt_tokens: 420, completion_tokens: 38 },
+      }));
+    };
+    try {
+      const completion = await resolveExpenseParserProvider()?.complete(request("tacos 120"));
+      assertEquals(completion, {
+        content: '{"expenses":[]}',
+        usage: { inputTokens: 420, outputTokens: 38, audioSeconds: null },
+      });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+    assertEquals(calls.length, 1);
+    assertEquals(calls[0].url, "http://localhost:11434/v1/chat/completions");
+    assertEquals(calls[0].headers.Authorization, undefined);
+    assertEquals(calls[0].body.model, "llama3.1");
+    assertEquals("response_format" in calls[0].body, false);
+  }),
+);
+
+Deno.test(
+  "the stub answers from fixtures, else echoes the rules engine",
+  withParserEnv({
+    EXPENSE_PARSER_PROVIDER: "stub",
+    EXPENSE_PARSER_STUB_FIXTURES: JSON.stringify({ "uber 90": { expenses: [{ amount: 90, category: "Transport" }] } }),
+  }, async () => {
+    const provider = resolveExpenseParserProvider();
+    assertEquals([provider?.name, provider?.model], ["stub", "stub-v1"]);
+    assertEquals(
+      JSON.parse((await provider?.complete(request(" Uber 90 ")))?.content ?? "null"),
+      { expenses: [{ amount: 90, category: "Transport" }] },
+    );
+    assertEquals(
+      JSON.parse((await provider?.complete(request("tacos 120")))?.content ?? "null"),
+      { expenses: [{ amount: 120, source_text: "tacos 120" }] },
+    );
+  }),
+);
@@ -0,0 +1,51 @@
+import type { ErrorMessageKey } from "../_shared/errors.ts";
+import type { PlanLimits, QuotaKind } from "../_shared/quota.ts";
+import type { ParseUsageSummary } from "../_shared/types.ts";
+
+// Parse slots taken in the current quota day and UTC minute, per kind.
+export type UsageCounts = Record<QuotaKind, { day: number; minute: number }>;
+
+// One capture's claim on its plan quota, taken by reserve_parse_quota before any provider is called.
+export type QuotaSlot = {
+  kind: QuotaKind;
+  // Counts right after the reservation, including this capture's slot when one was reserved.
+  usage: UsageCounts;
+  // The limit that left no slot. Voice and photo captures are rejected; text captures skip the AI parser.
+  exceeded: "daily" | "minute" | null;
+  // Windows the slot was taken from, for handing it back.
+  dayStart: string;
+  minuteStart: string;
+  // Set once a usage event is recorded for the capture. An unused slot is released when the capture ends.
+  used: boolean;
+};
+
+export function usageCountsFromRow(counts: Record<string, number>): UsageCounts {
+  return {
+    voice: { day: counts.voice_day ?? 0, minute: counts.voice_minute ?? 0 },
+    text: { day: counts.text_day ?? 0, minute: counts.text_minute ?? 0 },
+    photo: { day: counts.photo_day ?? 0, minute: counts.photo_minute ?? 0 },
+  };
+}
+
+// Counts as they stand once the capture ends and an unused slot has been handed back.
+export function settledUsage(slot: QuotaSlot): UsageCounts {
+  if (slot.exceeded || slot.used) return slot.usage;
+  const { day, minute } = slot.usage[slot.kind];
+  return { ...slot.usage, [slot.kind]: { day: day - 1, minute: minute - 1 } };
+}
+
+export function quotaErrorKey(source: "voice" | "photo", exceeded: "daily" | "minute"): ErrorMessageKey {
+  return `${source}_${exceeded === "daily" ? "limit_reached" : "rate_limited"}`;
+}
+
+export function usageSummary(usage: UsageCounts, limits: PlanLimits): ParseUsageSummary {
+  return {
+    plan: limits.planID,
+    daily_voice_used: usage.voice.day,
+    daily_voice_limit: limits.daily.voice,
+    daily_text_used: usage.text.day,
+    daily_text_limit: limits.daily.text,
+    daily_photo_used: usage.photo.day,
+    daily_photo_limit: limits.daily.photo,
+  };
+}
@@ -0,0 +1,51 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { type QuotaSlot, quotaErrorKey, settledUsage, usageCountsFromRow, usageSummary } from "./quota.ts";
+
+function slot(overrides: Partial<QuotaSlot> = {}): QuotaSlot {
+  return {
+    kind: "voice",
+    usage: usageCountsFromRow({ voice_day: 3, voice_minute: 1, text_day: 7 }),
+    exceeded: null,
+    dayStart: "2026-03-14T06:00:00Z",
+    minuteStart: "2026-03-14T18:30:00Z",
+    used: false,
+    ...overrides,
+  };
+}
+
+Deno.test("counter rows default missing kinds to zero", () => {
+  assertEquals(usageCountsFromRow({ voice_day: 3, voice_minute: 1, text_day: 7 }), {
+    voice: { day: 3, minute: 1 },
+    text: { day: 7, minute: 0 },
+    photo: { day: 0, minute: 0 },
+  });
+});
+
+Deno.test("an unused slot is left out of the settled counts; used or refused ones are not", () => {
+  assertEquals(settledUsage(slot()).voice, { day: 2, minute: 0 });
+  assertEquals(settledUsage(slot()).text, { day: 7, minute: 0 });
+  assertEquals(settledUsage(slot({ used: true })).voice, { day: 3, minute: 1 });
+  assertEquals(settledUsage(slot({ exceeded: "minute" })).voice, { day: 3, minute: 1 });
+});
+
+Deno.test("quota errors are keyed by source and the limit that ran out", () => {
+  assertEquals(quotaErrorKey("voice", "daily"), "voice_limit_reached");
+  assertEquals(quotaErrorKey("photo", "minute"), "photo_rate_limited");
+});
+
+Deno.test("the usage summary reports daily counts against the plan's daily limits", () => {
+  const limits = {
+    planID: "pro",
+    daily: { voice: 500, text: 2000, photo: 100 },
+    perMinute: { voice: 20, text: 60, photo: 10 },
+  };
+  assertEquals(usageSummary(slot().usage, limits), {
+    plan: "pro",
+    daily_voice_used: 3,
+    daily_voice_limit: 500,
+    daily_text_used: 7,
+    daily_text_limit: 2000,
+    daily_photo_used: 0,
+    daily_photo_limit: 100,
+  });
+});
@@ -0,0 +1,303 @@
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ReceiptLineItem } from "../_shared/types.ts";
+import { normalizeCurrencyCode } from "../_shared/currencies.ts";
+import { type AIUsage, emptyUsage, OPENAI_BASE_URL } from "../_shared/ai-pricing.ts";
+import type { ErrorDescriptor } from "../_shared/errors.ts";
+import { clamp, parseLocalizedNumberToken } from "./numbers.ts";
+
+const MAX_RECEIPT_LINE_ITEMS = 50;
+const OPENAI_VISION_MODEL = "gpt-4o-mini";
+export const RECEIPT_PHOTOS_BUCKET = "receipt-photos";
+
+export type ReceiptRead = {
+  total: number | null;
+  // ISO 4217 when the receipt prints or implies one.
+  currency: string | null;
+  merchant: string | null;
+  // YYYY-MM-DD as printed on the receipt.
+  date: string | null;
+  category: string | null;
+  description: string | null;
+  lineItems: ReceiptLineItem[];
+  // 0-1 as reported by the model; null when it gave none.
+  confidence: number | null;
+};
+
+export type ReceiptExtraction = {
+  receipt: ReceiptRead | null;
+  error: ErrorDescriptor | null;
+  provider: string;
+  model: string;
+  // Null when the provider was never reached (missing image, HTTP failure), so nothing was billed.
+  usage: AIUsage | null;
+};
+
+export type ReceiptImageRequest = {
+  objectPath: string;
+  languageHint?: "en" | "es";
+  // Downloads the photo; only providers that need the image call it.
+  loadImage: () => Promise<File | null>;
+};
+
+export type ReceiptVisionProvider = {
+  name: string;
+  model: string;
+  read(request: ReceiptImageRequest): Promise<ReceiptExtraction>;
+};
+
+export type ReceiptVisionProviderResolution = {
+  provider: ReceiptVisionProvider | null;
+  unavailableReason: string | null;
+};
+
+export function resolveReceiptVisionProvider(): ReceiptVisionProviderResolution {
+  const configured = (Deno.env.get("RECEIPT_VISION_PROVIDER") ?? "openai").trim().toLowerCase();
+  switch (configured) {
+    case "openai": {
+      const apiKey = Deno.env.get("OPENAI_API_KEY");
+      if (!apiKey) {
+        return { provider: null, unavailableReason: "Receipt reading unavailable (server missing OPENAI_API_KEY)." };
+      }
+      return {
+        provider: createOpenAICompatibleReceiptReader({
+          name: "openai",
+          baseUrl: OPENAI_BASE_URL,
+          apiKey,
+          model: OPENAI_VISION_MODEL,
+        }),
+        unavailableReason: null,
+      };
+    }
+    case "openai-compatible": {
+      const baseUrl = Deno.env.get("RECEIPT_VISION_BASE_URL")?.trim();
+      if (!baseUrl) {
+        return { provider: null, unavailableReason: "Receipt reading unavailable (server missing RECEIPT_VISION_BASE_URL)." };
+      }
+      return {
+        provider: createOpenAICompatibleReceiptReader({
+          name: Deno.env.get("RECEIPT_VISION_PROVIDER_NAME")?.trim() || "openai-compatible",
+          baseUrl,
+          apiKey: Deno.env.get("RECEIPT_VISION_API_KEY") ?? undefined,
+          model: Deno.env.get("RECEIPT_VISION_MODEL")?.trim() || OPENAI_VISION_MODEL,
+        }),
+        unavailableReason: null,
+      };
+    }
+    case "stub":
+      return { provider: createStubReceiptReader(Deno.env.get("RECEIPT_VISION_STUB_FIXTURES")), unavailableReason: null };
+    default:
+      return {
+        provider: null,
+        unavailableReason: `Receipt reading unavailable (unknown RECEIPT_VISION_PROVIDER "${configured}").`,
+      };
+  }
+}
+
+function createOpenAICompatibleReceiptReader(config: {
+  name: string;
+  baseUrl: string;
+  apiKey: string | undefined;
+  model: string;
+}): ReceiptVisionProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  return {
+    name: config.name,
+    model: config.model,
+    async read(request) {
+      const failed = (error: ErrorDescriptor) => receiptFailure(config.name, config.model, error);
+      const image = await request.loadImage();
+      if (!image) return failed({ key: "receipt_upload_unreadable" });
+
+      const prompt = [
+        "Read this purchase receipt. Return JSON only with keys: total, currency, merchant, date, category, description, line_items, confidence.",
+        "Rules:",
+        "- total: the final amount paid as a number (after tax, tip and discounts); null if unreadable",
+        "- currency: ISO 4217 code printed or clearly implied by the receipt, else null",
+        "- merchant: the business name as printed, else null",
+        "- date: purchase date as YYYY-MM-DD, else null",
+        "- category: a short spending category such as food, groceries, transport, shopping, utilities",
+        "- description: 3-8 words summarizing the purchase",
+        "- line_items: array of { description, quantity, amount } for each priced line; amount is the line total",
+        "- confidence: number 0 to 1 for how sure you are of the total",
+        `- language: keep description in the receipt's language${request.languageHint ? ` (preferred: ${request.languageHint})` : ""}`,
+      ].join("\n");
+
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: config.model,
+          temperature: 0,
+          response_format: { type: "json_object" },
+          messages: [
+            { role: "system", content: "You read purchase receipts into strict JSON." },
+            {
+              role: "user",
+              content: [
+                { type: "text", text: prompt },
+                { type: "image_url", image_url: { url: await imageDataURL(image) } },
+              ],
+            },
+          ],
+        }),
+      });
+
+      if (!res.ok) {
+        console.error("Receipt vision provider failed", config.name, res.status, await res.text());
+        return failed({ key: "receipt_http_failed", params: { status: res.status } });
+      }
+
+      const payload = await res.json();
+      const usage: AIUsage = {
+        inputTokens: typeof payload?.usage?.prompt_tokens === "number" ? payload.usage.prompt_tokens : null,
+        outputTokens: typeof payload?.usage?.completion_tokens === "number" ? payload.usage.completion_tokens : null,
+        audioSeconds: null,
+      };
+      const content = payload?.choices?.[0]?.message?.content;
+      let fields: unknown = null;
+      try {
+        fields = JSON.parse(typeof content === "string" ? content : "");
+      } catch (error) {
+        console.error("Receipt vision provider returned invalid JSON", config.name, error);
+      }
+      return { receipt: normalizeReceiptRead(fields), error: null, provider: config.name, model: config.model, usage };
+    },
+  };
+}
+
+// Maps storage object paths to canned receipt reads so photo flows run without images or network.
+// Keys may be the full path or the path without the leading `${userID}/` prefix.
+function createStubReceiptReader(fixturesJSON: string | undefined): ReceiptVisionProvider {
+  let fixtures: Record<string, unknown> = {};
+  if (fixturesJSON?.trim()) {
+    try {
+      fixtures = JSON.parse(fixturesJSON) as Record<string, unknown>;
+    } catch (error) {
+      console.error("RECEIPT_VISION_STUB_FIXTURES is not valid JSON", error);
+    }
+  }
+  return {
+    name: "stub",
+    model: "stub-v1",
+    read(request) {
+      const relativePath = request.objectPath.split("/").slice(1).join("/");
+      const fixture = fixtures[request.objectPath] ?? fixtures[relativePath];
+      return Promise.resolve({
+        receipt: normalizeReceiptRead(fixture),
+        error: null,
+        provider: "stub",
+        model: "stub-v1",
+        usage: emptyUsage(),
+      });
+    },
+  };
+}
+
+export async function readReceiptFromStorage(opts: {
+  adminClient: ReturnType<typeof createClient>;
+  receiptVision: ReceiptVisionProviderResolution;
+  objectPath: string;
+  languageHint?: "en" | "es";
+}): Promise<ReceiptExtraction> {
+  const provider = opts.receiptVision.provider;
+  if (!provider) {
+    const reason = opts.receiptVision.unavailableReason ?? "Receipt reading unavailable.";
+    console.error("Receipt vision provider unavailable; cannot read receipt photo", reason);
+    return receiptFailure("none", "none", { key: "receipt_unavailable", params: { detail: reason } });
+  }
+
+  const loadImage = async (): Promise<File | null> => {
+    const { data, error } = await opts.adminClient.storage
+      .from(RECEIPT_PHOTOS_BUCKET)
+      .download(opts.objectPath);
+
+    if (error || !data) {
+      console.error("Failed to download receipt photo from storage", error?.message);
+      return null;
+    }
+    const fileName = opts.objectPath.split("/").pop() || "receipt.jpg";
+    return new File([await data.arrayBuffer()], fileName, { type: data.type || "image/jpeg" });
+  };
+
+  try {
+    const result = await provider.read({ objectPath: opts.objectPath, languageHint: opts.languageHint, loadImage });
+    if (result.error) return result;
+    if (!result.receipt || result.receipt.total === null) {
+      console.error("Receipt read returned no total", { objectPath: opts.objectPath, provider: provider.name });
+      return { ...result, receipt: null, error: { key: "receipt_total_unreadable" } };
+    }
+    return result;
+  } catch (error) {
+    console.error("Receipt vision error", error);
+    return receiptFailure(provider.name, provider.model, { key: "receipt_crashed" });
+  }
+}
+
+function receiptFailure(provider: string, model: string, error: ErrorDescriptor): ReceiptExtraction {
+  return { receipt: null, error, provider, model, usage: null };
+}
+
+function normalizeReceiptRead(value: unknown): ReceiptRead | null {
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+  const text = (field: unknown) => typeof field === "string" && field.trim() ? field.trim() : null;
+  const total = receiptNumber(record.total);
+  const date = text(record.date);
+  const lineItems = (Array.isArray(record.line_items) ? record.line_items : [])
+    .slice(0, MAX_RECEIPT_LINE_ITEMS)
+    .flatMap((entry): ReceiptLineItem[] => {
+      if (!entry || typeof entry !== "object") return [];
+      const item = entry as Record<string, unknown>;
+      const description = text(item.description) ?? text(item.name);
+      if (!description) return [];
+      const quantity = receiptNumber(item.quantity);
+      return [{ description, quantity, amount: receiptNumber(item.amount) }];
+    });
+  return {
+    total,
+    currency: normalizeCurrencyCode(text(record.currency)),
+    merchant: text(record.merchant),
+    date: date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null,
+    category: text(record.category),
+    description: text(record.description),
+    lineItems,
+    confidence: typeof record.confidence === "number" ? clamp(record.confidence, 0, 1) : null,
+  };
+}
+
+// Positive amounts only; printed amounts may use either decimal separator ("1.234,50").
+function receiptNumber(value: unknown): number | null {
+  const parsed = typeof value === "number"
+    ? value
+    : typeof value === "string"
+    ? parseLocalizedNumberToken(value.replace(/[^\d.,'’\s-]/g, ""))
+    : null;
+  return parsed !== null && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+// Stored as raw_text: a plain-text rendering of the read, so review and the rules engine see what the model saw.
+export function describeReceipt(receipt: ReceiptRead): string {
+  const lines = [
+    receipt.merchant,
+    receipt.date,
+    ...receipt.lineItems.map((item) =>
+      [item.quantity && item.quantity !== 1 ? `${item.quantity}x` : null, item.description, item.amount]
+        .filter((part) => part !== null)
+        .join(" ")
+    ),
+    `Total ${receipt.total}${receipt.currency ? ` ${receipt.currency}` : ""}`,
+  ];
+  return lines.filter((line): line is string => Boolean(line)).join("\n");
+}
+
+async function imageDataURL(image: File): Promise<string> {
+  const bytes = new Uint8Array(await image.arrayBuffer());
+  let binary = "";
+  // Chunked so large photos do not overflow the argument limit of String.fromCharCode.
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return `data:${image.type || "image/jpeg"};base64,${btoa(binary)}`;
+}
@@ -0,0 +1,131 @@
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { assertEquals } from "jsr:@std/assert@1";
+import { describeReceipt, readReceiptFromStorage, resolveReceiptVisionProvider } from "./receipts.ts";
+
+const USER_ID = "5b1d3c2a-7e4f-4a6b-8c9d-0e1f2a3b4c5d";
+
+// The stub never downloads the photo, so any storage access fails the test.
+const NO_STORAGE = {
+  storage: {
+    from() {
+      throw new Error("the stub provider must not download photos");
+    },
+  },
+} as unknown as ReturnType<typeof createClient>;
+
+function withReceiptEnv(env: Record<string, string | undefined>, fn: () => Promise<void>): () => Promise<void> {
+  return async () => {
+    const previous = Object.fromEntries(Object.keys(env).map((key) => [key, Deno.env.get(key)]));
+    const apply = (values: Record<string, string | undefined>) => {
+      for (const [key, value] of Object.entries(values)) {
+        if (value === undefined) Deno.env.delete(key);
+        else Deno.env.set(key, value);
+      }
+    };
+    apply(env);
+    try {
+      await fn();
+    } finally {
+      apply(previous);
+    }
+  };
+}
+
+function readStub(objectPath: string) {
+  return readReceiptFromStorage({
+    adminClient: NO_STORAGE,
+    receiptVision: resolveReceiptVisionProvider(),
+    objectPath,
+  });
+}
+
+const FIXTURES = JSON.stringify({
+  "lunch.jpg": {
+    total: "1.234,50",
+    currency: "mxn",
+    merchant: " Taquería El Güero ",
+    date: "2026-03-02",
+    category: "food",
+    line_items: [
+      { description: "Tacos al pastor", quantity: 3, amount: 90 },
+      { name: "Agua fresca", amount: "35" },
+      { quantity: 1, amount: 10 },
+    ],
+    confidence: 1.4,
+  },
+  [`${USER_ID}/blurry.jpg`]: { merchant: "Unknown", date: "02/03/2026" },
+});
+
+Deno.test(
+  "RECEIPT_VISION_PROVIDER=stub reads fixtures by path without downloading the photo",
+  withReceiptEnv({ RECEIPT_VISION_PROVIDER: " Stub ", RECEIPT_VISION_STUB_FIXTURES: FIXTURES }, async () => {
+    assertEquals(resolveReceiptVisionProvider().provider?.name, "stub");
+
+    const extraction = await readStub(`${USER_ID}/lunch.jpg`);
+    assertEquals(extraction.error, null);
+    assertEquals(extraction.provider, "stub");
+    assertEquals(extraction.model, "stub-v1");
+    assertEquals(extraction.usage, { inputTokens: null, outputTokens: null, audioSeconds: null });
+    assertEquals(extraction.receipt, {
+      total: 1234.5,
+      currency: "MXN",
+      merchant: "Taquería El Güero",
+      date: "2026-03-02",
+      category: "food",
+      description: null,
+      lineItems: [
+        { description: "Tacos al pastor", quantity: 3, amount: 90 },
+        { description: "Agua fresca", quantity: null, amount: 35 },
+      ],
+      confidence: 1,
+    });
+  }),
+);
+
+Deno.test(
+  "stub: a read without a total, or a path with no fixture, has no readable total",
+  withReceiptEnv({ RECEIPT_VISION_PROVIDER: "stub", RECEIPT_VISION_STUB_FIXTURES: FIXTURES }, async () => {
+    for (const objectPath of [`${USER_ID}/blurry.jpg`, `${USER_ID}/missing.jpg`]) {
+      const extraction = await readStub(objectPath);
+      assertEquals(extraction.receipt, null);
+      assertEquals(extraction.error, { key: "receipt_total_unreadable" });
+      assertEquals(extraction.provider, "stub");
+    }
+  }),
+);
+
+Deno.test(
+  "stub: invalid fixture JSON leaves every photo unreadable instead of failing the request",
+  withReceiptEnv({ RECEIPT_VISION_PROVIDER: "stub", RECEIPT_VISION_STUB_FIXTURES: "{not json" }, async () => {
+    assertEquals((await readStub(`${USER_ID}/lunch.jpg`)).receipt, null);
+  }),
+);
+
+Deno.test(
+  "an unknown provider reports why receipts cannot be read",
+  withReceiptEnv({ RECEIPT_VISION_PROVIDER: "tesseract" }, async () => {
+    const extraction = await readStub(`${USER_ID}/lunch.jpg`);
+    assertEquals(extraction.error, {
+      key: "receipt_unavailable",
+      params: { detail: 'Receipt reading unavailable (unknown RECEIPT_VISION_PROVIDER "tesseract").' },
+    });
+    assertEquals(extraction.usage, null);
+  }),
+);
+
+Deno.test("describeReceipt renders the read as the capture's raw_text", () => {
+  const text = describeReceipt({
+    total: 125,
+    currency: "MXN",
+    merchant: "Taquería El Güero",
+    date: "2026-03-02",
+    category: "food",
+    description: null,
+    lineItems: [
+      { description: "Tacos al pastor", quantity: 3, amount: 90 },
+      { description: "Agua fresca", quantity: 1, amount: 35 },
+    ],
+    confidence: null,
+  });
+  assertEquals(text, "Taquería El Güero\n2026-03-02\n3x Tacos al pastor 90\nAgua fresca 35\nTotal 125 MXN");
+});
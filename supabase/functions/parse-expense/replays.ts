@@ -0,0 +1,35 @@
+import type { ParseExpenseSavedExpense } from "../_shared/types.ts";
+
+// synced_at comes from the function clock and updated_at from the database, so allow for skew between them.
+export const SYNC_CLOCK_SKEW_MS = 5_000;
+
+export type StoredExpense = ParseExpenseSavedExpense & { synced_at: string | null; updated_at: string };
+
+// Stored rows of a capture the user has changed since sync, which parse-expense must not overwrite.
+export type ProtectedCapture = {
+  // Every stored row of the capture, in capture order.
+  expenses: ParseExpenseSavedExpense[];
+  // The rows the user edited; a replay leaves them as they are.
+  editedClientIDs: string[];
+};
+
+// Same rule as public.is_protected_expense, which guards the write itself.
+export function isProtectedExpense(row: Pick<StoredExpense, "parse_status" | "synced_at" | "updated_at">): boolean {
+  if (row.parse_status === "edited") return true;
+  if (!row.synced_at) return false;
+  return Date.parse(row.updated_at) - Date.parse(row.synced_at) > SYNC_CLOCK_SKEW_MS;
+}
+
+// Returns the capture's stored rows in `clientExpenseIDs` order when any of them is protected, otherwise null.
+export function protectedCapture(stored: StoredExpense[], clientExpenseIDs: string[]): ProtectedCapture | null {
+  const editedClientIDs = stored.filter(isProtectedExpense).map((row) => row.client_expense_id);
+  if (editedClientIDs.length === 0) return null;
+
+  const order = new Map(clientExpenseIDs.map((id, index) => [id, index]));
+  return {
+    expenses: [...stored]
+      .sort((a, b) => (order.get(a.client_expense_id) ?? 0) - (order.get(b.client_expense_id) ?? 0))
+      .map(({ synced_at: _syncedAt, updated_at: _updatedAt, ...expense }) => expense),
+    editedClientIDs,
+  };
+}
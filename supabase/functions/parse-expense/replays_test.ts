@@ -0,0 +1,50 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { isProtectedExpense, protectedCapture, type StoredExpense } from "./replays.ts";
+
+const SYNCED_AT = "2026-03-09T14:30:00Z";
+
+function stored(clientExpenseID: string, overrides: Partial<StoredExpense> = {}): StoredExpense {
+  return {
+    id: `row-${clientExpenseID}`,
+    client_expense_id: clientExpenseID,
+    amount: 120,
+    currency: "MXN",
+    category: "Food",
+    category_id: null,
+    description: "tacos",
+    merchant: null,
+    expense_date: "2026-03-09",
+    source: "text",
+    parse_status: "auto",
+    trip_id: null,
+    trip_name: null,
+    payment_method_id: null,
+    payment_method_name: null,
+    synced_at: SYNCED_AT,
+    updated_at: SYNCED_AT,
+    ...overrides,
+  };
+}
+
+Deno.test("edited rows and rows updated after sync are protected", () => {
+  assertEquals(isProtectedExpense(stored("a", { parse_status: "edited" })), true);
+  assertEquals(isProtectedExpense(stored("a", { updated_at: "2026-03-09T14:31:00Z" })), true);
+  // Within the clock skew between the function and the database.
+  assertEquals(isProtectedExpense(stored("a", { updated_at: "2026-03-09T14:30:04Z" })), false);
+  assertEquals(isProtectedExpense(stored("a", { synced_at: null, updated_at: "2026-03-09T15:00:00Z" })), false);
+});
+
+Deno.test("a protected capture returns every stored row in capture order", () => {
+  const capture = protectedCapture(
+    [stored("b"), stored("a", { parse_status: "edited" })],
+    ["a", "b", "c"],
+  );
+  assertEquals(capture?.expenses.map((row) => row.client_expense_id), ["a", "b"]);
+  assertEquals(capture?.editedClientIDs, ["a"]);
+  assertEquals("synced_at" in (capture?.expenses[0] ?? {}), false);
+});
+
+Deno.test("a capture with no protected rows can be overwritten", () => {
+  assertEquals(protectedCapture([stored("a"), stored("b")], ["a", "b"]), null);
+  assertEquals(protectedCapture([], ["a"]), null);
+});
@@ -0,0 +1,298 @@
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type AIUsage, emptyUsage, OPENAI_BASE_URL } from "../_shared/ai-pricing.ts";
+import type { ErrorDescriptor } from "../_shared/errors.ts";
+import { clamp } from "./numbers.ts";
+
+const OPENAI_TRANSCRIBE_MODEL = "whisper-1";
+
+export type TranscriptSegment = {
+  text: string;
+  start: number;
+  end: number;
+  // 0-1, derived from the engine's log-probability / no-speech estimates.
+  confidence: number;
+};
+
+export type TranscriptionResult = {
+  text: string | null;
+  error: ErrorDescriptor | null;
+  provider: string;
+  model: string;
+  // ISO 639-1 code reported by the engine, when it detects one.
+  language: string | null;
+  segments: TranscriptSegment[];
+  // Null when the engine was never reached (missing audio, HTTP failure), so nothing was billed.
+  usage: AIUsage | null;
+};
+
+export type TranscriptionRequest = {
+  objectPath: string;
+  languageHint?: "en" | "es";
+  // Downloads the capture; only providers that need the audio call it.
+  loadAudio: () => Promise<File | null>;
+};
+
+export type TranscriptionProvider = {
+  name: string;
+  model: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+};
+
+export type TranscriptionProviderResolution = {
+  provider: TranscriptionProvider | null;
+  unavailableReason: string | null;
+};
+
+export function resolveTranscriptionProvider(): TranscriptionProviderResolution {
+  const configured = (Deno.env.get("TRANSCRIPTION_PROVIDER") ?? "openai").trim().toLowerCase();
+  switch (configured) {
+    case "openai": {
+      const apiKey = Deno.env.get("OPENAI_API_KEY");
+      if (!apiKey) {
+        return { provider: null, unavailableReason: "Voice transcription unavailable (server missing OPENAI_API_KEY)." };
+      }
+      return {
+        provider: createWhisperHTTPTranscriber({
+          name: "openai",
+          endpoint: `${OPENAI_BASE_URL}/audio/transcriptions`,
+          apiKey,
+          model: OPENAI_TRANSCRIBE_MODEL,
+        }),
+        unavailableReason: null,
+      };
+    }
+    case "whisper-http": {
+      const endpoint = Deno.env.get("TRANSCRIPTION_ENDPOINT_URL")?.trim();
+      if (!endpoint) {
+        return {
+          provider: null,
+          unavailableReason: "Voice transcription unavailable (server missing TRANSCRIPTION_ENDPOINT_URL).",
+        };
+      }
+      return {
+        provider: createWhisperHTTPTranscriber({
+          name: Deno.env.get("TRANSCRIPTION_PROVIDER_NAME")?.trim() || "whisper-http",
+          endpoint,
+          apiKey: Deno.env.get("TRANSCRIPTION_API_KEY") ?? undefined,
+          model: Deno.env.get("TRANSCRIPTION_MODEL")?.trim() || OPENAI_TRANSCRIBE_MODEL,
+        }),
+        unavailableReason: null,
+      };
+    }
+    case "stub":
+      return { provider: createStubTranscriber(Deno.env.get("TRANSCRIPTION_STUB_FIXTURES")), unavailableReason: null };
+    default:
+      return {
+        provider: null,
+        unavailableReason: `Voice transcription unavailable (unknown TRANSCRIPTION_PROVIDER "${configured}").`,
+      };
+  }
+}
+
+// OpenAI's /audio/transcriptions and self-hosted whisper servers (faster-whisper, whisper.cpp) share this contract.
+function createWhisperHTTPTranscriber(config: {
+  name: string;
+  endpoint: string;
+  apiKey: string | undefined;
+  model: string;
+}): TranscriptionProvider {
+  return {
+    name: config.name,
+    model: config.model,
+    async transcribe(request) {
+      const failed = (error: ErrorDescriptor) => transcriptionFailure(config.name, config.model, error);
+      const fileBlob = await request.loadAudio();
+      if (!fileBlob) return failed({ key: "voice_upload_unreadable" });
+
+      const form = new FormData();
+      form.append("model", config.model);
+      form.append("response_format", "verbose_json");
+      form.append("temperature", "0");
+      if (request.languageHint) {
+        form.append("language", request.languageHint);
+      }
+      form.append("file", fileBlob);
+
+      const headers: Record<string, string> = {};
+      if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+      const response = await fetch(config.endpoint, {
+        method: "POST",
+        headers,
+        body: form,
+      });
+
+      if (!response.ok) {
+        const errText = await response.text();
+        console.error("Voice transcription failed", config.name, response.status, errText);
+        return failed({ key: "transcription_http_failed", params: { status: response.status } });
+      }
+
+      const json = await response.json();
+      const text = typeof json?.text === "string" ? json.text.trim() : "";
+      return {
+        text: text || null,
+        error: null,
+        provider: config.name,
+        model: config.model,
+        language: normalizeTranscriptLanguage(json?.language),
+        segments: normalizeTranscriptSegments(json?.segments),
+        usage: {
+          inputTokens: typeof json?.usage?.input_tokens === "number" ? json.usage.input_tokens : null,
+          outputTokens: typeof json?.usage?.output_tokens === "number" ? json.usage.output_tokens : null,
+          audioSeconds: typeof json?.duration === "number"
+            ? json.duration
+            : typeof json?.usage?.seconds === "number"
+            ? json.usage.seconds
+            : null,
+        },
+      };
+    },
+  };
+}
+
+// Maps storage object paths to canned transcripts so voice flows run without audio or network.
+// Keys may be the full path or the path without the leading `${userID}/` prefix.
+function createStubTranscriber(fixturesJSON: string | undefined): TranscriptionProvider {
+  let fixtures: Record<string, unknown> = {};
+  if (fixturesJSON?.trim()) {
+    try {
+      fixtures = JSON.parse(fixturesJSON) as Record<string, unknown>;
+    } catch (error) {
+      console.error("TRANSCRIPTION_STUB_FIXTURES is not valid JSON", error);
+    }
+  }
+  return {
+    name: "stub",
+    model: "stub-v1",
+    transcribe(request) {
+      const relativePath = request.objectPath.split("/").slice(1).join("/");
+      const fixture = fixtures[request.objectPath] ?? fixtures[relativePath];
+      if (fixture === undefined) {
+        return Promise.resolve(transcriptionFailure("stub", "stub-v1", { key: "transcription_empty" }));
+      }
+      const record = (typeof fixture === "string" ? { text: fixture } : fixture ?? {}) as Record<string, unknown>;
+      const text = typeof record.text === "string" ? record.text.trim() : "";
+      return Promise.resolve({
+        text: text || null,
+        error: null,
+        provider: "stub",
+        model: "stub-v1",
+        language: normalizeTranscriptLanguage(record.language) ?? request.languageHint ?? null,
+        segments: normalizeTranscriptSegments(record.segments),
+        usage: emptyUsage(),
+      });
+    },
+  };
+}
+
+export async function transcribeVoiceCaptureFromStorage(opts: {
+  adminClient: ReturnType<typeof createClient>;
+  transcription: TranscriptionProviderResolution;
+  bucket: string;
+  objectPath: string;
+  languageHint?: "en" | "es";
+}): Promise<TranscriptionResult> {
+  const provider = opts.transcription.provider;
+  if (!provider) {
+    const reason = opts.transcription.unavailableReason ?? "Voice transcription unavailable.";
+    console.error("Transcription provider unavailable; cannot transcribe voice capture", reason);
+    return transcriptionFailure("none", "none", { key: "transcription_unavailable", params: { detail: reason } });
+  }
+
+  const loadAudio = async (): Promise<File | null> => {
+    const { data, error } = await opts.adminClient.storage
+      .from(opts.bucket)
+      .download(opts.objectPath);
+
+    if (error || !data) {
+      console.error("Failed to download voice capture from storage", error?.message);
+      return null;
+    }
+
+    const fileName = opts.objectPath.split("/").pop() || "capture.m4a";
+    const audioBuffer = await data.arrayBuffer();
+    const blobType = data.type || "audio/mp4";
+    console.log("Voice capture downloaded for transcription", {
+      objectPath: opts.objectPath,
+      bytes: audioBuffer.byteLength,
+      type: blobType,
+    });
+    return new File([audioBuffer], fileName, { type: blobType });
+  };
+
+  try {
+    const result = await provider.transcribe({
+      objectPath: opts.objectPath,
+      languageHint: opts.languageHint,
+      loadAudio,
+    });
+    if (result.error) return result;
+    if (!result.text) {
+      console.error("Voice transcription returned empty text", { objectPath: opts.objectPath, provider: provider.name });
+      return { ...result, error: { key: "transcription_empty" } };
+    }
+    return result;
+  } catch (error) {
+    console.error("Transcription error", error);
+    return transcriptionFailure(provider.name, provider.model, { key: "transcription_crashed" });
+  }
+}
+
+function transcriptionFailure(provider: string, model: string, error: ErrorDescriptor): TranscriptionResult {
+  return { text: null, error, provider, model, language: null, segments: [], usage: null };
+}
+
+const TRANSCRIPT_LANGUAGE_NAMES: Record<string, string> = {
+  english: "en",
+  spanish: "es",
+  castilian: "es",
+  portuguese: "pt",
+  french: "fr",
+  german: "de",
+  italian: "it",
+};
+
+function normalizeTranscriptLanguage(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const lower = value.trim().toLowerCase();
+  if (!lower) return null;
+  if (/^[a-z]{2}(?:[-_][a-z]{2})?$/.test(lower)) return lower.slice(0, 2);
+  return TRANSCRIPT_LANGUAGE_NAMES[lower] ?? null;
+}
+
+function normalizeTranscriptSegments(value: unknown): TranscriptSegment[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry): TranscriptSegment[] => {
+    if (!entry || typeof entry !== "object") return [];
+    const record = entry as Record<string, unknown>;
+    const start = typeof record.start === "number" ? record.start : 0;
+    const end = typeof record.end === "number" ? record.end : start;
+    let confidence: number | null = null;
+    if (typeof record.confidence === "number") {
+      confidence = record.confidence;
+    } else if (typeof record.avg_logprob === "number") {
+      // Whisper reports mean token log-probability plus the chance the segment is silence.
+      const noSpeech = typeof record.no_speech_prob === "number" ? record.no_speech_prob : 0;
+      confidence = Math.exp(record.avg_logprob) * (1 - noSpeech);
+    }
+    return [{
+      text: typeof record.text === "string" ? record.text.trim() : "",
+      start,
+      end,
+      confidence: clamp(confidence ?? 1, 0, 1),
+    }];
+  });
+}
+
+// Duration-weighted mean of segment confidences; null when the engine returned no segments.
+export function transcriptConfidence(result: TranscriptionResult | null): number | null {
+  if (!result || result.segments.length === 0) return null;
+  let weighted = 0;
+  let totalDuration = 0;
+  for (const segment of result.segments) {
+    const duration = Math.max(segment.end - segment.start, 0.01);
+    weighted += segment.confidence * duration;
+    totalDuration += duration;
+  }
+  return totalDuration > 0 ? weighted / totalDuration : null;
+}
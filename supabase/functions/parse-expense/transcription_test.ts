@@ -0,0 +1,210 @@
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { assertAlmostEquals, assertEquals } from "jsr:@std/assert@1";
+import {
+  resolveTranscriptionProvider,
+  transcribeVoiceCaptureFromStorage,
+  transcriptConfidence,
+  type TranscriptionResult,
+} from "./transcription.ts";
+
+const USER_ID = "5b1d3c2a-7e4f-4a6b-8c9d-0e1f2a3b4c5d";
+
+const TRANSCRIPTION_ENV_KEYS = [
+  "TRANSCRIPTION_PROVIDER",
+  "TRANSCRIPTION_ENDPOINT_URL",
+  "TRANSCRIPTION_PROVIDER_NAME",
+  "TRANSCRIPTION_API_KEY",
+  "TRANSCRIPTION_MODEL",
+  "TRANSCRIPTION_STUB_FIXTURES",
+  "OPENAI_API_KEY",
+];
+
+// Runs fn with exactly the given transcription variables set, restoring the previous environment afterwards.
+function withTranscriptionEnv(env: Record<string, string>, fn: () => Promise<void> | void): () => Promise<void> {
+  return async () => {
+    const previous = Object.fromEntries(TRANSCRIPTION_ENV_KEYS.map((key) => [key, Deno.env.get(key)]));
+    for (const key of TRANSCRIPTION_ENV_KEYS) {
+      if (key in env) Deno.env.set(key, env[key]);
+      else Deno.env.delete(key);
+    }
+    try {
+      await fn();
+    } finally {
+      for (const [key, value] of Object.entries(previous)) {
+        if (value === undefined) Deno.env.delete(key);
+        else Deno.env.set(key, value);
+      }
+    }
+  };
+}
+
+// Serves one in-memory capture; counts downloads so tests can tell whether a provider needed the audio.
+function storageWith(audio: Blob | null) {
+  const downloads: string[] = [];
+  const client = {
+    storage: {
+      from(bucket: string) {
+        return {
+          download(path: string) {
+            downloads.push(`${bucket}/${path}`);
+            return Promise.resolve(audio ? { data: audio, error: null } : { data: null, error: { message: "not found" } });
+          },
+        };
+      },
+    },
+  } as unknown as ReturnType<typeof createClient>;
+  return { client, downloads };
+}
+
+function transcribe(objectPath: string, adminClient = storageWith(null).client, languageHint?: "en" | "es") {
+  return transcribeVoiceCaptureFromStorage({
+    adminClient,
+    transcription: resolveTranscriptionProvider(),
+    bucket: "voice-captures",
+    objectPath,
+    languageHint,
+  });
+}
+
+Deno.test(
+  "each provider reports why it is unavailable",
+  withTranscriptionEnv({}, () => {
+    assertEquals(
+      resolveTranscriptionProvider().unavailableReason,
+      "Voice transcription unavailable (server missing OPENAI_API_KEY).",
+    );
+    Deno.env.set("TRANSCRIPTION_PROVIDER", "whisper-http");
+    assertEquals(
+      resolveTranscriptionProvider().unavailableReason,
+      "Voice transcription unavailable (server missing TRANSCRIPTION_ENDPOINT_URL).",
+    );
+    Deno.env.set("TRANSCRIPTION_PROVIDER", "acme");
+    assertEquals(
+      resolveTranscriptionProvider().unavailableReason,
+      'Voice transcription unavailable (unknown TRANSCRIPTION_PROVIDER "acme").',
+    );
+  }),
+);
+
+Deno.test(
+  "a missing provider fails the capture without touching storage",
+  withTranscriptionEnv({}, async () => {
+    const storage = storageWith(new Blob(["audio"]));
+    const result = await transcribe(`${USER_ID}/a.m4a`, storage.client);
+    assertEquals(result.text, null);
+    assertEquals(result.provider, "none");
+    assertEquals(storage.downloads, []);
+  }),
+);
+
+Deno.test(
+  "the stub maps full or user-relative storage paths to transcripts",
+  withTranscriptionEnv({
+    TRANSCRIPTION_PROVIDER: "stub",
+    TRANSCRIPTION_STUB_FIXTURES: JSON.stringify({
+      "lunch.m4a": "lunch 15 dollars",
+      [`${USER_ID}/tacos.m4a`]: {
+        text: " tacos 120 pesos ",
+        language: "Spanish",
+        segments: [{ text: "tacos 120 pesos", start: 0, end: 2, confidence: 0.4 }],
+      },
+    }),
+  }, async () => {
+    assertEquals(await transcribe(`${USER_ID}/tacos.m4a`), {
+      text: "tacos 120 pesos",
+      error: null,
+      provider: "stub",
+      model: "stub-v1",
+      language: "es",
+      segments: [{ text: "tacos 120 pesos", start: 0, end: 2, confidence: 0.4 }],
+      usage: { inputTokens: null, outputTokens: null, audioSeconds: null },
+    });
+    const lunch = await transcribe(`${USER_ID}/lunch.m4a`, undefined, "en");
+    assertEquals([lunch.text, lunch.language, lunch.segments], ["lunch 15 dollars", "en", []]);
+    const missing = await transcribe(`${USER_ID}/unknown.m4a`);
+    assertEquals(missing.error, { key: "transcription_empty" });
+  }),
+);
+
+Deno.test(
+  "whisper-http uploads the capture and converts log-probabilities to confidences",
+  withTranscriptionEnv({
+    TRANSCRIPTION_PROVIDER: "whisper-http",
+    TRANSCRIPTION_ENDPOINT_URL: "http://whisper.local/v1/audio/transcriptions",
+    TRANSCRIPTION_MODEL: "large-v3",
+  }, async () => {
+    const originalFetch = globalThis.fetch;
+    const forms: FormData[] = [];
+    globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) => {
+      forms.push(init?.body as FormData);
+      return Promise.resolve(Response.json({
+        text: "uber 90",
+        language: "english",
+        duration: 1.5,
+        segments: [{ text: "uber 90", start: 0, end: 1.5, avg_logprob: Math.log(0.8), no_speech_prob: 0.5 }],
+      }));
+    };
+    const storage = storageWith(new Blob(["audio"], { type: "audio/mp4" }));
+    let result: TranscriptionResult;
+    try {
+      result = await transcribe(`${USER_ID}/uber.m4a`, storage.client, "en");
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+    assertEquals(storage.downloads, [`voice-captures/${USER_ID}/uber.m4a`]);
+    assertEquals(forms[0].get("model"), "large-v3");
+    assertEquals(forms[0].get("language"), "en");
+    assertEquals(forms[0].get("response_format"), "verbose_json");
+    assertEquals([result.provider, result.model, result.text, result.language], [
+      "whisper-http",
+      "large-v3",
+      "uber 90",
+      "en",
+    ]);
+    assertAlmostEquals(result.segments[0].confidence, 0.4);
+    assertEquals(result.usage, { inputTokens: null, outputTokens: null, audioSeconds: 1.5 });
+  }),
+);
+
+Deno.test(
+  "whisper-http surfaces unreadable uploads and HTTP failures",
+  withTranscriptionEnv({
+    TRANSCRIPTION_PROVIDER: "whisper-http",
+    TRANSCRIPTION_ENDPOINT_URL: "http://whisper.local/v1/audio/transcriptions",
+  }, async () => {
+    const unreadable = await transcribe(`${USER_ID}/gone.m4a`);
+    assertEquals(unreadable.error, { key: "voice_upload_unreadable" });
+
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = () => Promise.resolve(new Response("overloaded", { status: 503 }));
+    try {
+      const failed = await transcribe(`${USER_ID}/a.m4a`, storageWith(new Blob(["audio"])).client);
+      assertEquals(failed.error, { key: "transcription_http_failed", params: { status: 503 } });
+      // Nothing reached the engine, so nothing is billed.
+      assertEquals(failed.usage, null);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  }),
+);
+
+Deno.test("transcript confidence is the duration-weighted mean of its segments", () => {
+  const result = (segments: TranscriptionResult["segments"]): TranscriptionResult => ({
+    text: "x",
+    error: null,
+    provider: "stub",
+    model: "stub-v1",
+    language: null,
+    segments,
+    usage: null,
+  });
+  assertEquals(transcriptConfidence(null), null);
+  assertEquals(transcriptConfidence(result([])), null);
+  assertAlmostEquals(
+    transcriptConfidence(result([
+      { text: "a", start: 0, end: 3, confidence: 0.9 },
+      { text: "b", start: 3, end: 4, confidence: 0.5 },
+    ]))!,
+    0.8,
+  );
+});
@@ -0,0 +1,67 @@
+import { normalizeCurrencyCode } from "../_shared/currencies.ts";
+
+export type ActiveTrip = {
+  id: string;
+  name: string;
+  baseCurrency: string | null;
+  // YYYY-MM-DD.
+  startDate: string;
+  // Null for open-ended trips.
+  endDate: string | null;
+};
+
+export type TripRow = {
+  id?: string;
+  name?: string;
+  base_currency?: string | null;
+  start_date?: string | null;
+  end_date?: string | null;
+};
+
+export type TripInference = {
+  trip: ActiveTrip;
+  // True when the expense's currency is the trip's because none was stated.
+  currencyFromTrip: boolean;
+};
+
+// Rows without a start date cannot be matched to an expense date, so they are dropped.
+export function toActiveTrips(rows: TripRow[]): ActiveTrip[] {
+  return rows.flatMap((row) =>
+    row.id && row.name && row.start_date
+      ? [{
+        id: row.id,
+        name: row.name,
+        baseCurrency: normalizeCurrencyCode(row.base_currency),
+        startDate: row.start_date,
+        endDate: row.end_date ?? null,
+      }]
+      : []
+  );
+}
+
+// Overlapping active trips give no usable signal, so only a single match counts.
+export function activeTripForDate(trips: ActiveTrip[], dateKey: string): ActiveTrip | null {
+  const matches = trips.filter((trip) => trip.startDate <= dateKey && (!trip.endDate || dateKey <= trip.endDate));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+// Joins an expense to the active trip covering its own date, which may differ from the capture day ("ayer").
+// The parse defaulted an unstated currency to the capture day's trip; an expense on another trip's day takes
+// that trip's currency instead, or `fallbackCurrency` when no trip covers it.
+export function inferExpenseTrip(opts: {
+  trips: ActiveTrip[];
+  expenseDate: string;
+  captureTrip: ActiveTrip | null;
+  currency: string;
+  currencyStated: boolean;
+  defaultCurrency: string;
+  fallbackCurrency: string;
+}): { inference: TripInference | null; currency: string } {
+  const trip = activeTripForDate(opts.trips, opts.expenseDate);
+  let currency = opts.currency;
+  if (!opts.currencyStated && currency === opts.defaultCurrency && trip?.id !== opts.captureTrip?.id) {
+    currency = (trip?.baseCurrency ?? opts.fallbackCurrency).toUpperCase();
+  }
+  if (!trip) return { inference: null, currency };
+  return { inference: { trip, currencyFromTrip: !opts.currencyStated && currency === trip.baseCurrency }, currency };
+}
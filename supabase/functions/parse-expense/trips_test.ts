@@ -0,0 +1,76 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { activeTripForDate, type ActiveTrip, inferExpenseTrip, toActiveTrips } from "./trips.ts";
+
+const CDMX: ActiveTrip = {
+  id: "trip-cdmx",
+  name: "CDMX",
+  baseCurrency: "MXN",
+  startDate: "2026-03-05",
+  endDate: "2026-03-12",
+};
+const MADRID: ActiveTrip = {
+  id: "trip-madrid",
+  name: "Madrid",
+  baseCurrency: "EUR",
+  startDate: "2026-03-13",
+  endDate: null,
+};
+
+function infer(overrides: Partial<Parameters<typeof inferExpenseTrip>[0]>) {
+  return inferExpenseTrip({
+    trips: [CDMX, MADRID],
+    expenseDate: "2026-03-09",
+    captureTrip: CDMX,
+    currency: "MXN",
+    currencyStated: false,
+    defaultCurrency: "MXN",
+    fallbackCurrency: "USD",
+    ...overrides,
+  });
+}
+
+Deno.test("the single active trip covering a date is picked, open-ended trips included", () => {
+  assertEquals(activeTripForDate([CDMX, MADRID], "2026-03-05")?.id, "trip-cdmx");
+  assertEquals(activeTripForDate([CDMX, MADRID], "2026-03-12")?.id, "trip-cdmx");
+  assertEquals(activeTripForDate([CDMX, MADRID], "2026-09-01")?.id, "trip-madrid");
+  assertEquals(activeTripForDate([CDMX, MADRID], "2026-03-01"), null);
+});
+
+Deno.test("overlapping active trips assign none", () => {
+  const overlapping = { ...MADRID, id: "trip-overlap", startDate: "2026-03-10" };
+  assertEquals(activeTripForDate([CDMX, overlapping], "2026-03-11"), null);
+  assertEquals(activeTripForDate([CDMX, overlapping], "2026-03-09")?.id, "trip-cdmx");
+});
+
+Deno.test("trip rows without an id, name or start date are dropped", () => {
+  assertEquals(
+    toActiveTrips([
+      { id: "trip-cdmx", name: "CDMX", base_currency: "mxn", start_date: "2026-03-05", end_date: "2026-03-12" },
+      { id: "trip-undated", name: "Someday", base_currency: "EUR", start_date: null },
+      { name: "No id", start_date: "2026-03-01" },
+    ]),
+    [CDMX],
+  );
+});
+
+Deno.test("an unstated currency follows the trip of the expense's own date", () => {
+  assertEquals(infer({}), { inference: { trip: CDMX, currencyFromTrip: true }, currency: "MXN" });
+  // Said in Madrid about the last day in Mexico City ("ayer").
+  assertEquals(infer({ expenseDate: "2026-03-12", captureTrip: MADRID, currency: "EUR", defaultCurrency: "EUR" }), {
+    inference: { trip: CDMX, currencyFromTrip: true },
+    currency: "MXN",
+  });
+  // A date before any trip falls back to the hint or profile currency.
+  assertEquals(infer({ expenseDate: "2026-03-01", currency: "MXN" }), { inference: null, currency: "USD" });
+});
+
+Deno.test("a stated currency is kept and not credited to the trip", () => {
+  assertEquals(infer({ currency: "USD", currencyStated: true }), {
+    inference: { trip: CDMX, currencyFromTrip: false },
+    currency: "USD",
+  });
+  assertEquals(infer({ expenseDate: "2026-03-13", currency: "MXN", currencyStated: true }), {
+    inference: { trip: MADRID, currencyFromTrip: false },
+    currency: "MXN",
+  });
+});
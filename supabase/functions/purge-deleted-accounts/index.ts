@@ -0,0 +1,107 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { AccountPurgeResponse } from "../_shared/types.ts";
+import { purgeAccount } from "../_shared/account-deletion.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Keeps one run well inside the function time limit; the schedule picks up the rest.
+const PURGE_BATCH_SIZE = 10;
+// A claim older than this belongs to a run that died mid-purge. Purging is idempotent, so the row is taken over.
+const STALE_CLAIM_MS = 60 * 60 * 1000;
+
+// Scheduled job: erases accounts whose deletion grace window has ended. Only callable with the service role key.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ status: "error", error: "Method not allowed" } satisfies AccountPurgeResponse, 405);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    return json({ status: "error", error: "Missing Supabase env vars" } satisfies AccountPurgeResponse, 500);
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const bearerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (bearerToken !== supabaseServiceRoleKey) {
+    return json({ status: "error", error: "Unauthorized" } satisfies AccountPurgeResponse, 401);
+  }
+
+  const adminClient = createClient(supabaseUrl, supabaseServiceRoleKey);
+  const staleClaimBefore = new Date(Date.now() - STALE_CLAIM_MS).toISOString();
+  const claimable = `status.eq.pending,and(status.eq.purging,purge_started_at.lt."${staleClaimBefore}")`;
+  const { data, error } = await adminClient
+    .from("account_deletions")
+    .select("id, user_id, purge_attempts")
+    .or(claimable)
+    .lte("purge_after", new Date().toISOString())
+    .order("purge_after")
+    .limit(PURGE_BATCH_SIZE);
+  if (error) {
+    return json({ status: "error", error: error.message } satisfies AccountPurgeResponse, 500);
+  }
+
+  let purged = 0;
+  let failed = 0;
+  for (const deletion of (data ?? []) as Array<{ id: string; user_id: string; purge_attempts: number }>) {
+    // A restore may land between the query and this row. Claiming is one conditional update, and restore-account
+    // only accepts 'pending', so exactly one of them wins.
+    const { data: claimed, error: claimError } = await adminClient
+      .from("account_deletions")
+      .update({ status: "purging", purge_started_at: new Date().toISOString() })
+      .eq("id", deletion.id)
+      .or(claimable)
+      .select("id");
+    if (claimError || !claimed || claimed.length === 0) continue;
+
+    try {
+      const storageObjectsRemoved = await purgeAccount(adminClient, deletion.user_id);
+      await adminClient
+        .from("account_deletions")
+        .update({
+          status: "purged",
+          purged_at: new Date().toISOString(),
+          storage_objects_removed: storageObjectsRemoved,
+          purge_attempts: deletion.purge_attempts + 1,
+          last_error: null,
+        })
+        .eq("id", deletion.id)
+        .eq("status", "purging");
+      purged += 1;
+    } catch (purgeError) {
+      const message = purgeError instanceof Error ? purgeError.message : "Unknown error";
+      console.error("[purge-deleted-accounts] purge failed", { userID: deletion.user_id, message });
+      // Back to pending: the next run retries it, and the user can still restore in the meantime.
+      await adminClient
+        .from("account_deletions")
+        .update({
+          status: "pending",
+          purge_started_at: null,
+          purge_attempts: deletion.purge_attempts + 1,
+          last_error: message,
+        })
+        .eq("id", deletion.id)
+        .eq("status", "purging");
+      failed += 1;
+    }
+  }
+
+  return json({ status: "ok", purged, failed } satisfies AccountPurgeResponse, 200);
+});
+
+function json(payload: unknown, status = 200): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
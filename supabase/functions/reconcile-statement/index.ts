@@ -0,0 +1,413 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type {
+  ParseExpenseSavedExpense,
+  StatementFormat,
+  StatementLine,
+  StatementReconcileRequest,
+  StatementReconcileResponse,
+} from "../_shared/types.ts";
+import { STATEMENT_RECONCILE_REQUEST_SCHEMA } from "../_shared/types.ts";
+import { normalizeCurrencyCode } from "../_shared/currencies.ts";
+import { hasPendingDeletion, PENDING_DELETION_ERROR } from "../_shared/account-deletion.ts";
+import { localizeFieldErrors, validateRequestSchema } from "../_shared/validation.ts";
+import { comparisonWords, matchStatementLines } from "./matching.ts";
+import { parseCSVStatement, parseOFXStatement } from "./parsing.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const EXPENSE_COLUMNS =
+  "id, client_expense_id, amount, currency, category, category_id, description, merchant, expense_date, source, parse_status, trip_id, trip_name, payment_method_id, payment_method_name, charged_amount, charged_currency, home_amount, home_currency, trip_amount, trip_currency";
+const LINE_COLUMNS =
+  "id, line_number, posted_date, amount, currency, description, external_id, status, expense_id, match_score";
+const MAX_STATEMENT_LINES = 2000;
+const MAX_REPORTED_SKIPS = 50;
+const INSERT_CHUNK_SIZE = 500;
+const PAGE_SIZE = 1000;
+// Ids per `in` filter; they travel in the request URL.
+const LOOKUP_CHUNK_SIZE = 100;
+const DEFAULT_DATE_WINDOW_DAYS = 3;
+const MAX_MERCHANT_MEMORY_ROWS = 200;
+
+type MerchantRow = {
+  name: string;
+  normalized_name: string;
+  aliases: string[] | null;
+  default_category_id: string | null;
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ status: "error", error: "Method not allowed" } satisfies StatementReconcileResponse, 405);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    return json({ status: "error", error: "Missing Supabase env vars" } satisfies StatementReconcileResponse, 500);
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const bearerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!bearerToken) {
+    return json({ status: "error", error: "Unauthorized" } satisfies StatementReconcileResponse, 401);
+  }
+
+  const adminClient = createClient(supabaseUrl, supabaseServiceRoleKey);
+  const { data: authData, error: authError } = await adminClient.auth.getUser(bearerToken);
+  if (authError || !authData.user) {
+    return json(
+      { status: "error", error: authError?.message || "Unauthorized" } satisfies StatementReconcileResponse,
+      401,
+    );
+  }
+  const userID = authData.user.id;
+  if (await hasPendingDeletion(adminClient, userID)) {
+    return json(
+      { status: "error", error: PENDING_DELETION_ERROR } satisfies StatementReconcileResponse,
+      403,
+    );
+  }
+
+  try {
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return json({ status: "error", error: "Body must be JSON" } satisfies StatementReconcileResponse, 400);
+    }
+    const validationErrors = validateRequestSchema(STATEMENT_RECONCILE_REQUEST_SCHEMA, payload);
+    if (validationErrors.length > 0) {
+      const errors = localizeFieldErrors(validationErrors, "en");
+      return json({ status: "error", error: errors[0].error, errors } satisfies StatementReconcileResponse, 400);
+    }
+    const body = payload as StatementReconcileRequest;
+
+    return body.action === "import"
+      ? await importStatement(adminClient, userID, body)
+      : await createMissingExpenses(adminClient, userID, body);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return json({ status: "error", error: message } satisfies StatementReconcileResponse, 500);
+  }
+});
+
+async function importStatement(
+  supabase: ReturnType<typeof createClient>,
+  userID: string,
+  body: Extract<StatementReconcileRequest, { action: "import" }>,
+): Promise<Response> {
+  const { data: methodData } = await supabase
+    .from("payment_methods")
+    .select("id, name")
+    .eq("user_id", userID)
+    .eq("id", body.payment_method_id)
+    .maybeSingle();
+  const method = methodData as { id: string; name: string } | null;
+  if (!method) {
+    return json({ status: "error", error: "Unknown payment_method_id" } satisfies StatementReconcileResponse, 400);
+  }
+
+  const format: StatementFormat = body.format ?? (/<OFX>|OFXHEADER/i.test(body.statement) ? "ofx" : "csv");
+  const parsed = format === "ofx" ? parseOFXStatement(body.statement) : parseCSVStatement(body.statement);
+  if (parsed.lines.length === 0) {
+    return json(
+      {
+        status: "error",
+        error: "No charges found in the statement",
+        skipped: parsed.skipped.slice(0, MAX_REPORTED_SKIPS),
+      } satisfies StatementReconcileResponse,
+      400,
+    );
+  }
+  if (parsed.lines.length > MAX_STATEMENT_LINES) {
+    return json(
+      {
+        status: "error",
+        error: `Statement exceeds ${MAX_STATEMENT_LINES} charges; split the file`,
+      } satisfies StatementReconcileResponse,
+      400,
+    );
+  }
+
+  const { data: profileData } = await supabase
+    .from("profiles")
+    .select("default_currency")
+    .eq("id", userID)
+    .maybeSingle();
+  const profileCurrency = normalizeCurrencyCode((profileData as { default_currency?: string } | null)?.default_currency);
+  const statementCurrency = parsed.currency ?? normalizeCurrencyCode(body.currency) ?? profileCurrency ?? "USD";
+  const windowDays = body.date_window_days ?? DEFAULT_DATE_WINDOW_DAYS;
+  const dates = parsed.lines.map((line) => line.posted_date).sort();
+  const period = { start: dates[0], end: dates[dates.length - 1] };
+
+  // Unassigned expenses are candidates too: the card is often not mentioned when the expense is captured.
+  const expenses: ParseExpenseSavedExpense[] = [];
+  for (let offset = 0;; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("expenses")
+      .select(EXPENSE_COLUMNS)
+      .eq("user_id", userID)
+      .or(`payment_method_id.eq.${method.id},payment_method_id.is.null`)
+      .gte("expense_date", shiftDateKey(period.start, -windowDays))
+      .lte("expense_date", shiftDateKey(period.end, windowDays))
+      .order("id")
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) {
+      console.error("[reconcile-statement] failed to load expenses", { userID, message: error.message });
+      return json({ status: "error", error: error.message } satisfies StatementReconcileResponse, 500);
+    }
+    const page = (data ?? []) as ParseExpenseSavedExpense[];
+    expenses.push(...page);
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  const lines = parsed.lines.map((line) => ({ ...line, currency: line.currency ?? statementCurrency }));
+  const matches = matchStatementLines(lines, expenses, method.id, windowDays);
+
+  const { data: importData, error: importError } = await supabase
+    .from("statement_imports")
+    .insert({
+      user_id: userID,
+      payment_method_id: method.id,
+      format,
+      filename: body.filename?.trim() || null,
+      currency: statementCurrency,
+      period_start: period.start,
+      period_end: period.end,
+      date_window_days: windowDays,
+    })
+    .select("id")
+    .single();
+  const statementImportID = (importData as { id?: string } | null)?.id;
+  if (importError || !statementImportID) {
+    console.error("[reconcile-statement] failed to store statement", { userID, message: importError?.message });
+    return json(
+      { status: "error", error: importError?.message ?? "Failed to store statement" } satisfies StatementReconcileResponse,
+      500,
+    );
+  }
+
+  const storedLines: StatementLine[] = [];
+  const rows = lines.map((line, index) => {
+    const match = matches.get(index);
+    return {
+      ...line,
+      user_id: userID,
+      statement_import_id: statementImportID,
+      status: match ? "matched" : "missing",
+      expense_id: match?.expense.id ?? null,
+      match_score: match?.score ?? null,
+    };
+  });
+  for (let offset = 0; offset < rows.length; offset += INSERT_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from("statement_lines")
+      .insert(rows.slice(offset, offset + INSERT_CHUNK_SIZE))
+      .select(LINE_COLUMNS);
+    if (error) {
+      console.error("[reconcile-statement] failed to store statement lines", { userID, message: error.message });
+      return json({ status: "error", error: error.message } satisfies StatementReconcileResponse, 500);
+    }
+    storedLines.push(...((data ?? []) as StatementLine[]));
+  }
+  storedLines.sort((a, b) => a.line_number - b.line_number);
+
+  const matchedExpenseIDs = new Set(Array.from(matches.values()).map((match) => match.expense.id));
+  const extra = expenses
+    .filter((expense) =>
+      expense.payment_method_id === method.id
+      && !matchedExpenseIDs.has(expense.id)
+      && expense.expense_date >= period.start
+      && expense.expense_date <= period.end
+    )
+    .sort((a, b) => a.expense_date.localeCompare(b.expense_date));
+
+  return json(
+    {
+      status: "reconciled",
+      statement_import_id: statementImportID,
+      period,
+      matched: storedLines.filter((line) => line.status === "matched"),
+      missing: storedLines.filter((line) => line.status === "missing"),
+      extra,
+      skipped: parsed.skipped.slice(0, MAX_REPORTED_SKIPS),
+    } satisfies StatementReconcileResponse,
+    200,
+  );
+}
+
+async function createMissingExpenses(
+  supabase: ReturnType<typeof createClient>,
+  userID: string,
+  body: Extract<StatementReconcileRequest, { action: "create_missing" }>,
+): Promise<Response> {
+  const { data: importData } = await supabase
+    .from("statement_imports")
+    .select("id, payment_method_id")
+    .eq("user_id", userID)
+    .eq("id", body.statement_import_id)
+    .maybeSingle();
+  const statementImport = importData as { id: string; payment_method_id: string } | null;
+  if (!statementImport) {
+    return json({ status: "error", error: "Statement not found" } satisfies StatementReconcileResponse, 404);
+  }
+
+  let linesQuery = supabase
+    .from("statement_lines")
+    .select(LINE_COLUMNS)
+    .eq("statement_import_id", statementImport.id)
+    .eq("status", "missing")
+    .order("line_number");
+  if (body.line_ids) linesQuery = linesQuery.in("id", body.line_ids);
+  const { data: linesData, error: linesError } = await linesQuery;
+  if (linesError) {
+    return json({ status: "error", error: linesError.message } satisfies StatementReconcileResponse, 500);
+  }
+  const lines = (linesData ?? []) as StatementLine[];
+  if (lines.length === 0) {
+    return json(
+      { status: "created", statement_import_id: statementImport.id, created: [] } satisfies StatementReconcileResponse,
+      200,
+    );
+  }
+
+  const [methodResult, categories, merchants] = await Promise.all([
+    supabase.from("payment_methods").select("id, name").eq("id", statementImport.payment_method_id).maybeSingle(),
+    loadCategories(supabase, userID),
+    loadMerchants(supabase, userID),
+  ]);
+  const method = methodResult.data as { id: string; name: string } | null;
+  const fallbackCategory = categories.find((category) => category.name === "Other") ?? null;
+
+  const now = new Date().toISOString();
+  const rows = lines.map((line) => {
+    const merchant = findMerchant(line.description, merchants);
+    const category = (merchant?.default_category_id
+      ? categories.find((candidate) => candidate.id === merchant.default_category_id)
+      : null) ?? fallbackCategory;
+    return {
+      user_id: userID,
+      // The line id doubles as the idempotency key, so a retried request cannot create the expense twice.
+      client_expense_id: line.id,
+      amount: line.amount,
+      currency: line.currency,
+      category: category?.name ?? "Other",
+      category_id: category?.id ?? null,
+      description: line.description,
+      merchant: merchant?.name ?? null,
+      payment_method_id: method?.id ?? null,
+      payment_method_name: method?.name ?? null,
+      expense_date: line.posted_date,
+      captured_at_device: now,
+      synced_at: now,
+      source: "statement",
+      // Statement text rarely says what was bought; the user confirms the category.
+      parse_status: "needs_review",
+      raw_text: line.description,
+    };
+  });
+
+  // A retry finds the expenses of the first attempt, which the user may have edited since, and leaves them as they are.
+  const { error: createError } = await supabase
+    .from("expenses")
+    .upsert(rows, { onConflict: "user_id,client_expense_id", ignoreDuplicates: true });
+  if (createError) {
+    console.error("[reconcile-statement] failed to create expenses", { userID, message: createError.message });
+    return json({ status: "error", error: createError.message } satisfies StatementReconcileResponse, 500);
+  }
+  const created: ParseExpenseSavedExpense[] = [];
+  for (let offset = 0; offset < lines.length; offset += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from("expenses")
+      .select(EXPENSE_COLUMNS)
+      .eq("user_id", userID)
+      .in("client_expense_id", lines.slice(offset, offset + LOOKUP_CHUNK_SIZE).map((line) => line.id));
+    if (error) {
+      console.error("[reconcile-statement] failed to load created expenses", { userID, message: error.message });
+      return json({ status: "error", error: error.message } satisfies StatementReconcileResponse, 500);
+    }
+    created.push(...((data ?? []) as ParseExpenseSavedExpense[]));
+  }
+  const expenseByLineID = new Map(created.map((expense) => [expense.client_expense_id, expense]));
+
+  for (const line of lines) {
+    const expense = expenseByLineID.get(line.id);
+    if (!expense) continue;
+    const { error } = await supabase
+      .from("statement_lines")
+      .update({ status: "created", expense_id: expense.id })
+      .eq("id", line.id);
+    if (error) {
+      // The expense exists either way; a retry finds it through client_expense_id and relinks the line.
+      console.error("[reconcile-statement] failed to link statement line", { userID, lineID: line.id, message: error.message });
+    }
+  }
+
+  return json(
+    {
+      status: "created",
+      statement_import_id: statementImport.id,
+      created: lines.map((line) => expenseByLineID.get(line.id)).filter((expense) => !!expense) as ParseExpenseSavedExpense[],
+    } satisfies StatementReconcileResponse,
+    200,
+  );
+}
+
+async function loadCategories(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+): Promise<{ id: string; name: string }[]> {
+  const { data } = await supabase
+    .from("categories")
+    .select("id, name, user_id")
+    .or(`user_id.is.null,user_id.eq.${userId}`);
+  return ((data ?? []) as { id?: string; name?: string }[])
+    .filter((row): row is { id: string; name: string } => !!row.id && !!row.name);
+}
+
+async function loadMerchants(supabase: ReturnType<typeof createClient>, userId: string): Promise<MerchantRow[]> {
+  const { data } = await supabase
+    .from("merchants")
+    .select("name, normalized_name, aliases, default_category_id")
+    .eq("user_id", userId)
+    .order("expense_count", { ascending: false })
+    .limit(MAX_MERCHANT_MEMORY_ROWS);
+  return (data ?? []) as MerchantRow[];
+}
+
+// The known merchant (by name or alias) whose words appear in the statement descriptor; the longest wins.
+function findMerchant(descriptor: string, merchants: MerchantRow[]): MerchantRow | null {
+  const descriptorText = ` ${comparisonWords(descriptor).join(" ")} `;
+  let best: { merchant: MerchantRow; length: number } | null = null;
+  for (const merchant of merchants) {
+    for (const key of [merchant.normalized_name, ...(merchant.aliases ?? [])]) {
+      const keyText = comparisonWords(key).join(" ");
+      if (keyText.length < 3 || !descriptorText.includes(` ${keyText} `)) continue;
+      if (!best || keyText.length > best.length) best = { merchant, length: keyText.length };
+    }
+  }
+  return best?.merchant ?? null;
+}
+
+function shiftDateKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function json(payload: unknown, status = 200): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
@@ -0,0 +1,114 @@
+import type { ParseExpenseSavedExpense } from "../_shared/types.ts";
+
+// Same-currency amounts must match to the cent; converted ones (home_amount) within the spread banks charge.
+const CONVERTED_AMOUNT_TOLERANCE = 0.03;
+
+// A statement line once its currency is known (from the file, the request or the profile).
+export type StatementCharge = {
+  posted_date: string;
+  amount: number;
+  currency: string;
+  description: string;
+};
+
+export type LineMatch = { expense: ParseExpenseSavedExpense; score: number };
+
+// Scores every (line, expense) pair whose amount and date fit, then pairs greedily from the best score down, so
+// each expense backs at most one line.
+export function matchStatementLines(
+  lines: StatementCharge[],
+  expenses: ParseExpenseSavedExpense[],
+  paymentMethodID: string,
+  windowDays: number,
+): Map<number, LineMatch> {
+  const pairs: Array<{ lineIndex: number; expense: ParseExpenseSavedExpense; score: number }> = [];
+  lines.forEach((line, lineIndex) => {
+    for (const expense of expenses) {
+      const amountScore = amountMatchScore(line, expense);
+      if (amountScore === null) continue;
+      const days = Math.abs(daysBetween(line.posted_date, expense.expense_date));
+      if (days > windowDays) continue;
+      const dateScore = 1 - days / (windowDays + 1);
+      const merchantScore = merchantSimilarity(expense.merchant ?? expense.description, line.description);
+      const methodScore = expense.payment_method_id === paymentMethodID ? 1 : 0;
+      const score = 0.35 * amountScore + 0.3 * dateScore + 0.25 * merchantScore + 0.1 * methodScore;
+      pairs.push({ lineIndex, expense, score: Math.round(score * 1000) / 1000 });
+    }
+  });
+  pairs.sort((a, b) => b.score - a.score);
+
+  const matches = new Map<number, LineMatch>();
+  const usedExpenses = new Set<string>();
+  for (const pair of pairs) {
+    if (matches.has(pair.lineIndex) || usedExpenses.has(pair.expense.id)) continue;
+    matches.set(pair.lineIndex, { expense: pair.expense, score: pair.score });
+    usedExpenses.add(pair.expense.id);
+  }
+  return matches;
+}
+
+// 1 for an exact amount in the statement currency, less for a converted one, null when the amounts differ.
+function amountMatchScore(line: { amount: number; currency: string }, expense: ParseExpenseSavedExpense): number | null {
+  const currency = line.currency.toUpperCase();
+  const exact = expense.charged_currency?.toUpperCase() === currency
+    ? expense.charged_amount
+    : expense.currency.toUpperCase() === currency
+    ? expense.amount
+    : null;
+  if (exact !== null && exact !== undefined) {
+    return Math.abs(exact - line.amount) < 0.005 ? 1 : null;
+  }
+  if (expense.home_currency?.toUpperCase() === currency && typeof expense.home_amount === "number") {
+    const drift = Math.abs(expense.home_amount - line.amount) / line.amount;
+    return drift <= CONVERTED_AMOUNT_TOLERANCE ? 1 - drift / CONVERTED_AMOUNT_TOLERANCE / 2 : null;
+  }
+  return null;
+}
+
+// Statement descriptors add store numbers, cities and processor prefixes ("SQ *BLUE BOTTLE 0042 OAKLAND"), so a
+// merchant contained in the descriptor counts as a full match; otherwise shared words, then shared letter pairs.
+function merchantSimilarity(merchant: string | null, descriptor: string): number {
+  const merchantWords = comparisonWords(merchant);
+  const descriptorWords = comparisonWords(descriptor);
+  if (merchantWords.length === 0 || descriptorWords.length === 0) return 0;
+
+  const merchantText = merchantWords.join(" ");
+  const descriptorText = descriptorWords.join(" ");
+  if (` ${descriptorText} `.includes(` ${merchantText} `)) return 1;
+
+  const descriptorSet = new Set(descriptorWords);
+  const shared = merchantWords.filter((word) => descriptorSet.has(word)).length / merchantWords.length;
+  return Math.max(shared, diceCoefficient(merchantWords.join(""), descriptorWords.join("")));
+}
+
+export function comparisonWords(value: string | null): string[] {
+  return (value ?? "")
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= 2 && !/^\d+$/.test(word));
+}
+
+function diceCoefficient(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return 0;
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i += 1) {
+    const bigram = a.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i += 1) {
+    const bigram = b.slice(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap += 1;
+    }
+  }
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86_400_000);
+}
@@ -0,0 +1,64 @@
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import type { ParseExpenseSavedExpense } from "../_shared/types.ts";
+import { matchStatementLines, type StatementCharge } from "./matching.ts";
+
+const CARD = "8d1c6f0e-2a4b-4c5d-9e7f-0a1b2c3d4e5f";
+
+function charge(overrides: Partial<StatementCharge> = {}): StatementCharge {
+  return { posted_date: "2026-03-02", amount: 5.5, currency: "USD", description: "SQ *BLUE BOTTLE 0042 OAKLAND", ...overrides };
+}
+
+function expense(id: string, overrides: Partial<ParseExpenseSavedExpense> = {}): ParseExpenseSavedExpense {
+  return {
+    id,
+    client_expense_id: id,
+    amount: 5.5,
+    currency: "USD",
+    category: "Food",
+    description: null,
+    merchant: "Blue Bottle",
+    expense_date: "2026-03-02",
+    source: "voice",
+    parse_status: "auto",
+    payment_method_id: CARD,
+    ...overrides,
+  };
+}
+
+Deno.test("matches a same-day, same-amount charge with the merchant in the descriptor", () => {
+  const matches = matchStatementLines([charge()], [expense("e1")], CARD, 3);
+  assertEquals(matches.get(0)?.expense.id, "e1");
+  assertEquals(matches.get(0)?.score, 1);
+});
+
+Deno.test("skips expenses whose amount differs by a cent or whose date is outside the window", () => {
+  const expenses = [expense("cent", { amount: 5.51 }), expense("late", { expense_date: "2026-03-06" })];
+  assertEquals(matchStatementLines([charge()], expenses, CARD, 3).size, 0);
+});
+
+Deno.test("prefers the charged amount when the card billed in the statement currency", () => {
+  const abroad = expense("e1", { amount: 100, currency: "MXN", charged_amount: 5.5, charged_currency: "USD" });
+  assertEquals(matchStatementLines([charge()], [abroad], CARD, 3).get(0)?.expense.id, "e1");
+});
+
+Deno.test("accepts a converted home amount within 3% at a lower score", () => {
+  const converted = expense("near", { amount: 100, currency: "MXN", home_amount: 5.6, home_currency: "USD" });
+  const tooFar = expense("far", { amount: 100, currency: "MXN", home_amount: 5.8, home_currency: "USD" });
+  const matches = matchStatementLines([charge()], [converted, tooFar], CARD, 3);
+  assertEquals(matches.get(0)?.expense.id, "near");
+  assert(matches.get(0)!.score < 1);
+});
+
+Deno.test("backs each line with a different expense, best score first", () => {
+  const lines = [charge({ posted_date: "2026-03-03" }), charge()];
+  const expenses = [expense("mar2"), expense("mar3", { expense_date: "2026-03-03" })];
+  const matches = matchStatementLines(lines, expenses, CARD, 3);
+  assertEquals(matches.get(0)?.expense.id, "mar3");
+  assertEquals(matches.get(1)?.expense.id, "mar2");
+});
+
+Deno.test("an expense on another card loses to one on the statement's card", () => {
+  const other = expense("other", { payment_method_id: "11111111-2222-4333-8444-555555555555" });
+  const matches = matchStatementLines([charge()], [other, expense("mine")], CARD, 3);
+  assertEquals(matches.get(0)?.expense.id, "mine");
+});
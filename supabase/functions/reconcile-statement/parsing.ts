@@ -0,0 +1,223 @@
+import { normalizeCurrencyCode } from "../_shared/currencies.ts";
+
+export type ParsedStatementLine = {
+  line_number: number;
+  posted_date: string;
+  amount: number;
+  currency: string | null;
+  description: string;
+  external_id: string | null;
+};
+
+export type ParsedStatement = {
+  lines: ParsedStatementLine[];
+  currency: string | null;
+  skipped: Array<{ row: number; reason: string }>;
+};
+
+// Header row required. Charges come from a debit column, or from a signed amount column where the sign used by
+// most rows is the charge sign (banks print charges negative, card issuers positive).
+export function parseCSVStatement(text: string): ParsedStatement {
+  const result: ParsedStatement = { lines: [], currency: null, skipped: [] };
+  const headerLine = text.split(/\r?\n/).find((line) => line.trim()) ?? "";
+  const delimiter = headerLine.includes("\t")
+    ? "\t"
+    : headerLine.split(";").length > headerLine.split(",").length
+    ? ";"
+    : ",";
+  const [headerRecord, ...rows] = splitCSVRecords(text, delimiter);
+  const header = (headerRecord?.cells ?? []).map((cell) =>
+    cell.toLowerCase().normalize("NFD").replace(/\p{M}/gu, "").replace(/[^a-z ]/g, "").trim()
+  );
+  const column = (...names: string[]) => names.map((name) => header.indexOf(name)).find((index) => index !== -1) ?? -1;
+  const dateIndex = column("transaction date", "trans date", "date", "fecha", "booking date", "posted date", "posting date");
+  const amountIndex = column("amount", "importe", "monto", "cantidad");
+  const debitIndex = column("debit", "debits", "withdrawal", "withdrawals", "cargo", "cargos");
+  const creditIndex = column("credit", "credits", "deposit", "deposits", "abono", "abonos");
+  const descriptionIndex = column("description", "payee", "merchant", "name", "details", "descripcion", "concepto", "memo");
+  const currencyIndex = column("currency", "moneda");
+  const referenceIndex = column("reference", "transaction id", "referencia", "id");
+  if (dateIndex === -1 || descriptionIndex === -1 || (amountIndex === -1 && debitIndex === -1)) {
+    result.skipped.push({ row: 1, reason: "Header must name date, description and amount (or debit) columns" });
+    return result;
+  }
+
+  const dayFirst = rows.some(({ cells }) => Number((cells[dateIndex] ?? "").split(/[/.-]/)[0]) > 12);
+  const signedAmounts = amountIndex === -1 ? [] : rows.map(({ cells }) => parseStatementAmount(cells[amountIndex]));
+  const negatives = signedAmounts.filter((amount) => amount !== null && amount < 0).length;
+  const chargeSign = negatives * 2 >= signedAmounts.filter((amount) => amount !== null).length ? -1 : 1;
+
+  rows.forEach(({ cells, row }, index) => {
+    const date = parseStatementDate(cells[dateIndex], dayFirst);
+    if (!date) {
+      result.skipped.push({ row, reason: "Unreadable date" });
+      return;
+    }
+    let amount: number | null;
+    if (debitIndex !== -1 && (cells[debitIndex] ?? "").trim()) {
+      amount = parseStatementAmount(cells[debitIndex]);
+      amount = amount === null ? null : Math.abs(amount);
+    } else if (creditIndex !== -1 && (cells[creditIndex] ?? "").trim()) {
+      result.skipped.push({ row, reason: "Credit (payment or refund)" });
+      return;
+    } else {
+      const signed = signedAmounts[index] ?? null;
+      if (signed !== null && Math.sign(signed) !== chargeSign) {
+        result.skipped.push({ row, reason: "Credit (payment or refund)" });
+        return;
+      }
+      amount = signed === null ? null : Math.abs(signed);
+    }
+    if (amount === null || amount === 0) {
+      result.skipped.push({ row, reason: "Unreadable amount" });
+      return;
+    }
+    result.lines.push({
+      line_number: row,
+      posted_date: date,
+      amount,
+      currency: currencyIndex === -1 ? null : normalizeCurrencyCode(cells[currencyIndex]),
+      description: (cells[descriptionIndex] ?? "").replace(/\s+/g, " ").trim() || "Statement charge",
+      external_id: referenceIndex === -1 ? null : cells[referenceIndex]?.trim() || null,
+    });
+  });
+  return result;
+}
+
+// Quoted cells may contain the delimiter, doubled quotes and line breaks, so one record can span several lines;
+// `row` is the line it starts on. Blank lines are dropped.
+function splitCSVRecords(text: string, delimiter: string): Array<{ cells: string[]; row: number }> {
+  const records: Array<{ cells: string[]; row: number }> = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let row = 1;
+  let recordStart = 0;
+  const endRecord = (end: number) => {
+    cells.push(cell.trim());
+    if (text.slice(recordStart, end).trim()) records.push({ cells, row });
+    cells = [];
+    cell = "";
+  };
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line += 1;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      endRecord(i);
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      line += 1;
+      row = line;
+      recordStart = i + 1;
+    } else {
+      cell += char;
+    }
+  }
+  endRecord(text.length);
+  return records;
+}
+
+// Accepts YYYY-MM-DD, YYYYMMDD and slash/dot dates; day-first when any row in the file has a day above 12.
+function parseStatementDate(value: string | undefined, dayFirst: boolean): string | null {
+  const trimmed = (value ?? "").trim();
+  let match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(trimmed);
+  let year: number, month: number, day: number;
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/.exec(trimmed);
+    if (!match) return null;
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    [day, month] = dayFirst ? [first, second] : [second, first];
+    year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+// "$1,234.56", "-12.50", "(12.50)" and "1.234,56" all read as numbers; parentheses mean negative.
+function parseStatementAmount(value: string | undefined): number | null {
+  let text = (value ?? "").trim();
+  if (!text) return null;
+  const negative = /^\(.*\)$/.test(text) || /^-|-$/.test(text.replace(/[^\d.,()-]/g, ""));
+  text = text.replace(/[^\d.,]/g, "");
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  if (lastComma > lastDot && text.length - lastComma - 1 <= 2) {
+    text = text.replace(/\./g, "").replace(",", ".");
+  } else {
+    text = text.replace(/,/g, "");
+  }
+  const amount = Number(text);
+  if (!text || !Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+// OFX 1.x (SGML, unclosed tags) and 2.x (XML). Charges are negative TRNAMT in both bank and card statements.
+export function parseOFXStatement(text: string): ParsedStatement {
+  const result: ParsedStatement = {
+    lines: [],
+    currency: normalizeCurrencyCode(ofxValue(text, "CURDEF")),
+    skipped: [],
+  };
+  const transactions = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+  transactions.forEach((block, index) => {
+    const row = index + 1;
+    const date = parseStatementDate(ofxValue(block, "DTPOSTED")?.slice(0, 8), false);
+    const amount = Number((ofxValue(block, "TRNAMT") ?? "").replace(",", "."));
+    if (!date) {
+      result.skipped.push({ row, reason: "Unreadable DTPOSTED" });
+      return;
+    }
+    if (!Number.isFinite(amount) || amount === 0) {
+      result.skipped.push({ row, reason: "Unreadable TRNAMT" });
+      return;
+    }
+    if (amount > 0) {
+      result.skipped.push({ row, reason: "Credit (payment or refund)" });
+      return;
+    }
+    const name = ofxValue(block, "NAME");
+    const memo = ofxValue(block, "MEMO");
+    result.lines.push({
+      line_number: row,
+      posted_date: date,
+      amount: Math.abs(amount),
+      // A CURRENCY / ORIGCURRENCY aggregate means the amount is in CURSYM, not the statement CURDEF.
+      currency: normalizeCurrencyCode(ofxValue(block, "CURSYM")),
+      description: decodeOFXText([name, memo && memo !== name ? memo : null].filter(Boolean).join(" ")) ||
+        "Statement charge",
+      external_id: ofxValue(block, "FITID"),
+    });
+  });
+  return result;
+}
+
+function ofxValue(block: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  return match?.[1]?.trim() || null;
+}
+
+function decodeOFXText(value: string): string {
+  return value
+    .replaceAll("&lt;", "<")
+    .replaceAll("&gt;", ">")
+    .replaceAll("&amp;", "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
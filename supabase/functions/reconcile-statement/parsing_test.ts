@@ -0,0 +1,61 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { parseCSVStatement, parseOFXStatement } from "./parsing.ts";
+
+Deno.test("CSV: the majority sign is the charge sign and credits are skipped", () => {
+  const parsed = parseCSVStatement(
+    [
+      "Transaction Date,Description,Amount",
+      "03/02/2026,SQ *BLUE BOTTLE,-5.50",
+      "03/03/2026,\"UBER, TRIP\",-12.00",
+      "03/04/2026,PAYMENT THANK YOU,250.00",
+    ].join("\n"),
+  );
+  assertEquals(parsed.lines.map((line) => [line.line_number, line.posted_date, line.amount, line.description]), [
+    [2, "2026-03-02", 5.5, "SQ *BLUE BOTTLE"],
+    [3, "2026-03-03", 12, "UBER, TRIP"],
+  ]);
+  assertEquals(parsed.skipped, [{ row: 4, reason: "Credit (payment or refund)" }]);
+});
+
+Deno.test("CSV: quoted cells may span line breaks", () => {
+  const parsed = parseCSVStatement(
+    [
+      "Fecha;Concepto;Cargo;Abono;Moneda",
+      "14/03/2026;\"OXXO CENTRO",
+      "SUC 123\";1.234,50;;MXN",
+      "",
+      "15/03/2026;\"Dijo \"\"hola\"\"\r\nhasta luego\";80;;mxn",
+      "16/03/2026;DEVOLUCION;;80;MXN",
+    ].join("\n"),
+  );
+  assertEquals(parsed.lines.map((line) => [line.line_number, line.amount, line.currency, line.description]), [
+    [2, 1234.5, "MXN", "OXXO CENTRO SUC 123"],
+    [5, 80, "MXN", 'Dijo "hola" hasta luego'],
+  ]);
+  assertEquals(parsed.skipped, [{ row: 7, reason: "Credit (payment or refund)" }]);
+});
+
+Deno.test("CSV: a header without date, description and amount columns is rejected", () => {
+  const parsed = parseCSVStatement("Posted,Memo\n03/02/2026,Coffee");
+  assertEquals(parsed.lines, []);
+  assertEquals(parsed.skipped, [{ row: 1, reason: "Header must name date, description and amount (or debit) columns" }]);
+});
+
+Deno.test("OFX: debits become charges in CURDEF unless the line names its own currency", () => {
+  const parsed = parseOFXStatement(
+    [
+      "OFXHEADER:100",
+      "<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS><CURDEF>USD<BANKTRANLIST>",
+      "<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260302120000<TRNAMT>-5.50<FITID>A1<NAME>BLUE BOTTLE<MEMO>Coffee &amp; pastry</STMTTRN>",
+      "<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260303<TRNAMT>-20.00<FITID>A2<NAME>TAXI<CURRENCY><CURSYM>EUR</CURRENCY></STMTTRN>",
+      "<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260304<TRNAMT>100.00<FITID>A3<NAME>PAYMENT</STMTTRN>",
+      "</BANKTRANLIST></CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>",
+    ].join("\n"),
+  );
+  assertEquals(parsed.currency, "USD");
+  assertEquals(parsed.lines.map((line) => [line.posted_date, line.amount, line.currency, line.description, line.external_id]), [
+    ["2026-03-02", 5.5, null, "BLUE BOTTLE Coffee & pastry", "A1"],
+    ["2026-03-03", 20, "EUR", "TAXI", "A2"],
+  ]);
+  assertEquals(parsed.skipped, [{ row: 3, reason: "Credit (payment or refund)" }]);
+});
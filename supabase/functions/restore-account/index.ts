@@ -0,0 +1,73 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { AccountDeletionRequest, AccountDeletionResponse } from "../_shared/types.ts";
+import { type ErrorDescriptor, localizeError, type MessageLanguage, normalizeMessageLanguage } from "../_shared/errors.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // The body is optional and only carries language_hint.
+  const body = await req.json().catch(() => null) as AccountDeletionRequest | null;
+  const language = normalizeMessageLanguage(body?.language_hint);
+
+  if (req.method !== "POST") {
+    return json(errorResponse({ key: "method_not_allowed" }, language), 405);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    return json(errorResponse({ key: "missing_env" }, language), 500);
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const bearerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!bearerToken) {
+    return json(errorResponse({ key: "unauthorized" }, language), 401);
+  }
+
+  const adminClient = createClient(supabaseUrl, supabaseServiceRoleKey);
+  const { data: authData, error: authError } = await adminClient.auth.getUser(bearerToken);
+  if (authError || !authData.user) {
+    return json(
+      errorResponse({ key: "auth_rejected", params: { detail: authError?.message || "Unauthorized" } }, language),
+      401,
+    );
+  }
+  const userID = authData.user.id;
+
+  const { data, error } = await adminClient
+    .from("account_deletions")
+    .update({ status: "restored", restored_at: new Date().toISOString() })
+    .eq("user_id", userID)
+    .eq("status", "pending")
+    .select("id");
+  if (error) {
+    return json(errorResponse({ key: "internal_error", params: { detail: error.message } }, language), 500);
+  }
+  if (!data || data.length === 0) {
+    return json(errorResponse({ key: "deletion_not_pending" }, language), 404);
+  }
+
+  return json({ status: "restored" } satisfies AccountDeletionResponse, 200);
+});
+
+function errorResponse(descriptor: ErrorDescriptor, language: MessageLanguage): AccountDeletionResponse {
+  return { status: "error", ...localizeError(descriptor, language) };
+}
+
+function json(payload: unknown, status = 200): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
@@ -0,0 +1,151 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { UsageQuotaStatus, UsageStatusRequest, UsageStatusResponse } from "../_shared/types.ts";
+import { USAGE_STATUS_REQUEST_SCHEMA } from "../_shared/types.ts";
+import { type ErrorDescriptor, localizeError, type MessageLanguage, normalizeMessageLanguage } from "../_shared/errors.ts";
+import { localizeFieldErrors, validateRequestSchema } from "../_shared/validation.ts";
+import { loadPlanLimits, type PlanLimits, type QuotaKind, quotaTimeZone } from "../_shared/quota.ts";
+import { hasPendingDeletion } from "../_shared/account-deletion.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DEFAULT_HISTORY_DAYS = 7;
+
+type UsageSnapshot = {
+  time_zone: string;
+  resets_at: string;
+  minute_resets_at: string;
+  voice_day: number;
+  text_day: number;
+  photo_day: number;
+  voice_minute: number;
+  text_minute: number;
+  photo_minute: number;
+  history: Array<{ date: string; voice: number; text: number; photo: number }> | null;
+};
+
+// Read-only: reports what parse-expense would enforce right now, without spending anything.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  // An empty body means the default history window.
+  const text = await req.text().catch(() => "");
+  let body: UsageStatusRequest | null;
+  try {
+    body = (text.trim() ? JSON.parse(text) : {}) as UsageStatusRequest | null;
+  } catch {
+    body = null;
+  }
+  const language = normalizeMessageLanguage(body?.language_hint);
+
+  if (req.method !== "POST") {
+    return json(errorResponse({ key: "method_not_allowed" }, language), 405);
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    return json(errorResponse({ key: "missing_env" }, language), 500);
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const bearerToken = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!bearerToken) {
+    return json(errorResponse({ key: "unauthorized" }, language), 401);
+  }
+
+  const adminClient = createClient(supabaseUrl, supabaseServiceRoleKey);
+  const { data: authData, error: authError } = await adminClient.auth.getUser(bearerToken);
+  if (authError || !authData.user) {
+    return json(
+      errorResponse({ key: "auth_rejected", params: { detail: authError?.message || "Unauthorized" } }, language),
+      401,
+    );
+  }
+  const userID = authData.user.id;
+  if (await hasPendingDeletion(adminClient, userID)) {
+    return json(errorResponse({ key: "account_pending_deletion" }, language), 403);
+  }
+
+  const validationErrors = validateRequestSchema(USAGE_STATUS_REQUEST_SCHEMA, body);
+  if (validationErrors.length > 0) {
+    return json(
+      { ...errorResponse(validationErrors[0], language), errors: localizeFieldErrors(validationErrors, language) },
+      400,
+    );
+  }
+  const days = body?.days ?? DEFAULT_HISTORY_DAYS;
+
+  try {
+    const { data: profileData } = await adminClient
+      .from("profiles")
+      .select("daily_voice_limit, timezone, plan_id")
+      .eq("id", userID)
+      .maybeSingle();
+    const profile = profileData as
+      | { daily_voice_limit: number | null; timezone: string | null; plan_id: string | null }
+      | null;
+    const limits = await loadPlanLimits(adminClient, profile?.plan_id, profile?.daily_voice_limit);
+
+    const { data, error } = await adminClient.rpc("usage_status", {
+      p_user_id: userID,
+      p_time_zone: quotaTimeZone(profile?.timezone),
+      p_days: days,
+    });
+    const snapshot = data as UsageSnapshot | null;
+    if (error || !snapshot) {
+      console.error("[usage-status] snapshot failed", { userID, message: error?.message });
+      return json(
+        errorResponse({ key: "internal_error", params: { detail: error?.message ?? "Usage unavailable" } }, language),
+        500,
+      );
+    }
+
+    return json(
+      {
+        status: "ok",
+        plan: limits.planID,
+        time_zone: snapshot.time_zone,
+        resets_at: new Date(snapshot.resets_at).toISOString(),
+        minute_resets_at: new Date(snapshot.minute_resets_at).toISOString(),
+        voice: quotaStatus("voice", snapshot, limits),
+        text: quotaStatus("text", snapshot, limits),
+        photo: quotaStatus("photo", snapshot, limits),
+        history: snapshot.history ?? [],
+      } satisfies UsageStatusResponse,
+      200,
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return json(errorResponse({ key: "internal_error", params: { detail: message } }, language), 500);
+  }
+});
+
+function quotaStatus(kind: QuotaKind, snapshot: UsageSnapshot, limits: PlanLimits): UsageQuotaStatus {
+  const usedToday = snapshot[`${kind}_day`];
+  return {
+    used_today: usedToday,
+    daily_limit: limits.daily[kind],
+    remaining_today: Math.max(0, limits.daily[kind] - usedToday),
+    used_this_minute: snapshot[`${kind}_minute`],
+    per_minute_limit: limits.perMinute[kind],
+  };
+}
+
+function errorResponse(descriptor: ErrorDescriptor, language: MessageLanguage): UsageStatusResponse {
+  return { status: "error", ...localizeError(descriptor, language) };
+}
+
+function json(payload: unknown, status = 200): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
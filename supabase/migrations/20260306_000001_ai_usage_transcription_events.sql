@@ -0,0 +1,9 @@
+-- Speech-to-text calls are billed separately from parsing, so they get their own usage event.
+-- Only voice_parse rows count toward the daily voice quota.
+
+alter table public.ai_usage_events
+  drop constraint if exists ai_usage_events_event_type_check;
+
+alter table public.ai_usage_events
+  add constraint ai_usage_events_event_type_check
+  check (event_type in ('voice_parse', 'text_parse', 'voice_transcription'));
@@ -0,0 +1,165 @@
+-- Per-user merchant registry. Rows are maintained from saved expenses by trigger; parse-expense reads them
+-- to canonicalize merchant names and fill missing category / payment method defaults.
+
+create or replace function public.normalize_merchant_name(value text)
+returns text
+language sql
+immutable
+as $$
+  select nullif(lower(regexp_replace(btrim(coalesce(value, '')), '\s+', ' ', 'g')), '');
+$$;
+
+create table if not exists public.merchants (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  normalized_name text not null,
+  -- Normalized spellings that refer to this merchant ("starbux", "sbux").
+  aliases text[] not null default '{}',
+  default_category_id uuid references public.categories(id) on delete set null,
+  default_payment_method_id uuid references public.payment_methods(id) on delete set null,
+  expense_count integer not null default 0,
+  last_seen_at timestamptz,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  unique (user_id, normalized_name)
+);
+
+create index if not exists merchants_user_expense_count_idx on public.merchants (user_id, expense_count desc);
+create index if not exists expenses_user_merchant_idx
+  on public.expenses (user_id, public.normalize_merchant_name(merchant))
+  where merchant is not null;
+
+drop trigger if exists set_merchants_updated_at on public.merchants;
+create trigger set_merchants_updated_at
+before update on public.merchants
+for each row execute function public.set_updated_at();
+
+-- Recomputes one merchant's stats from the user's expenses. Defaults are the most common category / payment
+-- method, with user-edited expenses counted first so a correction outweighs repeated parser guesses.
+-- A merchant with no expenses left is removed.
+create or replace function public.refresh_merchant_memory(p_user_id uuid, p_merchant text, p_prefer_name boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_normalized text := public.normalize_merchant_name(p_merchant);
+  v_count integer;
+  v_last_seen timestamptz;
+  v_category_id uuid;
+  v_payment_method_id uuid;
+begin
+  -- Deleting the user cascades into expenses after the auth.users row is gone; there is nothing to remember.
+  if v_normalized is null or not exists (select 1 from auth.users u where u.id = p_user_id) then
+    return;
+  end if;
+
+  select count(*), max(e.updated_at)
+    into v_count, v_last_seen
+  from public.expenses e
+  where e.user_id = p_user_id
+    and public.normalize_merchant_name(e.merchant) = v_normalized;
+
+  if v_count = 0 then
+    delete from public.merchants
+    where user_id = p_user_id
+      and normalized_name = v_normalized;
+    return;
+  end if;
+
+  select e.category_id
+    into v_category_id
+  from public.expenses e
+  where e.user_id = p_user_id
+    and public.normalize_merchant_name(e.merchant) = v_normalized
+    and e.category_id is not null
+  group by e.category_id
+  order by count(*) filter (where e.parse_status = 'edited') desc, count(*) desc, max(e.updated_at) desc
+  limit 1;
+
+  select e.payment_method_id
+    into v_payment_method_id
+  from public.expenses e
+  where e.user_id = p_user_id
+    and public.normalize_merchant_name(e.merchant) = v_normalized
+    and e.payment_method_id is not null
+  group by e.payment_method_id
+  order by count(*) filter (where e.parse_status = 'edited') desc, count(*) desc, max(e.updated_at) desc
+  limit 1;
+
+  insert into public.merchants (
+    user_id, name, normalized_name, default_category_id, default_payment_method_id, expense_count, last_seen_at
+  )
+  values (
+    p_user_id, btrim(p_merchant), v_normalized, v_category_id, v_payment_method_id, v_count, v_last_seen
+  )
+  on conflict (user_id, normalized_name) do update
+  set
+    name = case when p_prefer_name then excluded.name else public.merchants.name end,
+    default_category_id = excluded.default_category_id,
+    default_payment_method_id = excluded.default_payment_method_id,
+    expense_count = excluded.expense_count,
+    last_seen_at = excluded.last_seen_at;
+end;
+$$;
+
+create or replace function public.remember_expense_merchant()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('INSERT', 'UPDATE') and new.merchant is not null then
+    perform public.refresh_merchant_memory(new.user_id, new.merchant, new.parse_status = 'edited');
+  end if;
+
+  if tg_op in ('UPDATE', 'DELETE')
+    and old.merchant is not null
+    and (tg_op = 'DELETE' or public.normalize_merchant_name(old.merchant) is distinct from public.normalize_merchant_name(new.merchant))
+  then
+    perform public.refresh_merchant_memory(old.user_id, old.merchant, false);
+
+    -- A user renaming the merchant on an expense ("Starbux" -> "Starbucks") teaches an alias.
+    if tg_op = 'UPDATE' and new.merchant is not null and new.parse_status = 'edited' then
+      update public.merchants m
+      set aliases = array_append(m.aliases, public.normalize_merchant_name(old.merchant))
+      where m.user_id = new.user_id
+        and m.normalized_name = public.normalize_merchant_name(new.merchant)
+        and not (public.normalize_merchant_name(old.merchant) = any(m.aliases));
+    end if;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists remember_expense_merchant on public.expenses;
+create trigger remember_expense_merchant
+after insert or update of merchant, category_id, payment_method_id, parse_status or delete on public.expenses
+for each row execute function public.remember_expense_merchant();
+
+-- Both run as the owner and trust their arguments; only the expenses trigger may call them.
+revoke execute on function public.refresh_merchant_memory(uuid, text, boolean) from public, anon, authenticated;
+revoke execute on function public.remember_expense_merchant() from public, anon, authenticated;
+
+alter table public.merchants enable row level security;
+
+drop policy if exists "merchants_select_own" on public.merchants;
+create policy "merchants_select_own" on public.merchants
+for select using (user_id = auth.uid());
+
+drop policy if exists "merchants_manage_own" on public.merchants;
+create policy "merchants_manage_own" on public.merchants
+for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Seed the registry from expenses saved before this migration.
+select public.refresh_merchant_memory(seed.user_id, seed.merchant, false)
+from (
+  select distinct on (user_id, public.normalize_merchant_name(merchant)) user_id, merchant
+  from public.expenses
+  where merchant is not null
+  order by user_id, public.normalize_merchant_name(merchant), updated_at desc
+) seed;
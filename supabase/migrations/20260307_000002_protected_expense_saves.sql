@@ -0,0 +1,111 @@
+-- parse-expense used to check for user edits and then upsert, so an edit committed in between was overwritten.
+-- save_parsed_expenses locks the capture's stored rows, checks them and writes in one transaction. A row is
+-- protected when parse_status is 'edited' or it was updated more than 5 seconds (device clock skew) after sync.
+
+create or replace function public.is_protected_expense(p_parse_status text, p_updated_at timestamptz, p_synced_at timestamptz)
+returns boolean
+language sql
+immutable
+as $$
+  select p_parse_status = 'edited' or coalesce(p_updated_at > p_synced_at + interval '5 seconds', false);
+$$;
+
+-- Writes every row of p_rows, or none when any stored row of the capture is protected. Returns
+-- { saved: [rows as written], skipped: [client_expense_id of each protected row] }.
+create or replace function public.save_parsed_expenses(p_user_id uuid, p_rows jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_client_ids uuid[];
+  v_skipped uuid[];
+  v_saved jsonb;
+begin
+  select array_agg((r ->> 'client_expense_id')::uuid) into v_client_ids
+  from jsonb_array_elements(p_rows) r;
+
+  -- Held until commit, so an edit cannot land between this check and the write.
+  perform 1
+  from public.expenses e
+  where e.user_id = p_user_id
+    and e.client_expense_id = any(v_client_ids)
+  for update;
+
+  select coalesce(array_agg(e.client_expense_id), '{}') into v_skipped
+  from public.expenses e
+  where e.user_id = p_user_id
+    and e.client_expense_id = any(v_client_ids)
+    and public.is_protected_expense(e.parse_status, e.updated_at, e.synced_at);
+
+  if cardinality(v_skipped) > 0 then
+    return jsonb_build_object('saved', '[]'::jsonb, 'skipped', to_jsonb(v_skipped));
+  end if;
+
+  with written as (
+    insert into public.expenses (
+      user_id, client_expense_id, amount, currency, category, category_id, description, merchant,
+      trip_id, trip_name, payment_method_id, payment_method_name, expense_date, captured_at_device, synced_at,
+      source, parse_status, parse_confidence, raw_text, audio_duration_seconds
+    )
+    select
+      p_user_id, r.client_expense_id, r.amount, r.currency, r.category, r.category_id, r.description, r.merchant,
+      r.trip_id, r.trip_name, r.payment_method_id, r.payment_method_name, r.expense_date, r.captured_at_device,
+      r.synced_at, r.source, r.parse_status, r.parse_confidence, r.raw_text, r.audio_duration_seconds
+    from jsonb_to_recordset(p_rows) as r(
+      client_expense_id uuid,
+      amount numeric,
+      currency text,
+      category text,
+      category_id uuid,
+      description text,
+      merchant text,
+      trip_id uuid,
+      trip_name text,
+      payment_method_id uuid,
+      payment_method_name text,
+      expense_date date,
+      captured_at_device timestamptz,
+      synced_at timestamptz,
+      source text,
+      parse_status text,
+      parse_confidence numeric,
+      raw_text text,
+      audio_duration_seconds integer
+    )
+    on conflict (user_id, client_expense_id) do update
+    set
+      amount = excluded.amount,
+      currency = excluded.currency,
+      category = excluded.category,
+      category_id = excluded.category_id,
+      description = excluded.description,
+      merchant = excluded.merchant,
+      trip_id = excluded.trip_id,
+      trip_name = excluded.trip_name,
+      payment_method_id = excluded.payment_method_id,
+      payment_method_name = excluded.payment_method_name,
+      expense_date = excluded.expense_date,
+      captured_at_device = excluded.captured_at_device,
+      synced_at = excluded.synced_at,
+      source = excluded.source,
+      parse_status = excluded.parse_status,
+      parse_confidence = excluded.parse_confidence,
+      raw_text = excluded.raw_text,
+      audio_duration_seconds = excluded.audio_duration_seconds
+    -- A row first inserted by a concurrent replay of the same capture is not locked above.
+    where not public.is_protected_expense(
+      public.expenses.parse_status, public.expenses.updated_at, public.expenses.synced_at
+    )
+    returning
+      id, client_expense_id, amount, currency, category, category_id, description, merchant, expense_date, source,
+      parse_status, trip_id, trip_name, payment_method_id, payment_method_name
+  )
+  select coalesce(jsonb_agg(to_jsonb(written)), '[]'::jsonb) into v_saved
+  from written;
+
+  return jsonb_build_object('saved', v_saved, 'skipped', '[]'::jsonb);
+end;
+$$;
+
+-- parse-expense calls it with the service role; clients write their expenses through RLS.
+revoke execute on function public.save_parsed_expenses(uuid, jsonb) from public, anon, authenticated;
@@ -0,0 +1,179 @@
+-- Receipt photos: a third capture source. The app uploads the image to receipt-photos, parse-expense reads it with a
+-- vision model, and the extracted line items are kept on the expense.
+
+alter table public.expenses
+  drop constraint if exists expenses_source_check;
+
+alter table public.expenses
+  add constraint expenses_source_check
+  check (source in ('voice', 'text', 'photo'));
+
+alter table public.expenses
+  add column if not exists line_items jsonb
+  check (line_items is null or jsonb_typeof(line_items) = 'array');
+
+-- Same as before, now also writing and returning line_items (parse-expense's SAVED_EXPENSE_COLUMNS).
+create or replace function public.save_parsed_expenses(p_user_id uuid, p_rows jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_client_ids uuid[];
+  v_skipped uuid[];
+  v_saved jsonb;
+begin
+  select array_agg((r ->> 'client_expense_id')::uuid) into v_client_ids
+  from jsonb_array_elements(p_rows) r;
+
+  -- Held until commit, so an edit cannot land between this check and the write.
+  perform 1
+  from public.expenses e
+  where e.user_id = p_user_id
+    and e.client_expense_id = any(v_client_ids)
+  for update;
+
+  select coalesce(array_agg(e.client_expense_id), '{}') into v_skipped
+  from public.expenses e
+  where e.user_id = p_user_id
+    and e.client_expense_id = any(v_client_ids)
+    and public.is_protected_expense(e.parse_status, e.updated_at, e.synced_at);
+
+  if cardinality(v_skipped) > 0 then
+    return jsonb_build_object('saved', '[]'::jsonb, 'skipped', to_jsonb(v_skipped));
+  end if;
+
+  with written as (
+    insert into public.expenses (
+      user_id, client_expense_id, amount, currency, category, category_id, description, merchant,
+      trip_id, trip_name, payment_method_id, payment_method_name, expense_date, captured_at_device, synced_at,
+      source, parse_status, parse_confidence, raw_text, audio_duration_seconds, line_items
+    )
+    select
+      p_user_id, r.client_expense_id, r.amount, r.currency, r.category, r.category_id, r.description, r.merchant,
+      r.trip_id, r.trip_name, r.payment_method_id, r.payment_method_name, r.expense_date, r.captured_at_device,
+      r.synced_at, r.source, r.parse_status, r.parse_confidence, r.raw_text, r.audio_duration_seconds, r.line_items
+    from jsonb_to_recordset(p_rows) as r(
+      client_expense_id uuid,
+      amount numeric,
+      currency text,
+      category text,
+      category_id uuid,
+      description text,
+      merchant text,
+      trip_id uuid,
+      trip_name text,
+      payment_method_id uuid,
+      payment_method_name text,
+      expense_date date,
+      captured_at_device timestamptz,
+      synced_at timestamptz,
+      source text,
+      parse_status text,
+      parse_confidence numeric,
+      raw_text text,
+      audio_duration_seconds integer,
+      line_items jsonb
+    )
+    on conflict (user_id, client_expense_id) do update
+    set
+      amount = excluded.amount,
+      currency = excluded.currency,
+      category = excluded.category,
+      category_id = excluded.category_id,
+      description = excluded.description,
+      merchant = excluded.merchant,
+      trip_id = excluded.trip_id,
+      trip_name = excluded.trip_name,
+      payment_method_id = excluded.payment_method_id,
+      payment_method_name = excluded.payment_method_name,
+      expense_date = excluded.expense_date,
+      captured_at_device = excluded.captured_at_device,
+      synced_at = excluded.synced_at,
+      source = excluded.source,
+      parse_status = excluded.parse_status,
+      parse_confidence = excluded.parse_confidence,
+      raw_text = excluded.raw_text,
+      audio_duration_seconds = excluded.audio_duration_seconds,
+      line_items = excluded.line_items
+    -- A row first inserted by a concurrent replay of the same capture is not locked above.
+    where not public.is_protected_expense(
+      public.expenses.parse_status, public.expenses.updated_at, public.expenses.synced_at
+    )
+    returning
+      id, client_expense_id, amount, currency, category, category_id, description, merchant, expense_date, source,
+      parse_status, trip_id, trip_name, payment_method_id, payment_method_name, line_items
+  )
+  select coalesce(jsonb_agg(to_jsonb(written)), '[]'::jsonb) into v_saved
+  from written;
+
+  return jsonb_build_object('saved', v_saved, 'skipped', '[]'::jsonb);
+end;
+$$;
+
+-- Vision calls are billed like transcription: once per capture, even when the receipt cannot be read.
+alter table public.ai_usage_events
+  drop constraint if exists ai_usage_events_event_type_check;
+
+alter table public.ai_usage_events
+  add constraint ai_usage_events_event_type_check
+  check (event_type in ('voice_parse', 'text_parse', 'voice_transcription', 'photo_parse'));
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'receipt-photos',
+  'receipt-photos',
+  false,
+  10485760,
+  array[
+    'image/jpeg',
+    'image/png',
+    'image/heic',
+    'image/heif',
+    'image/webp'
+  ]
+)
+on conflict (id) do update
+set
+  public = excluded.public,
+  file_size_limit = excluded.file_size_limit,
+  allowed_mime_types = excluded.allowed_mime_types;
+
+drop policy if exists "receipt_photos_select_own" on storage.objects;
+create policy "receipt_photos_select_own" on storage.objects
+for select to authenticated
+using (
+  bucket_id = 'receipt-photos'
+  and owner = auth.uid()
+);
+
+drop policy if exists "receipt_photos_insert_own" on storage.objects;
+create policy "receipt_photos_insert_own" on storage.objects
+for insert to authenticated
+with check (
+  bucket_id = 'receipt-photos'
+  and owner = auth.uid()
+  and split_part(name, '/', 1) = auth.uid()::text
+);
+
+drop policy if exists "receipt_photos_update_own" on storage.objects;
+create policy "receipt_photos_update_own" on storage.objects
+for update to authenticated
+using (
+  bucket_id = 'receipt-photos'
+  and owner = auth.uid()
+  and split_part(name, '/', 1) = auth.uid()::text
+)
+with check (
+  bucket_id = 'receipt-photos'
+  and owner = auth.uid()
+  and split_part(name, '/', 1) = auth.uid()::text
+);
+
+drop policy if exists "receipt_photos_delete_own" on storage.objects;
+create policy "receipt_photos_delete_own" on storage.objects
+for delete to authenticated
+using (
+  bucket_id = 'receipt-photos'
+  and owner = auth.uid()
+  and split_part(name, '/', 1) = auth.uid()::text
+);
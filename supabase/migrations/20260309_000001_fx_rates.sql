@@ -0,0 +1,387 @@
+-- Exchange rates and converted amounts. Every expense stores its amount in the owner's profile default_currency
+-- (home_*) and in its trip's base_currency (trip_*), so totals across currencies add up. A trigger fills them on
+-- every save, and again whenever fx_rates rows are written.
+
+create table if not exists public.fx_rates (
+  id uuid primary key default gen_random_uuid(),
+  -- Null for rates shared by every user (loaded by operators); user rows come from import-fx-rates.
+  user_id uuid references auth.users(id) on delete cascade,
+  rate_date date not null,
+  base_currency text not null check (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency text not null check (quote_currency ~ '^[A-Z]{3}$'),
+  -- Units of quote_currency per one base_currency.
+  rate numeric(20,10) not null check (rate > 0),
+  source text,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  check (base_currency <> quote_currency),
+  unique nulls not distinct (user_id, rate_date, base_currency, quote_currency)
+);
+
+create index if not exists fx_rates_pair_date_idx on public.fx_rates (base_currency, quote_currency, rate_date desc);
+create index if not exists fx_rates_quote_date_idx on public.fx_rates (quote_currency, rate_date desc);
+
+drop trigger if exists set_fx_rates_updated_at on public.fx_rates;
+create trigger set_fx_rates_updated_at
+before update on public.fx_rates
+for each row execute function public.set_updated_at();
+
+alter table public.fx_rates enable row level security;
+
+drop policy if exists "fx_rates_select_own_or_shared" on public.fx_rates;
+create policy "fx_rates_select_own_or_shared" on public.fx_rates
+for select using (user_id = auth.uid() or user_id is null);
+
+drop policy if exists "fx_rates_manage_own" on public.fx_rates;
+create policy "fx_rates_manage_own" on public.fx_rates
+for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+alter table public.expenses
+  -- What the card actually billed, when it settles in another currency than the purchase.
+  add column if not exists charged_amount numeric(12,2) check (charged_amount is null or charged_amount > 0),
+  add column if not exists charged_currency text,
+  add column if not exists home_amount numeric(12,2),
+  add column if not exists home_currency text,
+  add column if not exists trip_amount numeric(12,2),
+  add column if not exists trip_currency text;
+
+alter table public.expenses
+  drop constraint if exists expenses_charged_pair_check;
+
+alter table public.expenses
+  add constraint expenses_charged_pair_check
+  check ((charged_amount is null) = (charged_currency is null));
+
+-- Same as before, now also writing the charge and returning the converted amounts.
+create or replace function public.save_parsed_expenses(p_user_id uuid, p_rows jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_client_ids uuid[];
+  v_skipped uuid[];
+  v_saved jsonb;
+begin
+  select array_agg((r ->> 'client_expense_id')::uuid) into v_client_ids
+  from jsonb_array_elements(p_rows) r;
+
+  -- Held until commit, so an edit cannot land between this check and the write.
+  perform 1
+  from public.expenses e
+  where e.user_id = p_user_id
+    and e.client_expense_id = any(v_client_ids)
+  for update;
+
+  select coalesce(array_agg(e.client_expense_id), '{}') into v_skipped
+  from public.expenses e
+  where e.user_id = p_user_id
+    and e.client_expense_id = any(v_client_ids)
+    and public.is_protected_expense(e.parse_status, e.updated_at, e.synced_at);
+
+  if cardinality(v_skipped) > 0 then
+    return jsonb_build_object('saved', '[]'::jsonb, 'skipped', to_jsonb(v_skipped));
+  end if;
+
+  with written as (
+    insert into public.expenses (
+      user_id, client_expense_id, amount, currency, category, category_id, description, merchant,
+      trip_id, trip_name, payment_method_id, payment_method_name, expense_date, captured_at_device, synced_at,
+      source, parse_status, parse_confidence, raw_text, audio_duration_seconds, line_items,
+      charged_amount, charged_currency
+    )
+    select
+      p_user_id, r.client_expense_id, r.amount, r.currency, r.category, r.category_id, r.description, r.merchant,
+      r.trip_id, r.trip_name, r.payment_method_id, r.payment_method_name, r.expense_date, r.captured_at_device,
+      r.synced_at, r.source, r.parse_status, r.parse_confidence, r.raw_text, r.audio_duration_seconds, r.line_items,
+      r.charged_amount, r.charged_currency
+    from jsonb_to_recordset(p_rows) as r(
+      client_expense_id uuid,
+      amount numeric,
+      currency text,
+      category text,
+      category_id uuid,
+      description text,
+      merchant text,
+      trip_id uuid,
+      trip_name text,
+      payment_method_id uuid,
+      payment_method_name text,
+      expense_date date,
+      captured_at_device timestamptz,
+      synced_at timestamptz,
+      source text,
+      parse_status text,
+      parse_confidence numeric,
+      raw_text text,
+      audio_duration_seconds integer,
+      line_items jsonb,
+      charged_amount numeric,
+      charged_currency text
+    )
+    on conflict (user_id, client_expense_id) do update
+    set
+      amount = excluded.amount,
+      currency = excluded.currency,
+      category = excluded.category,
+      category_id = excluded.category_id,
+      description = excluded.description,
+      merchant = excluded.merchant,
+      trip_id = excluded.trip_id,
+      trip_name = excluded.trip_name,
+      payment_method_id = excluded.payment_method_id,
+      payment_method_name = excluded.payment_method_name,
+      expense_date = excluded.expense_date,
+      captured_at_device = excluded.captured_at_device,
+      synced_at = excluded.synced_at,
+      source = excluded.source,
+      parse_status = excluded.parse_status,
+      parse_confidence = excluded.parse_confidence,
+      raw_text = excluded.raw_text,
+      audio_duration_seconds = excluded.audio_duration_seconds,
+      line_items = excluded.line_items,
+      charged_amount = excluded.charged_amount,
+      charged_currency = excluded.charged_currency
+    -- A row first inserted by a concurrent replay of the same capture is not locked above.
+    where not public.is_protected_expense(
+      public.expenses.parse_status, public.expenses.updated_at, public.expenses.synced_at
+    )
+    returning
+      id, client_expense_id, amount, currency, category, category_id, description, merchant, expense_date, source,
+      parse_status, trip_id, trip_name, payment_method_id, payment_method_name, line_items, charged_amount,
+      charged_currency, home_amount, home_currency, trip_amount, trip_currency
+  )
+  select coalesce(jsonb_agg(to_jsonb(written)), '[]'::jsonb) into v_saved
+  from written;
+
+  return jsonb_build_object('saved', v_saved, 'skipped', '[]'::jsonb);
+end;
+$$;
+
+-- Units of p_to per one p_from on p_on, from the newest rate at most 7 days old (weekends and holidays have none).
+-- Tries the direct quote, its inverse, then a cross rate through a common base. The user's own imports win over
+-- shared rates of the same day. Null when no rate is known.
+create or replace function public.fx_rate(p_user_id uuid, p_from text, p_to text, p_on date)
+returns numeric
+language plpgsql
+stable
+as $$
+declare
+  v_from text := upper(p_from);
+  v_to text := upper(p_to);
+  v_rate numeric;
+begin
+  if v_from is null or v_to is null or p_on is null then
+    return null;
+  end if;
+  if v_from = v_to then
+    return 1;
+  end if;
+
+  select case when r.base_currency = v_from then r.rate else 1 / r.rate end
+    into v_rate
+  from public.fx_rates r
+  where (r.user_id = p_user_id or r.user_id is null)
+    and r.rate_date between p_on - 7 and p_on
+    and (
+      (r.base_currency = v_from and r.quote_currency = v_to)
+      or (r.base_currency = v_to and r.quote_currency = v_from)
+    )
+  order by r.rate_date desc, r.user_id nulls last
+  limit 1;
+
+  if v_rate is not null then
+    return v_rate;
+  end if;
+
+  -- ECB files quote everything against EUR, most others against USD.
+  select q_to.rate / q_from.rate
+    into v_rate
+  from public.fx_rates q_from
+  join public.fx_rates q_to
+    on q_to.base_currency = q_from.base_currency
+   and q_to.rate_date = q_from.rate_date
+  where (q_from.user_id = p_user_id or q_from.user_id is null)
+    and (q_to.user_id = p_user_id or q_to.user_id is null)
+    and q_from.quote_currency = v_from
+    and q_to.quote_currency = v_to
+    and q_from.rate_date between p_on - 7 and p_on
+  order by q_from.rate_date desc, q_from.user_id nulls last, q_to.user_id nulls last
+  limit 1;
+
+  return v_rate;
+end;
+$$;
+
+-- A charge already billed in the target currency is the real amount; otherwise convert the purchase amount.
+create or replace function public.convert_expense_amount(
+  p_user_id uuid,
+  p_amount numeric,
+  p_currency text,
+  p_charged_amount numeric,
+  p_charged_currency text,
+  p_target text,
+  p_on date
+)
+returns numeric
+language sql
+stable
+as $$
+  select case
+    when p_target is null then null
+    when upper(p_charged_currency) = upper(p_target) then p_charged_amount
+    when upper(p_currency) = upper(p_target) then p_amount
+    else round(p_amount * public.fx_rate(p_user_id, p_currency, p_target, p_on), 2)
+  end;
+$$;
+
+create or replace function public.set_expense_conversions()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_home_currency text;
+  v_trip_currency text;
+begin
+  select upper(p.default_currency) into v_home_currency from public.profiles p where p.id = new.user_id;
+  if new.trip_id is not null then
+    select upper(t.base_currency) into v_trip_currency from public.trips t where t.id = new.trip_id;
+  end if;
+
+  new.home_currency := v_home_currency;
+  new.home_amount := public.convert_expense_amount(
+    new.user_id, new.amount, new.currency, new.charged_amount, new.charged_currency, v_home_currency, new.expense_date
+  );
+  new.trip_currency := v_trip_currency;
+  new.trip_amount := public.convert_expense_amount(
+    new.user_id, new.amount, new.currency, new.charged_amount, new.charged_currency, v_trip_currency, new.expense_date
+  );
+  return new;
+end;
+$$;
+
+-- Fires before set_expenses_updated_at (triggers run in name order).
+drop trigger if exists set_expense_conversions on public.expenses;
+create trigger set_expense_conversions
+before insert or update on public.expenses
+for each row execute function public.set_expense_conversions();
+
+-- Conversion refreshes are bookkeeping, not edits. They keep updated_at, which parse-expense compares with
+-- synced_at to protect user edits from replays.
+create or replace function public.set_expense_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if to_jsonb(new) - array['home_amount', 'home_currency', 'trip_amount', 'trip_currency', 'updated_at']
+    = to_jsonb(old) - array['home_amount', 'home_currency', 'trip_amount', 'trip_currency', 'updated_at']
+  then
+    new.updated_at := old.updated_at;
+  else
+    new.updated_at := timezone('utc', now());
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_expenses_updated_at on public.expenses;
+create trigger set_expenses_updated_at
+before update on public.expenses
+for each row execute function public.set_expense_updated_at();
+
+-- Recomputes converted amounts for one user's expenses dated in [p_from, p_to]. Returns the rows touched.
+create or replace function public.refresh_expense_conversions(p_user_id uuid, p_from date, p_to date)
+returns integer
+language plpgsql
+as $$
+declare
+  v_count integer;
+begin
+  update public.expenses e
+  set home_amount = e.home_amount
+  where e.user_id = p_user_id
+    and e.expense_date between p_from and p_to;
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+create or replace function public.refresh_profile_expense_conversions()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.refresh_expense_conversions(new.id, '-infinity'::date, 'infinity'::date);
+  return null;
+end;
+$$;
+
+drop trigger if exists refresh_profile_expense_conversions on public.profiles;
+create trigger refresh_profile_expense_conversions
+after update of default_currency on public.profiles
+for each row
+when (old.default_currency is distinct from new.default_currency)
+execute function public.refresh_profile_expense_conversions();
+
+create or replace function public.refresh_trip_expense_conversions()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.expenses e
+  set trip_amount = e.trip_amount
+  where e.trip_id = new.id;
+  return null;
+end;
+$$;
+
+drop trigger if exists refresh_trip_expense_conversions on public.trips;
+create trigger refresh_trip_expense_conversions
+after update of base_currency on public.trips
+for each row
+when (old.base_currency is distinct from new.base_currency)
+execute function public.refresh_trip_expense_conversions();
+
+-- A rate is used for expenses up to 7 days after its date (see fx_rate). Shared rates (null user_id) can change any
+-- user's amounts; a user's own rates only theirs. Statement-level, so an import chunk refreshes each range once.
+create or replace function public.refresh_fx_rate_expense_conversions()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.expenses e
+  set home_amount = e.home_amount
+  from (
+    select r.user_id, min(r.rate_date) as first_date, max(r.rate_date) + 7 as last_date
+    from changed_rates r
+    group by r.user_id
+  ) c
+  where (c.user_id is null or e.user_id = c.user_id)
+    and e.expense_date between c.first_date and c.last_date;
+  return null;
+end;
+$$;
+
+drop trigger if exists refresh_fx_rate_expense_conversions_insert on public.fx_rates;
+create trigger refresh_fx_rate_expense_conversions_insert
+after insert on public.fx_rates
+referencing new table as changed_rates
+for each statement
+execute function public.refresh_fx_rate_expense_conversions();
+
+drop trigger if exists refresh_fx_rate_expense_conversions_update on public.fx_rates;
+create trigger refresh_fx_rate_expense_conversions_update
+after update on public.fx_rates
+referencing new table as changed_rates
+for each statement
+execute function public.refresh_fx_rate_expense_conversions();
+
+drop trigger if exists refresh_fx_rate_expense_conversions_delete on public.fx_rates;
+create trigger refresh_fx_rate_expense_conversions_delete
+after delete on public.fx_rates
+referencing old table as changed_rates
+for each statement
+execute function public.refresh_fx_rate_expense_conversions();
+
+-- Fill converted amounts for expenses saved before this migration.
+update public.expenses e
+set home_amount = e.home_amount;
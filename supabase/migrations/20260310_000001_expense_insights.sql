@@ -0,0 +1,155 @@
+-- Insights aggregates for the expense-insights function, so every client shows the same numbers.
+-- Mirrors the iOS Insights tab: trip / payment method / currency filters, an optional month, and a yearly trend.
+-- Every query is anchored on user_id with half-open expense_date ranges, so it is served by
+-- expenses_user_expense_date_idx (or the user_id + trip_id / payment_method_id indexes when those filters are set).
+
+create or replace function public.expense_insights(
+  p_user_id uuid,
+  p_currency text,
+  p_trip_id uuid default null,
+  p_payment_method_id uuid default null,
+  -- First day of the selected month; null for all months.
+  p_month date default null,
+  p_trend_year integer default null
+)
+returns jsonb
+language sql
+stable
+as $$
+  with filtered as (
+    select e.expense_date, e.category, e.amount, e.currency, e.payment_method_id, e.payment_method_name
+    from public.expenses e
+    where e.user_id = p_user_id
+      and (p_trip_id is null or e.trip_id = p_trip_id)
+      and (p_payment_method_id is null or e.payment_method_id = p_payment_method_id)
+  ),
+  in_currency as (
+    select *
+    from filtered f
+    where upper(btrim(f.currency)) = upper(p_currency)
+  ),
+  scoped as (
+    select *
+    from in_currency c
+    where p_month is null
+      or (c.expense_date >= p_month and c.expense_date < (p_month + interval '1 month')::date)
+  ),
+  totals as (
+    select
+      coalesce(sum(s.amount), 0) as total,
+      count(*) as entries,
+      min(s.expense_date) as first_date,
+      max(s.expense_date) as last_date
+    from scoped s
+  ),
+  category_totals as (
+    select s.category, sum(s.amount) as amount, count(*) as entries
+    from scoped s
+    group by s.category
+  ),
+  trend as (
+    select
+      extract(month from c.expense_date)::integer as month,
+      c.category,
+      sum(c.amount) as amount
+    from in_currency c
+    where p_trend_year is not null
+      and c.expense_date >= make_date(p_trend_year, 1, 1)
+      and c.expense_date < make_date(p_trend_year + 1, 1, 1)
+    group by 1, 2
+  ),
+  -- Legend order for the trend: categories by yearly total, largest first.
+  trend_categories as (
+    select t.category, sum(t.amount) as amount
+    from trend t
+    group by t.category
+  ),
+  payment_totals as (
+    select s.payment_method_id, max(s.payment_method_name) as payment_method_name, sum(s.amount) as amount, count(*) as entries
+    from scoped s
+    group by s.payment_method_id
+  )
+  select jsonb_build_object(
+    'kpis', (
+      select jsonb_build_object(
+        'total', t.total,
+        'entries', t.entries,
+        -- Per calendar day of the selected month, or of the span between the first and last expense.
+        'daily_average', round(
+          t.total / greatest(
+            1,
+            case
+              when p_month is not null then ((p_month + interval '1 month')::date - p_month)
+              when t.entries = 0 then 1
+              else t.last_date - t.first_date + 1
+            end
+          ),
+          2
+        ),
+        'top_category', (
+          select ct.category from category_totals ct order by ct.amount desc, lower(ct.category) limit 1
+        )
+      )
+      from totals t
+    ),
+    'category_mix', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'category', ct.category,
+          'amount', ct.amount,
+          'entries', ct.entries,
+          'share', round(ct.amount / nullif((select total from totals), 0), 4)
+        )
+        order by ct.amount desc, lower(ct.category)
+      )
+      from category_totals ct
+    ), '[]'::jsonb),
+    'monthly_trend', jsonb_build_object(
+      'year', p_trend_year,
+      'categories', coalesce((
+        select jsonb_agg(tc.category order by tc.amount desc, lower(tc.category))
+        from trend_categories tc
+      ), '[]'::jsonb),
+      'months', (
+        select jsonb_agg(
+          jsonb_build_object(
+            'month', m.month,
+            'total', coalesce((select sum(t.amount) from trend t where t.month = m.month), 0),
+            'categories', coalesce((
+              select jsonb_agg(
+                jsonb_build_object('category', t.category, 'amount', t.amount)
+                order by tc.amount desc, lower(t.category)
+              )
+              from trend t
+              join trend_categories tc on tc.category = t.category
+              where t.month = m.month
+            ), '[]'::jsonb)
+          )
+          order by m.month
+        )
+        from generate_series(1, 12) as m(month)
+      )
+    ),
+    'payment_methods', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'payment_method_id', pt.payment_method_id,
+          'payment_method_name', pt.payment_method_name,
+          'amount', pt.amount,
+          'entries', pt.entries
+        )
+        order by pt.amount desc, pt.payment_method_name nulls last
+      )
+      from payment_totals pt
+    ), '[]'::jsonb),
+    'available_currencies', coalesce((
+      select jsonb_agg(distinct upper(btrim(f.currency)))
+      from filtered f
+      where btrim(f.currency) <> ''
+    ), '[]'::jsonb),
+    'available_months', coalesce((
+      select jsonb_agg(months.month order by months.month desc)
+      from (select distinct to_char(c.expense_date, 'YYYY-MM') as month from in_currency c) months
+    ), '[]'::jsonb)
+  );
+$$;
@@ -0,0 +1,56 @@
+-- Bank / card statement reconciliation. reconcile-statement stores each uploaded statement and its charge lines,
+-- matched against the user's expenses; lines missing from Speakance can then be created as expenses.
+
+alter table public.expenses
+  drop constraint if exists expenses_source_check;
+
+alter table public.expenses
+  add constraint expenses_source_check
+  check (source in ('voice', 'text', 'photo', 'statement'));
+
+create table if not exists public.statement_imports (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  payment_method_id uuid not null references public.payment_methods(id) on delete cascade,
+  format text not null check (format in ('csv', 'ofx')),
+  filename text,
+  currency text not null,
+  period_start date not null,
+  period_end date not null,
+  date_window_days integer not null,
+  created_at timestamptz not null default timezone('utc', now()),
+  check (period_start <= period_end)
+);
+
+create table if not exists public.statement_lines (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  statement_import_id uuid not null references public.statement_imports(id) on delete cascade,
+  -- 1-based CSV line or OFX transaction number in the uploaded file.
+  line_number integer not null,
+  posted_date date not null,
+  amount numeric(12,2) not null check (amount > 0),
+  currency text not null,
+  description text not null,
+  -- OFX FITID or a CSV reference column, when the bank provides one.
+  external_id text,
+  status text not null check (status in ('matched', 'missing', 'created')),
+  expense_id uuid references public.expenses(id) on delete set null,
+  match_score numeric(4,3),
+  created_at timestamptz not null default timezone('utc', now()),
+  unique (statement_import_id, line_number)
+);
+
+create index if not exists statement_imports_user_created_at_idx on public.statement_imports (user_id, created_at desc);
+create index if not exists statement_lines_import_status_idx on public.statement_lines (statement_import_id, status);
+
+alter table public.statement_imports enable row level security;
+alter table public.statement_lines enable row level security;
+
+drop policy if exists "statement_imports_select_own" on public.statement_imports;
+create policy "statement_imports_select_own" on public.statement_imports
+for select using (user_id = auth.uid());
+
+drop policy if exists "statement_lines_select_own" on public.statement_lines;
+create policy "statement_lines_select_own" on public.statement_lines
+for select using (user_id = auth.uid());
@@ -0,0 +1,18 @@
+-- Personal data exports. export-account writes one zip per user under `${user_id}/` and hands out a short-lived
+-- signed URL; only the service role reads or writes this bucket, so it has no policies.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'account-exports',
+  'account-exports',
+  false,
+  null,
+  array[
+    'application/zip'
+  ]
+)
+on conflict (id) do update
+set
+  public = excluded.public,
+  file_size_limit = excluded.file_size_limit,
+  allowed_mime_types = excluded.allowed_mime_types;
@@ -0,0 +1,37 @@
+-- Grace-period account deletion. delete-account records a pending deletion instead of erasing the user;
+-- restore-account cancels it, and purge-deleted-accounts erases storage objects, rows and the auth user once the
+-- grace window ends. Rows here outlive the user on purpose: they are the audit trail.
+-- The purge claims a row by moving it from 'pending' to 'purging' in one conditional update, and restore only
+-- accepts 'pending', so a restore racing the purge either wins outright or finds the account already going.
+
+create table if not exists public.account_deletions (
+  id uuid primary key default gen_random_uuid(),
+  -- No foreign key: the auth user is gone once the deletion completes.
+  user_id uuid not null,
+  requested_by uuid not null,
+  requested_at timestamptz not null default timezone('utc', now()),
+  purge_after timestamptz not null,
+  status text not null default 'pending' check (status in ('pending', 'purging', 'restored', 'purged')),
+  restored_at timestamptz,
+  purged_at timestamptz,
+  -- When the current purge claimed the row. A claim left behind by a run that died is taken over after an hour.
+  purge_started_at timestamptz,
+  storage_objects_removed integer,
+  purge_attempts integer not null default 0,
+  last_error text,
+  check ((status = 'restored') = (restored_at is not null)),
+  check ((status = 'purged') = (purged_at is not null))
+);
+
+create unique index if not exists account_deletions_user_pending_idx
+  on public.account_deletions (user_id)
+  where status in ('pending', 'purging');
+create index if not exists account_deletions_pending_purge_after_idx
+  on public.account_deletions (purge_after)
+  where status = 'pending';
+
+alter table public.account_deletions enable row level security;
+
+drop policy if exists "account_deletions_select_own" on public.account_deletions;
+create policy "account_deletions_select_own" on public.account_deletions
+for select using (user_id = auth.uid());
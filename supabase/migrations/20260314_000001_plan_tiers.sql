@@ -0,0 +1,260 @@
+-- Plan tiers with daily and per-minute limits for voice, text and receipt photo parses.
+-- parse-expense used to count today's voice parses by scanning ai_usage_events on every request; usage_counters now
+-- keeps running totals per day (in the user's quota timezone) and per minute. A capture reserves its slot with one
+-- conditional upsert before any provider is called, so concurrent requests cannot all pass the same check, and hands
+-- it back when no usage event ends up recorded.
+
+create table if not exists public.plans (
+  id text primary key,
+  name text not null,
+  daily_voice_limit integer not null check (daily_voice_limit > 0),
+  per_minute_voice_limit integer not null check (per_minute_voice_limit > 0),
+  daily_text_limit integer not null check (daily_text_limit > 0),
+  per_minute_text_limit integer not null check (per_minute_text_limit > 0),
+  daily_photo_limit integer not null check (daily_photo_limit > 0),
+  per_minute_photo_limit integer not null check (per_minute_photo_limit > 0)
+);
+
+insert into public.plans (
+  id, name, daily_voice_limit, per_minute_voice_limit, daily_text_limit, per_minute_text_limit,
+  daily_photo_limit, per_minute_photo_limit
+)
+values
+  ('free', 'Free', 50, 5, 200, 20, 10, 2),
+  ('pro', 'Pro', 500, 20, 2000, 60, 100, 10)
+on conflict (id) do nothing;
+
+alter table public.plans enable row level security;
+
+drop policy if exists "plans_select_all" on public.plans;
+create policy "plans_select_all" on public.plans
+for select using (true);
+
+alter table public.profiles
+  add column if not exists plan_id text not null default 'free' references public.plans(id);
+
+-- daily_voice_limit becomes a per-user override of the plan's limit; null follows the plan.
+-- Rows still on the old default simply follow the free plan, which has the same limit.
+alter table public.profiles
+  alter column daily_voice_limit drop not null,
+  alter column daily_voice_limit drop default;
+
+update public.profiles
+set daily_voice_limit = null
+where daily_voice_limit = 50;
+
+-- profiles_insert_own / profiles_update_own let users write their own row, but the plan and the voice override are
+-- set by the service: clients keep every other column and get a permission error for these two.
+create or replace function public.guard_profile_plan_columns()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+  if tg_op = 'INSERT' then
+    if new.plan_id is distinct from 'free' or new.daily_voice_limit is not null then
+      raise exception 'plan_id and daily_voice_limit cannot be set by clients' using errcode = 'insufficient_privilege';
+    end if;
+  elsif new.plan_id is distinct from old.plan_id or new.daily_voice_limit is distinct from old.daily_voice_limit then
+    raise exception 'plan_id and daily_voice_limit cannot be changed by clients' using errcode = 'insufficient_privilege';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists guard_profile_plan_columns on public.profiles;
+create trigger guard_profile_plan_columns
+before insert or update on public.profiles
+for each row
+execute function public.guard_profile_plan_columns();
+
+create table if not exists public.usage_counters (
+  user_id uuid not null references auth.users(id) on delete cascade,
+  kind text not null check (kind in ('voice', 'text', 'photo')),
+  period text not null check (period in ('day', 'minute')),
+  -- Local midnight in the quota timezone for 'day' rows; the UTC minute for 'minute' rows.
+  window_start timestamptz not null,
+  count integer not null default 0 check (count >= 0),
+  primary key (user_id, kind, period, window_start)
+);
+
+alter table public.usage_counters enable row level security;
+
+drop policy if exists "usage_counters_select_own" on public.usage_counters;
+create policy "usage_counters_select_own" on public.usage_counters
+for select using (user_id = auth.uid());
+
+-- Start of the quota day containing p_at. Zone names Postgres does not know fall back to UTC, like parse-expense.
+create or replace function public.quota_day_start(p_at timestamptz, p_time_zone text)
+returns timestamptz
+language plpgsql
+stable
+as $$
+begin
+  return date_trunc('day', p_at at time zone p_time_zone) at time zone p_time_zone;
+exception when invalid_parameter_value then
+  return date_trunc('day', p_at at time zone 'UTC') at time zone 'UTC';
+end;
+$$;
+
+-- Inserts one ai_usage_events row. Returns false when the event was already recorded, so a replay can hand back
+-- the quota slot it reserved.
+create or replace function public.record_ai_usage_event(
+  p_user_id uuid,
+  p_client_expense_id uuid,
+  p_event_type text,
+  p_provider text,
+  p_model text,
+  p_input_tokens integer,
+  p_output_tokens integer,
+  p_audio_seconds integer,
+  p_estimated_cost_usd numeric
+)
+returns boolean
+language plpgsql
+as $$
+declare
+  v_event_id uuid;
+begin
+  insert into public.ai_usage_events (
+    user_id, client_expense_id, event_type, provider, model,
+    input_tokens, output_tokens, audio_seconds, estimated_cost_usd
+  )
+  values (
+    p_user_id, p_client_expense_id, p_event_type, p_provider, p_model,
+    p_input_tokens, p_output_tokens, p_audio_seconds, p_estimated_cost_usd
+  )
+  on conflict (user_id, client_expense_id, event_type) where client_expense_id is not null do nothing
+  returning id into v_event_id;
+
+  return v_event_id is not null;
+end;
+$$;
+
+-- Takes one slot of p_kind for the current quota day and minute, or none when either limit is already reached.
+-- The conditional upsert locks the counter row, so concurrent callers are serialized and at most p_daily_limit
+-- (p_per_minute_limit) of them get through. Returns the counts after the attempt, whether a slot was reserved,
+-- which limit was hit, and the windows release_parse_quota needs to hand the slot back.
+create or replace function public.reserve_parse_quota(
+  p_user_id uuid,
+  p_kind text,
+  p_time_zone text,
+  p_daily_limit integer,
+  p_per_minute_limit integer
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_day_start timestamptz := public.quota_day_start(now(), p_time_zone);
+  v_minute_start timestamptz := date_trunc('minute', now());
+  v_count integer;
+  v_exceeded text;
+begin
+  insert into public.usage_counters (user_id, kind, period, window_start, count)
+  values (p_user_id, p_kind, 'day', v_day_start, 1)
+  on conflict (user_id, kind, period, window_start) do update
+  set count = public.usage_counters.count + 1
+  where public.usage_counters.count < p_daily_limit
+  returning count into v_count;
+
+  if v_count is null then
+    v_exceeded := 'daily';
+  else
+    v_count := null;
+    insert into public.usage_counters (user_id, kind, period, window_start, count)
+    values (p_user_id, p_kind, 'minute', v_minute_start, 1)
+    on conflict (user_id, kind, period, window_start) do update
+    set count = public.usage_counters.count + 1
+    where public.usage_counters.count < p_per_minute_limit
+    returning count into v_count;
+
+    if v_count is null then
+      v_exceeded := 'minute';
+      update public.usage_counters
+      set count = count - 1
+      where user_id = p_user_id and kind = p_kind and period = 'day' and window_start = v_day_start;
+    end if;
+  end if;
+
+  -- Minute rows only matter for the current minute.
+  delete from public.usage_counters
+  where user_id = p_user_id
+    and period = 'minute'
+    and window_start < now() - interval '1 hour';
+
+  return public.parse_usage_counts(p_user_id, p_time_zone) || jsonb_build_object(
+    'reserved', v_exceeded is null,
+    'exceeded', v_exceeded,
+    'day_start', v_day_start,
+    'minute_start', v_minute_start
+  );
+end;
+$$;
+
+-- Hands back a slot from reserve_parse_quota, in the windows it was taken from.
+create or replace function public.release_parse_quota(
+  p_user_id uuid,
+  p_kind text,
+  p_day_start timestamptz,
+  p_minute_start timestamptz
+)
+returns void
+language sql
+as $$
+  update public.usage_counters
+  set count = count - 1
+  where user_id = p_user_id
+    and kind = p_kind
+    and count > 0
+    and (
+      (period = 'day' and window_start = p_day_start)
+      or (period = 'minute' and window_start = p_minute_start)
+    );
+$$;
+
+-- Current day and minute totals, for usage summaries.
+create or replace function public.parse_usage_counts(p_user_id uuid, p_time_zone text)
+returns jsonb
+language sql
+stable
+as $$
+  with windows as (
+    select public.quota_day_start(now(), p_time_zone) as day_start, date_trunc('minute', now()) as minute_start
+  )
+  select jsonb_build_object(
+    'voice_day', coalesce(sum(c.count) filter (where c.kind = 'voice' and c.period = 'day'), 0),
+    'voice_minute', coalesce(sum(c.count) filter (where c.kind = 'voice' and c.period = 'minute'), 0),
+    'text_day', coalesce(sum(c.count) filter (where c.kind = 'text' and c.period = 'day'), 0),
+    'text_minute', coalesce(sum(c.count) filter (where c.kind = 'text' and c.period = 'minute'), 0),
+    'photo_day', coalesce(sum(c.count) filter (where c.kind = 'photo' and c.period = 'day'), 0),
+    'photo_minute', coalesce(sum(c.count) filter (where c.kind = 'photo' and c.period = 'minute'), 0)
+  )
+  from windows w
+  left join public.usage_counters c
+    on c.user_id = p_user_id
+    and (
+      (c.period = 'day' and c.window_start = w.day_start)
+      or (c.period = 'minute' and c.window_start = w.minute_start)
+    );
+$$;
+
+-- Seed today's counters from existing events, so daily limits hold across the deploy.
+insert into public.usage_counters (user_id, kind, period, window_start, count)
+select
+  e.user_id,
+  case e.event_type when 'voice_parse' then 'voice' when 'text_parse' then 'text' else 'photo' end,
+  'day',
+  public.quota_day_start(e.created_at, coalesce(p.timezone, 'UTC')),
+  count(*)
+from public.ai_usage_events e
+left join public.profiles p on p.id = e.user_id
+where e.event_type in ('voice_parse', 'text_parse', 'photo_parse')
+  and e.created_at >= now() - interval '36 hours'
+  and public.quota_day_start(e.created_at, coalesce(p.timezone, 'UTC'))
+    = public.quota_day_start(now(), coalesce(p.timezone, 'UTC'))
+group by 1, 2, 4
+on conflict (user_id, kind, period, window_start) do update
+set count = excluded.count;
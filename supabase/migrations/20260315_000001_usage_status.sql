@@ -0,0 +1,74 @@
+-- Read-only usage snapshot for the usage-status function: today's and this minute's counters, when each resets, and
+-- per-day totals for recent days. Day boundaries are local midnights in the quota timezone, as in
+-- reserve_parse_quota, so the numbers match what parse-expense enforces.
+
+create or replace function public.usage_status(p_user_id uuid, p_time_zone text, p_days integer default 7)
+returns jsonb
+language plpgsql
+stable
+as $$
+declare
+  v_zone text := p_time_zone;
+  v_today date;
+  v_minute_start timestamptz := date_trunc('minute', now());
+begin
+  begin
+    v_today := (now() at time zone v_zone)::date;
+  exception when invalid_parameter_value then
+    v_zone := 'UTC';
+    v_today := (now() at time zone v_zone)::date;
+  end;
+
+  return (
+    with days as (
+      select
+        v_today - back as day,
+        -- Converting each local midnight separately keeps 23- and 25-hour DST days right.
+        (v_today - back)::timestamp at time zone v_zone as window_start
+      from generate_series(greatest(p_days, 1) - 1, 0, -1) back
+    ),
+    day_totals as (
+      select
+        days.day,
+        coalesce(sum(c.count) filter (where c.kind = 'voice'), 0) as voice_count,
+        coalesce(sum(c.count) filter (where c.kind = 'text'), 0) as text_count,
+        coalesce(sum(c.count) filter (where c.kind = 'photo'), 0) as photo_count
+      from days
+      left join public.usage_counters c
+        on c.user_id = p_user_id
+        and c.period = 'day'
+        and c.window_start = days.window_start
+      group by days.day
+    ),
+    minute_totals as (
+      select
+        coalesce(sum(c.count) filter (where c.kind = 'voice'), 0) as voice_count,
+        coalesce(sum(c.count) filter (where c.kind = 'text'), 0) as text_count,
+        coalesce(sum(c.count) filter (where c.kind = 'photo'), 0) as photo_count
+      from public.usage_counters c
+      where c.user_id = p_user_id
+        and c.period = 'minute'
+        and c.window_start = v_minute_start
+    )
+    select jsonb_build_object(
+      'time_zone', v_zone,
+      'day_start', v_today::timestamp at time zone v_zone,
+      'resets_at', (v_today + 1)::timestamp at time zone v_zone,
+      'minute_resets_at', v_minute_start + interval '1 minute',
+      'voice_day', (select voice_count from day_totals where day = v_today),
+      'text_day', (select text_count from day_totals where day = v_today),
+      'photo_day', (select photo_count from day_totals where day = v_today),
+      'voice_minute', (select voice_count from minute_totals),
+      'text_minute', (select text_count from minute_totals),
+      'photo_minute', (select photo_count from minute_totals),
+      'history', (
+        select jsonb_agg(
+          jsonb_build_object('date', day, 'voice', voice_count, 'text', text_count, 'photo', photo_count)
+          order by day
+        )
+        from day_totals
+      )
+    )
+  );
+end;
+$$;
@@ -8,9 +8,17 @@ begin;
 -- Direct DELETE on storage.objects is blocked by Supabase.
 -- Optional manual cleanup in dashboard:
 --   Storage -> voice-captures -> Empty bucket / Delete bucket.
+--   Storage -> receipt-photos -> Empty bucket / Delete bucket.
+--   Storage -> account-exports -> Empty bucket / Delete bucket.
 
 -- Remove all app rows explicitly (safe even if auth cascade handles most of it).
+delete from public.account_deletions;
+delete from public.usage_counters;
 delete from public.ai_usage_events;
+delete from public.merchants;
+delete from public.statement_lines;
+delete from public.statement_imports;
+delete from public.fx_rates;
 delete from public.expenses;
 delete from public.payment_method_aliases;
 delete from public.payment_methods;
@@ -0,0 +1,67 @@
+begin;
+select plan(7);
+
+insert into auth.users (id, email)
+values ('9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d', 'insights@example.com');
+
+insert into public.expenses (
+  user_id, client_expense_id, amount, currency, category, expense_date, captured_at_device, source
+)
+values
+  ('9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d', gen_random_uuid(), 100, 'MXN', 'Food', '2026-03-02', now(), 'text'),
+  ('9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d', gen_random_uuid(), 50, 'MXN', 'Food', '2026-03-10', now(), 'text'),
+  ('9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d', gen_random_uuid(), 30, 'mxn ', 'Transport', '2026-03-15', now(), 'text'),
+  ('9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d', gen_random_uuid(), 20, 'MXN', 'Food', '2026-02-20', now(), 'text'),
+  ('9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d', gen_random_uuid(), 10, 'USD', 'Food', '2026-03-05', now(), 'voice');
+
+create temporary table march as
+select public.expense_insights(
+  '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d', 'MXN', null, null, '2026-03-01', 2026
+) as insights;
+
+select is(
+  (select insights -> 'kpis' from march),
+  '{"total": 180, "entries": 3, "daily_average": 5.81, "top_category": "Food"}'::jsonb,
+  'KPIs count only the selected month and currency, averaged over the days of the month'
+);
+
+select is(
+  (select insights -> 'category_mix' from march),
+  '[{"category": "Food", "amount": 150, "entries": 2, "share": 0.8333},
+    {"category": "Transport", "amount": 30, "entries": 1, "share": 0.1667}]'::jsonb,
+  'the category mix is ordered by amount with its share of the total'
+);
+
+select is(
+  (select insights #> '{monthly_trend,categories}' from march),
+  '["Food", "Transport"]'::jsonb,
+  'trend categories are ordered by their yearly total'
+);
+
+select is(
+  (select jsonb_agg(m -> 'total' order by (m ->> 'month')::integer) from march, jsonb_array_elements(insights #> '{monthly_trend,months}') m
+   where (m ->> 'month')::integer in (1, 2, 3)),
+  '[0, 20, 180]'::jsonb,
+  'the trend covers every month of the year, ignoring the month filter'
+);
+
+select is(
+  (select insights -> 'available_currencies' from march),
+  '["MXN", "USD"]'::jsonb,
+  'available currencies are normalized and include every currency'
+);
+
+select is(
+  (select insights -> 'available_months' from march),
+  '["2026-03", "2026-02"]'::jsonb,
+  'available months are the selected currency''s, newest first'
+);
+
+select is(
+  public.expense_insights('9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d', 'EUR') -> 'kpis',
+  '{"total": 0, "entries": 0, "daily_average": 0, "top_category": null}'::jsonb,
+  'a currency without expenses has zero totals'
+);
+
+select * from finish();
+rollback;
@@ -0,0 +1,62 @@
+begin;
+select plan(7);
+
+insert into auth.users (id, email)
+values ('7c1e2d3f-4a5b-4c6d-8e7f-901a2b3c4d5e', 'merchant-memory@example.com');
+
+insert into public.expenses (
+  user_id, client_expense_id, amount, currency, category, merchant, expense_date, captured_at_device, source
+)
+values
+  ('7c1e2d3f-4a5b-4c6d-8e7f-901a2b3c4d5e', gen_random_uuid(), 5, 'USD', 'Food', 'Starbucks', current_date, now(), 'text'),
+  ('7c1e2d3f-4a5b-4c6d-8e7f-901a2b3c4d5e', gen_random_uuid(), 6, 'USD', 'Food', ' starbucks ', current_date, now(), 'text'),
+  ('7c1e2d3f-4a5b-4c6d-8e7f-901a2b3c4d5e', gen_random_uuid(), 7, 'USD', 'Food', 'Oxxo', current_date, now(), 'text');
+
+select is(
+  (select expense_count from public.merchants
+   where user_id = '7c1e2d3f-4a5b-4c6d-8e7f-901a2b3c4d5e' and normalized_name = 'starbucks'),
+  2,
+  'expenses with the same normalized merchant share one row'
+);
+
+update public.expenses
+set merchant = 'Oxxo Centro', parse_status = 'edited'
+where user_id = '7c1e2d3f-4a5b-4c6d-8e7f-901a2b3c4d5e' and merchant = 'Oxxo';
+
+select is(
+  (select aliases from public.merchants
+   where user_id = '7c1e2d3f-4a5b-4c6d-8e7f-901a2b3c4d5e' and normalized_name = 'oxxo centro'),
+  array['oxxo'],
+  'renaming a merchant in review teaches the old name as an alias'
+);
+
+select ok(
+  not exists (
+    select 1 from public.merchants
+    where user_id = '7c1e2d3f-4a5b-4c6d-8e7f-901a2b3c4d5e' and normalized_name = 'oxxo'
+  ),
+  'a merchant with no expenses left is removed'
+);
+
+delete from auth.users where id = '7c1e2d3f-4a5b-4c6d-8e7f-901a2b3c4d5e';
+
+select ok(
+  not exists (select 1 from public.merchants where user_id = '7c1e2d3f-4a5b-4c6d-8e7f-901a2b3c4d5e'),
+  'deleting a user does not re-create merchants while expenses cascade'
+);
+
+select ok(
+  not has_function_privilege('authenticated', 'public.refresh_merchant_memory(uuid, text, boolean)', 'execute'),
+  'clients cannot call refresh_merchant_memory'
+);
+select ok(
+  not has_function_privilege('anon', 'public.refresh_merchant_memory(uuid, text, boolean)', 'execute'),
+  'anonymous callers cannot call refresh_merchant_memory'
+);
+select ok(
+  not has_function_privilege('authenticated', 'public.remember_expense_merchant()', 'execute'),
+  'clients cannot call remember_expense_merchant'
+);
+
+select * from finish();
+rollback;
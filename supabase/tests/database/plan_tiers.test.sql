@@ -0,0 +1,59 @@
+begin;
+select plan(6);
+
+insert into auth.users (id, email)
+values
+  ('5b6c7d8e-9f0a-4b1c-8d2e-3f4a5b6c7d8e', 'plans@example.com'),
+  ('6c7d8e9f-0a1b-4c2d-9e3f-4a5b6c7d8e9f', 'plans-new@example.com');
+
+insert into public.profiles (id) values ('5b6c7d8e-9f0a-4b1c-8d2e-3f4a5b6c7d8e');
+
+-- Supabase grants table privileges to authenticated; the policies and the guard trigger are what limit it.
+grant select, insert, update on public.profiles to authenticated;
+set local role authenticated;
+select set_config('request.jwt.claim.sub', '5b6c7d8e-9f0a-4b1c-8d2e-3f4a5b6c7d8e', true);
+
+select lives_ok(
+  $$ update public.profiles set display_name = 'Ana', timezone = 'America/Mexico_City'
+     where id = '5b6c7d8e-9f0a-4b1c-8d2e-3f4a5b6c7d8e' $$,
+  'users can still update their own preferences'
+);
+
+select throws_ok(
+  $$ update public.profiles set plan_id = 'pro' where id = '5b6c7d8e-9f0a-4b1c-8d2e-3f4a5b6c7d8e' $$,
+  '42501',
+  'users cannot move themselves to another plan'
+);
+
+select throws_ok(
+  $$ update public.profiles set daily_voice_limit = 10000 where id = '5b6c7d8e-9f0a-4b1c-8d2e-3f4a5b6c7d8e' $$,
+  '42501',
+  'users cannot raise their own voice limit'
+);
+
+select set_config('request.jwt.claim.sub', '6c7d8e9f-0a1b-4c2d-9e3f-4a5b6c7d8e9f', true);
+
+select throws_ok(
+  $$ insert into public.profiles (id, plan_id) values ('6c7d8e9f-0a1b-4c2d-9e3f-4a5b6c7d8e9f', 'pro') $$,
+  '42501',
+  'a new profile cannot start on a paid plan'
+);
+
+select lives_ok(
+  $$ insert into public.profiles (id, default_currency) values ('6c7d8e9f-0a1b-4c2d-9e3f-4a5b6c7d8e9f', 'EUR') $$,
+  'a new profile starts on the free plan'
+);
+
+reset role;
+
+update public.profiles set plan_id = 'pro', daily_voice_limit = 800 where id = '5b6c7d8e-9f0a-4b1c-8d2e-3f4a5b6c7d8e';
+
+select is(
+  (select plan_id || ':' || daily_voice_limit || ':' || display_name
+   from public.profiles where id = '5b6c7d8e-9f0a-4b1c-8d2e-3f4a5b6c7d8e'),
+  'pro:800:Ana',
+  'the service can change plans and overrides'
+);
+
+select * from finish();
+rollback;
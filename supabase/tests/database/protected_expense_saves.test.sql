@@ -0,0 +1,74 @@
+begin;
+select plan(9);
+
+insert into auth.users (id, email)
+values ('3b9f6c1a-2d4e-4f5a-8b6c-7d8e9f0a1b2c', 'protected-saves@example.com');
+
+select ok(public.is_protected_expense('edited', now(), now()), 'an edited row is protected');
+select ok(
+  not public.is_protected_expense('auto', now() + interval '3 seconds', now()),
+  'an update within the clock skew of sync is not protected'
+);
+select ok(
+  public.is_protected_expense('auto', now() + interval '1 minute', now()),
+  'a row updated after sync is protected'
+);
+
+select is(
+  jsonb_array_length(public.save_parsed_expenses(
+    '3b9f6c1a-2d4e-4f5a-8b6c-7d8e9f0a1b2c',
+    '[{"client_expense_id": "0d6f1e2a-3b4c-4d5e-8f6a-7b8c9d0e1f2a", "amount": 120, "currency": "MXN",
+       "category": "Food", "description": "tacos", "expense_date": "2026-03-09",
+       "captured_at_device": "2026-03-09T14:30:00Z", "synced_at": "2026-03-09T14:30:05Z",
+       "source": "text", "parse_status": "auto", "parse_confidence": 0.95, "raw_text": "tacos 120"}]'
+  ) -> 'saved'),
+  1,
+  'a new capture is saved'
+);
+
+update public.expenses
+set amount = 125, parse_status = 'edited'
+where client_expense_id = '0d6f1e2a-3b4c-4d5e-8f6a-7b8c9d0e1f2a';
+
+select is(
+  public.save_parsed_expenses(
+    '3b9f6c1a-2d4e-4f5a-8b6c-7d8e9f0a1b2c',
+    '[{"client_expense_id": "5e7a8b9c-0d1e-4f2a-9b3c-4d5e6f7a8b9c", "amount": 125, "currency": "MXN",
+       "category": "Food", "merchant": "Taquería El Güero", "expense_date": "2026-03-02",
+       "captured_at_device": "2026-03-09T14:30:00Z", "synced_at": "2026-03-09T14:30:05Z",
+       "source": "photo", "parse_status": "auto", "parse_confidence": 0.9, "raw_text": "Total 125 MXN",
+       "line_items": [{"description": "Tacos al pastor", "quantity": 3, "amount": 90}]}]'
+  ) -> 'saved' -> 0 -> 'line_items',
+  '[{"description": "Tacos al pastor", "quantity": 3, "amount": 90}]'::jsonb,
+  'receipt line items are written and returned'
+);
+
+select is(
+  public.save_parsed_expenses(
+    '3b9f6c1a-2d4e-4f5a-8b6c-7d8e9f0a1b2c',
+    '[{"client_expense_id": "0d6f1e2a-3b4c-4d5e-8f6a-7b8c9d0e1f2a", "amount": 120, "currency": "MXN",
+       "category": "Food", "description": "tacos", "expense_date": "2026-03-09",
+       "captured_at_device": "2026-03-09T14:30:00Z", "synced_at": "2026-03-09T14:31:00Z",
+       "source": "text", "parse_status": "auto", "parse_confidence": 0.95, "raw_text": "tacos 120"}]'
+  ),
+  '{"saved": [], "skipped": ["0d6f1e2a-3b4c-4d5e-8f6a-7b8c9d0e1f2a"]}'::jsonb,
+  'a replay skips a row the user edited'
+);
+
+select is(
+  (select amount from public.expenses where client_expense_id = '0d6f1e2a-3b4c-4d5e-8f6a-7b8c9d0e1f2a'),
+  125::numeric,
+  'the edited amount is kept'
+);
+
+select ok(
+  not has_function_privilege('authenticated', 'public.save_parsed_expenses(uuid, jsonb)', 'execute'),
+  'clients cannot call save_parsed_expenses'
+);
+select ok(
+  not has_function_privilege('anon', 'public.save_parsed_expenses(uuid, jsonb)', 'execute'),
+  'anonymous callers cannot call save_parsed_expenses'
+);
+
+select * from finish();
+rollback;
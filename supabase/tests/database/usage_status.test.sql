@@ -0,0 +1,49 @@
+begin;
+select plan(5);
+
+insert into auth.users (id, email)
+values ('7d8e9f0a-1b2c-4d3e-8f4a-5b6c7d8e9f0a', 'usage@example.com');
+
+insert into public.usage_counters (user_id, kind, period, window_start, count)
+values
+  ('7d8e9f0a-1b2c-4d3e-8f4a-5b6c7d8e9f0a', 'voice', 'day', public.quota_day_start(now(), 'UTC'), 4),
+  ('7d8e9f0a-1b2c-4d3e-8f4a-5b6c7d8e9f0a', 'photo', 'day', public.quota_day_start(now(), 'UTC'), 1),
+  ('7d8e9f0a-1b2c-4d3e-8f4a-5b6c7d8e9f0a', 'text', 'day', public.quota_day_start(now() - interval '1 day', 'UTC'), 6),
+  ('7d8e9f0a-1b2c-4d3e-8f4a-5b6c7d8e9f0a', 'voice', 'minute', date_trunc('minute', now()), 2);
+
+create temporary table snapshot as
+select public.usage_status('7d8e9f0a-1b2c-4d3e-8f4a-5b6c7d8e9f0a', 'Not/AZone', 3) as status;
+
+select is(
+  (select status ->> 'time_zone' from snapshot),
+  'UTC',
+  'an unknown timezone falls back to UTC'
+);
+
+select is(
+  (select jsonb_build_array(status -> 'voice_day', status -> 'text_day', status -> 'photo_day', status -> 'voice_minute')
+   from snapshot),
+  '[4, 0, 1, 2]'::jsonb,
+  'today and this minute come from the current windows only'
+);
+
+select is(
+  (select jsonb_agg(jsonb_build_array(d -> 'voice', d -> 'text', d -> 'photo')) from snapshot, jsonb_array_elements(status -> 'history') d),
+  '[[0, 0, 0], [0, 6, 0], [4, 0, 1]]'::jsonb,
+  'history has one entry per day, oldest first and ending with today'
+);
+
+select is(
+  (select (status ->> 'resets_at')::timestamptz from snapshot),
+  public.quota_day_start(now(), 'UTC') + interval '1 day',
+  'the daily counts reset at the next local midnight'
+);
+
+select is(
+  (select jsonb_array_length(status -> 'history') from snapshot),
+  3,
+  'history covers the requested number of days'
+);
+
+select * from finish();
+rollback;